@@ -3,4 +3,15 @@ import { defaultConfig } from "@caido/eslint-config";
 /** @type {import('eslint').Linter.Config } */
 export default [
   ...defaultConfig(),
+  {
+    // Minified chunk fixtures are captured verbatim from real builds.
+    ignores: ["**/__fixtures__/**"],
+  },
+  {
+    // The backend runs in Caido's QuickJS runtime, not in a browser.
+    files: ["packages/backend/**/*.ts"],
+    rules: {
+      "compat/compat": "off",
+    },
+  },
 ]
@@ -8,7 +8,7 @@ const config: RawConfigurationOrFn = {
     "packages/backend": {
       entry: ["src/index.ts"],
       project: ["src/**/*.ts"],
-      ignoreDependencies: ["caido"],
+      ignoreDependencies: ["caido", "sqlite"],
     },
     "packages/frontend": {
       entry: ["src/index.ts"],
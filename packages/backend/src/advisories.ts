@@ -0,0 +1,166 @@
+import type { AdvisoryMatch, AdvisorySeverity } from "./types";
+
+type VersionRange = {
+  introduced: string;
+  fixed: string;
+};
+
+type Advisory = {
+  id: string;
+  packageName: "next" | "react";
+  title: string;
+  severity: AdvisorySeverity;
+  ranges: VersionRange[];
+};
+
+const ADVISORIES: Advisory[] = [
+  {
+    id: "CVE-2025-66478",
+    packageName: "next",
+    title: "Remote code execution via React Server Components deserialization",
+    severity: "critical",
+    ranges: [
+      { introduced: "15.0.0", fixed: "15.0.5" },
+      { introduced: "15.1.0", fixed: "15.1.9" },
+      { introduced: "15.2.0", fixed: "15.2.6" },
+      { introduced: "15.3.0", fixed: "15.3.6" },
+      { introduced: "15.4.0", fixed: "15.4.8" },
+      { introduced: "15.5.0", fixed: "15.5.7" },
+      { introduced: "16.0.0", fixed: "16.0.7" },
+    ],
+  },
+  {
+    id: "CVE-2025-29927",
+    packageName: "next",
+    title: "Middleware authorization bypass via x-middleware-subrequest",
+    severity: "critical",
+    ranges: [
+      { introduced: "11.1.4", fixed: "12.3.5" },
+      { introduced: "13.0.0", fixed: "13.5.9" },
+      { introduced: "14.0.0", fixed: "14.2.25" },
+      { introduced: "15.0.0", fixed: "15.2.3" },
+    ],
+  },
+  {
+    id: "CVE-2024-34351",
+    packageName: "next",
+    title: "Server-side request forgery in Server Actions redirects",
+    severity: "high",
+    ranges: [{ introduced: "13.4.0", fixed: "14.1.1" }],
+  },
+  {
+    id: "CVE-2024-46982",
+    packageName: "next",
+    title: "Cache poisoning of pages router non-dynamic routes",
+    severity: "high",
+    ranges: [
+      { introduced: "13.5.1", fixed: "13.5.7" },
+      { introduced: "14.0.0", fixed: "14.2.10" },
+    ],
+  },
+  {
+    id: "CVE-2024-56332",
+    packageName: "next",
+    title: "Denial of service through long-running Server Actions",
+    severity: "medium",
+    ranges: [
+      { introduced: "13.0.0", fixed: "13.5.8" },
+      { introduced: "14.0.0", fixed: "14.2.21" },
+      { introduced: "15.0.0", fixed: "15.1.2" },
+    ],
+  },
+  {
+    id: "CVE-2024-47831",
+    packageName: "next",
+    title: "Denial of service in image optimization",
+    severity: "medium",
+    ranges: [{ introduced: "10.0.0", fixed: "14.2.7" }],
+  },
+  {
+    id: "CVE-2025-55182",
+    packageName: "react",
+    title: "Remote code execution in Server Functions reply decoding",
+    severity: "critical",
+    ranges: [
+      { introduced: "19.0.0", fixed: "19.0.1" },
+      { introduced: "19.1.0", fixed: "19.1.2" },
+      { introduced: "19.2.0", fixed: "19.2.1" },
+    ],
+  },
+  {
+    id: "CVE-2025-55184",
+    packageName: "react",
+    title:
+      "Denial of service via cyclic promise references in Server Functions",
+    severity: "high",
+    ranges: [
+      { introduced: "19.0.0", fixed: "19.0.3" },
+      { introduced: "19.1.0", fixed: "19.1.4" },
+      { introduced: "19.2.0", fixed: "19.2.3" },
+    ],
+  },
+  {
+    id: "CVE-2025-55183",
+    packageName: "react",
+    title: "Server Function source code exposure",
+    severity: "medium",
+    ranges: [
+      { introduced: "19.0.0", fixed: "19.0.2" },
+      { introduced: "19.1.0", fixed: "19.1.3" },
+      { introduced: "19.2.0", fixed: "19.2.2" },
+    ],
+  },
+];
+
+const parseVersion = (version: string): number[] | undefined => {
+  const match = version.match(/^(\d+)\.(\d+)\.(\d+)/);
+  if (match === null) return undefined;
+  return match.slice(1, 4).map(Number);
+};
+
+const compareVersions = (left: number[], right: number[]): number => {
+  for (let index = 0; index < 3; index += 1) {
+    const difference = (left[index] ?? 0) - (right[index] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+};
+
+const findAffectedRange = (
+  version: number[],
+  ranges: VersionRange[],
+): VersionRange | undefined =>
+  ranges.find((range) => {
+    const introduced = parseVersion(range.introduced);
+    const fixed = parseVersion(range.fixed);
+    if (introduced === undefined || fixed === undefined) return false;
+    return (
+      compareVersions(version, introduced) >= 0 &&
+      compareVersions(version, fixed) < 0
+    );
+  });
+
+export const findAdvisories = (
+  packageName: "next" | "react",
+  version: string | undefined,
+): AdvisoryMatch[] => {
+  const parsed = version !== undefined ? parseVersion(version) : undefined;
+  if (parsed === undefined) return [];
+
+  const matches: AdvisoryMatch[] = [];
+  for (const advisory of ADVISORIES) {
+    if (advisory.packageName !== packageName) continue;
+
+    const range = findAffectedRange(parsed, advisory.ranges);
+    if (range === undefined) continue;
+
+    matches.push({
+      id: advisory.id,
+      packageName,
+      title: advisory.title,
+      severity: advisory.severity,
+      fixedIn: range.fixed,
+    });
+  }
+  return matches;
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+
+import { classifyAuthzAttempt, createResponseSnapshot } from "./authz";
+import { isRscResponse, parseRscPayload } from "./flight/response";
+
+const snapshot = (statusCode: number, body: string) =>
+  createResponseSnapshot(
+    statusCode,
+    body,
+    undefined,
+    isRscResponse("text/x-component", body) ? parseRscPayload(body) : undefined,
+  );
+
+const VOID_RESPONSE = [
+  '0:{"a":"$@1","f":"","b":"kS7yJ1wQ2xbYtB3tOWZ4H"}',
+  '1:"$undefined"',
+  "",
+].join("\n");
+
+const LOGIN_FORM_RESPONSE = [
+  '0:{"a":"$@1","f":[["children","login",["login",{"children":["__PAGE__",{}]}],["$","form",null,{"action":"/login","method":"post","children":[["$","input",null,{"type":"email","name":"email"}],["$","input",null,{"type":"password","name":"password"}],["$","button",null,{"type":"submit","children":"Sign in"}]]}],null]],"b":"kS7yJ1wQ2xbYtB3tOWZ4H"}',
+  '1:"$undefined"',
+  "",
+].join("\n");
+
+const profileResponse = (name: string) =>
+  [
+    '0:{"a":"$@1","f":"","b":"kS7yJ1wQ2xbYtB3tOWZ4H"}',
+    `1:{"id":42,"name":"${name}","role":"member"}`,
+    "",
+  ].join("\n");
+
+const DENIED_RESPONSE = [
+  '0:{"a":"$@1","f":"","b":"kS7yJ1wQ2xbYtB3tOWZ4H"}',
+  '1:{"error":"Unauthorized"}',
+  "",
+].join("\n");
+
+const original = snapshot(200, VOID_RESPONSE);
+
+describe("createResponseSnapshot", () => {
+  it("leaves a $undefined return row without a return value", () => {
+    expect(original.returnValue).toBeUndefined();
+    expect(snapshot(200, profileResponse("Ada")).returnValue).toBe(
+      '{"id":42,"name":"Ada","role":"member"}',
+    );
+  });
+});
+
+describe("classifyAuthzAttempt", () => {
+  it("treats server errors and failed sends as unclear", () => {
+    for (const statusCode of [500, 502, 0]) {
+      expect(
+        classifyAuthzAttempt(original, snapshot(statusCode, "")).verdict,
+      ).toBe("unclear");
+    }
+  });
+
+  it("requires the same status and shape for void actions", () => {
+    expect(
+      classifyAuthzAttempt(
+        original,
+        snapshot(200, VOID_RESPONSE.replace("kS7yJ1wQ2xbYtB3tOWZ4H", "next")),
+      ),
+    ).toEqual({
+      verdict: "bypassed",
+      reason: "Same status and response shape",
+    });
+    expect(
+      classifyAuthzAttempt(original, snapshot(204, VOID_RESPONSE)).verdict,
+    ).toBe("unclear");
+  });
+
+  it("does not report a void action that renders a login form as bypassed", () => {
+    expect(
+      classifyAuthzAttempt(original, snapshot(200, LOGIN_FORM_RESPONSE)),
+    ).toEqual({
+      verdict: "unclear",
+      reason: "Same status, different response shape",
+    });
+  });
+
+  it("compares decoded return values", () => {
+    const profile = snapshot(200, profileResponse("Ada"));
+    expect(
+      classifyAuthzAttempt(profile, snapshot(200, profileResponse("Ada")))
+        .verdict,
+    ).toBe("bypassed");
+    expect(
+      classifyAuthzAttempt(profile, snapshot(200, DENIED_RESPONSE)).verdict,
+    ).toBe("enforced");
+  });
+});
@@ -0,0 +1,140 @@
+import { toPlainValue } from "./flight/values";
+import type { AuthzVerdict, RscPayload } from "./types";
+
+export type ResponseSnapshot = {
+  statusCode: number;
+  size: number;
+  shape: string;
+  location: string | undefined;
+  returnValue: string | undefined;
+  errors: string[];
+};
+
+type Classification = {
+  verdict: AuthzVerdict;
+  reason: string;
+};
+
+export const DENIAL_PATTERN =
+  /unauthori[sz]ed|forbidden|not allowed|permission|access denied|not authenticated|login|sign[ -]?in/i;
+
+const LOGIN_REDIRECT_PATTERN = /login|signin|sign-in|auth/i;
+
+const SIZE_TOLERANCE = 0.05;
+
+const isSuccess = (statusCode: number) => statusCode >= 200 && statusCode < 300;
+
+export const isSimilarSize = (left: number, right: number) =>
+  Math.abs(left - right) <= Math.max(left, right) * SIZE_TOLERANCE;
+
+// Blanks string contents and numbers so responses built from the same
+// template compare equal regardless of the data they carry.
+const getBodyShape = (body: string) =>
+  body.replace(/"(?:[^"\\]|\\.)*"/g, '""').replace(/-?\d+(?:\.\d+)?/g, "0");
+
+// A void action still sends `$undefined` as its return row; that is no
+// return value, not a value every void action shares.
+export const createResponseSnapshot = (
+  statusCode: number,
+  body: string,
+  location: string | undefined,
+  payload: RscPayload | undefined,
+): ResponseSnapshot => {
+  const returnValue = payload?.returnValue;
+  return {
+    statusCode,
+    size: body.length,
+    shape: getBodyShape(body),
+    location,
+    returnValue:
+      returnValue !== undefined && returnValue.kind !== "undefined"
+        ? JSON.stringify(toPlainValue(returnValue))
+        : undefined,
+    errors: payload?.errors ?? [],
+  };
+};
+
+export const classifyAuthzAttempt = (
+  original: ResponseSnapshot,
+  replay: ResponseSnapshot,
+): Classification => {
+  if (!isSuccess(original.statusCode)) {
+    return {
+      verdict: "unclear",
+      reason: `Original request returned ${original.statusCode}`,
+    };
+  }
+
+  if (replay.statusCode === 0 || replay.statusCode >= 500) {
+    return {
+      verdict: "unclear",
+      reason:
+        replay.statusCode === 0
+          ? "No response"
+          : `Server error ${replay.statusCode}`,
+    };
+  }
+
+  if (replay.statusCode === 401 || replay.statusCode === 403) {
+    return {
+      verdict: "enforced",
+      reason: `Rejected with ${replay.statusCode}`,
+    };
+  }
+
+  if (replay.statusCode >= 300 && replay.statusCode < 400) {
+    return LOGIN_REDIRECT_PATTERN.test(replay.location ?? "")
+      ? { verdict: "enforced", reason: "Redirected to login" }
+      : {
+          verdict: "unclear",
+          reason: `Redirected to ${replay.location ?? "?"}`,
+        };
+  }
+
+  if (replay.statusCode >= 400) {
+    return { verdict: "enforced", reason: `Failed with ${replay.statusCode}` };
+  }
+
+  if (replay.errors.length > 0) {
+    return {
+      verdict: DENIAL_PATTERN.test(replay.errors.join("\n"))
+        ? "enforced"
+        : "unclear",
+      reason: `Action threw: ${replay.errors[0] ?? ""}`,
+    };
+  }
+
+  if (original.returnValue !== undefined && replay.returnValue !== undefined) {
+    if (original.returnValue === replay.returnValue) {
+      return { verdict: "bypassed", reason: "Same return value" };
+    }
+    if (DENIAL_PATTERN.test(replay.returnValue)) {
+      return { verdict: "enforced", reason: "Return value denies access" };
+    }
+    return { verdict: "unclear", reason: "Different return value" };
+  }
+
+  if (replay.statusCode !== original.statusCode) {
+    return {
+      verdict: "unclear",
+      reason: `Returned ${replay.statusCode} instead of ${original.statusCode}`,
+    };
+  }
+  if (original.shape === replay.shape) {
+    return { verdict: "bypassed", reason: "Same status and response shape" };
+  }
+  return {
+    verdict: "unclear",
+    reason: "Same status, different response shape",
+  };
+};
+
+export const combineAuthzVerdicts = (
+  verdicts: AuthzVerdict[],
+): AuthzVerdict => {
+  if (verdicts.includes("bypassed")) return "bypassed";
+  if (verdicts.length > 0 && verdicts.every((v) => v === "enforced")) {
+    return "enforced";
+  }
+  return "unclear";
+};
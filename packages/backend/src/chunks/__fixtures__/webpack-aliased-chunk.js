@@ -0,0 +1 @@
+"use strict";(self.webpackChunk_N_E=self.webpackChunk_N_E||[]).push([[177],{8123:function(e,t,n){n.d(t,{updatePost:function(){return i},publishPost:function(){return c}});var r=n(4590),o=r.createServerReference,i=o('60c4e8a2b6d0f4a8c2e6b0d4f8a2c6e0b4d8f2a6c0',r.callServer,void 0,r.findSourceMapURL),c=(0,r.createServerReference)(`00d1f3b5a7c9e1d3f5b7a9c1e3d5f7b9a1c3e5d7f9`,r.callServer)},9012:function(e,t,n){var r=n(4590),$$RSC_SERVER_ACTION_0=(0,r.createServerReference)("7fe0a2c4e6b8d0f2a4c6e8b0d2f4a6c8e0b2d4f6a8",r.callServer,void 0,r.findSourceMapURL,"$$RSC_SERVER_ACTION_0");t.default=$$RSC_SERVER_ACTION_0}}]);
@@ -0,0 +1 @@
+(self.webpackChunk_N_E=self.webpackChunk_N_E||[]).push([[931],{4180:(e,t,r)=>{"use strict";r.d(t,{createUser:()=>n,deleteUser:()=>s});var a=r(6894);let n=(0,a.createServerReference)("7f3a9c1e5b2d4f6a8c0e1b3d5f7a9c1e3b5d7f9a1c",a.callServer,void 0,a.findSourceMapURL,"createUser"),s=(0,a.createServerReference)("40b2e4d6f8a0c2e4b6d8f0a2c4e6b8d0f2a4c6e8b0",a.callServer,void 0,a.findSourceMapURL,"deleteUser")},6894:(e,t,r)=>{"use strict";r.d(t,{callServer:()=>o.callServer,createServerReference:()=>o.createServerReference,findSourceMapURL:()=>o.findSourceMapURL});var o=r(2201)}}]);
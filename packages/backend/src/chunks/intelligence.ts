@@ -0,0 +1,150 @@
+import type { ChunkIntelKind, RuleSeverity } from "../types";
+
+type ChunkIntelMatch = {
+  kind: ChunkIntelKind;
+  name: string;
+  value: string;
+  severity: RuleSeverity;
+};
+
+type SecretPattern = {
+  name: string;
+  severity: RuleSeverity;
+  pattern: RegExp;
+};
+
+const SECRET_PATTERNS: SecretPattern[] = [
+  {
+    name: "Private key",
+    severity: "critical",
+    pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----/g,
+  },
+  {
+    name: "AWS access key",
+    severity: "high",
+    pattern: /\bAKIA[0-9A-Z]{16}\b/g,
+  },
+  {
+    name: "Stripe secret key",
+    severity: "critical",
+    pattern: /\b[sr]k_live_[0-9a-zA-Z]{16,}/g,
+  },
+  {
+    name: "Stripe test key",
+    severity: "low",
+    pattern: /\b[sr]k_test_[0-9a-zA-Z]{16,}/g,
+  },
+  {
+    name: "GitHub token",
+    severity: "high",
+    pattern: /\bgh[pousr]_[A-Za-z0-9]{36}\b/g,
+  },
+  {
+    name: "Slack token",
+    severity: "high",
+    pattern: /\bxox[abprs]-[0-9A-Za-z-]{10,}/g,
+  },
+  {
+    name: "OpenAI key",
+    severity: "high",
+    pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{32,}/g,
+  },
+  { name: "Google API key", severity: "medium", pattern: /\bAIza[\w-]{35}\b/g },
+  {
+    name: "JWT",
+    severity: "medium",
+    pattern: /\beyJ[\w-]{8,}\.eyJ[\w-]{8,}\.[\w-]{8,}/g,
+  },
+  {
+    name: "Hardcoded credential",
+    severity: "medium",
+    pattern:
+      /\b(?:api_?key|apiSecret|secret_?key|client_?secret|access_?token|auth_?token|password)["']?\s*[:=]\s*["'`]([^"'`\s]{12,})["'`]/gi,
+  },
+];
+
+const PUBLIC_ENV_VALUE_PATTERN =
+  /["']?\b(NEXT_PUBLIC_[A-Z0-9_]+)["']?\s*:\s*["'`]([^"'`]*)["'`]/g;
+
+const PUBLIC_ENV_FALLBACK_PATTERN =
+  /process\.env\.(NEXT_PUBLIC_[A-Z0-9_]+)\s*(?:\|\||\?\?)\s*["'`]([^"'`]*)["'`]/g;
+
+const PUBLIC_ENV_NAME_PATTERN = /process\.env\.(NEXT_PUBLIC_[A-Z0-9_]+)/g;
+
+const URL_PATTERN = /["'`](https?:\/\/[^"'`\s]+)["'`]/g;
+
+const API_PATH_PATTERN =
+  /["'`](\/(?:api|graphql|trpc|rest|internal|admin|v\d+)(?:\/[\w\-.~/{}:$%]*)?)(?:\?[^"'`]*)?["'`]/g;
+
+const FETCH_PATTERN = /\bfetch\(\s*(["'`])((?:(?!\1)[^\\]|\\.)+)\1/g;
+
+const INTERNAL_HOST_PATTERN =
+  /^(?:localhost|127\.\d+\.\d+\.\d+|10\.\d+\.\d+\.\d+|192\.168\.\d+\.\d+|172\.(?:1[6-9]|2\d|3[01])\.\d+\.\d+|[\w.-]+\.(?:local|internal|intranet|corp|lan|svc|cluster\.local)|(?:[\w-]+\.)*(?:internal|intranet|staging|stage|dev|qa|uat|admin)[.-][\w.-]+)$/i;
+
+const MAX_VALUE_LENGTH = 300;
+
+const MAX_MATCHES = 500;
+
+const truncate = (value: string): string =>
+  value.length > MAX_VALUE_LENGTH
+    ? `${value.slice(0, MAX_VALUE_LENGTH)}...`
+    : value;
+
+const getUrlHost = (url: string): string | undefined =>
+  url
+    .replace(/^https?:\/\//, "")
+    .split(/[/?#]/)[0]
+    ?.replace(/:\d+$/, "")
+    .toLowerCase();
+
+export const extractChunkIntelligence = (source: string): ChunkIntelMatch[] => {
+  const matches = new Map<string, ChunkIntelMatch>();
+  const add = (match: ChunkIntelMatch) => {
+    const key = `${match.kind}|${match.name}|${match.value}`;
+    if (matches.size < MAX_MATCHES && !matches.has(key)) {
+      matches.set(key, { ...match, value: truncate(match.value) });
+    }
+  };
+
+  const publicValues = new Set<string>();
+  for (const pattern of [
+    PUBLIC_ENV_VALUE_PATTERN,
+    PUBLIC_ENV_FALLBACK_PATTERN,
+  ]) {
+    for (const [, name = "", value = ""] of source.matchAll(pattern)) {
+      publicValues.add(name);
+      add({ kind: "public-env", name, value, severity: "info" });
+    }
+  }
+  for (const [, name = ""] of source.matchAll(PUBLIC_ENV_NAME_PATTERN)) {
+    if (publicValues.has(name)) continue;
+    add({ kind: "public-env", name, value: "", severity: "info" });
+  }
+
+  for (const { name, severity, pattern } of SECRET_PATTERNS) {
+    for (const match of source.matchAll(pattern)) {
+      add({ kind: "secret", name, value: match[1] ?? match[0], severity });
+    }
+  }
+
+  for (const [, url = ""] of source.matchAll(URL_PATTERN)) {
+    const host = getUrlHost(url);
+    if (host === undefined || !INTERNAL_HOST_PATTERN.test(host)) continue;
+    add({ kind: "internal-host", name: host, value: url, severity: "medium" });
+  }
+
+  for (const [, path = ""] of source.matchAll(API_PATH_PATTERN)) {
+    add({ kind: "api-path", name: "API path", value: path, severity: "info" });
+  }
+
+  for (const [, , target = ""] of source.matchAll(FETCH_PATTERN)) {
+    add({
+      kind: "fetch-target",
+      name: "fetch()",
+      value: target,
+      severity: "info",
+    });
+  }
+
+  return [...matches.values()];
+};
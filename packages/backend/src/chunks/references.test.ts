@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+
+import turbopackLegacyChunk from "./__fixtures__/turbopack-legacy-chunk.js?raw";
+import turbopackModuleArray from "./__fixtures__/turbopack-module-array.js?raw";
+import webpackAliasedChunk from "./__fixtures__/webpack-aliased-chunk.js?raw";
+import webpackAppChunk from "./__fixtures__/webpack-app-chunk.js?raw";
+import {
+  extractServerReferences,
+  mayContainServerReferences,
+} from "./references";
+
+const extract = (source: string) => {
+  const result = extractServerReferences(source);
+  if (result.kind === "Error") throw new Error(result.error);
+  return result.value.map(({ actionId, exportName, moduleId }) => ({
+    actionId,
+    exportName,
+    moduleId,
+  }));
+};
+
+describe("extractServerReferences", () => {
+  it("reads webpack createServerReference calls with declared names", () => {
+    expect(extract(webpackAppChunk)).toEqual([
+      {
+        actionId: "7f3a9c1e5b2d4f6a8c0e1b3d5f7a9c1e3b5d7f9a1c",
+        exportName: "createUser",
+        moduleId: "4180",
+      },
+      {
+        actionId: "40b2e4d6f8a0c2e4b6d8f0a2c4e6b8d0f2a4c6e8b0",
+        exportName: "deleteUser",
+        moduleId: "4180",
+      },
+    ]);
+  });
+
+  it("resolves aliased calls through webpack getter export maps", () => {
+    expect(extract(webpackAliasedChunk)).toEqual([
+      {
+        actionId: "60c4e8a2b6d0f4a8c2e6b0d4f8a2c6e0b4d8f2a6c0",
+        exportName: "updatePost",
+        moduleId: "8123",
+      },
+      {
+        actionId: "00d1f3b5a7c9e1d3f5b7a9c1e3d5f7b9a1c3e5d7f9",
+        exportName: "publishPost",
+        moduleId: "8123",
+      },
+      {
+        actionId: "7fe0a2c4e6b8d0f2a4c6e8b0d2f4a6c8e0b2d4f6a8",
+        exportName: "default",
+        moduleId: "9012",
+      },
+    ]);
+  });
+
+  it("reads Turbopack module arrays keyed by numeric module IDs", () => {
+    expect(extract(turbopackModuleArray)).toEqual([
+      {
+        actionId: "40aa11bb22cc33dd44ee55ff66aa77bb88cc99dd00",
+        exportName: "logout",
+        moduleId: "61234",
+      },
+      {
+        actionId: "60ff00ee11dd22cc33bb44aa5566778899aabbccdd",
+        exportName: "updateProfile",
+        moduleId: "61234",
+      },
+    ]);
+  });
+
+  it("reads Turbopack module objects keyed by project paths", () => {
+    expect(extract(turbopackLegacyChunk)).toEqual([
+      {
+        actionId: "7f9e8d7c6b5a49382716a5b4c3d2e1f0a9b8c7d6e5",
+        exportName: "addToCart",
+        moduleId: "[project]/app/cart/actions.ts [app-client] (ecmascript)",
+      },
+      {
+        actionId: "409f8e7d6c5b4a3928170f6e5d4c3b2a1908f7e6d5",
+        exportName: "removeFromCart",
+        moduleId: "[project]/app/cart/actions.ts [app-client] (ecmascript)",
+      },
+    ]);
+  });
+
+  it("records the call-site offset of each reference", () => {
+    const result = extractServerReferences(webpackAppChunk);
+    if (result.kind === "Error") throw new Error(result.error);
+
+    for (const reference of result.value) {
+      expect(webpackAppChunk.indexOf(reference.actionId)).toBeGreaterThan(
+        reference.offset,
+      );
+    }
+  });
+
+  it("ignores hex strings passed to unrelated calls", () => {
+    const source =
+      'const hash=sha1("0123456789abcdef0123456789abcdef01234567");';
+    expect(mayContainServerReferences(source)).toBe(true);
+    expect(extract(source)).toEqual([]);
+  });
+
+  it("returns an error for unparseable chunks", () => {
+    expect(extractServerReferences("<html>").kind).toBe("Error");
+  });
+});
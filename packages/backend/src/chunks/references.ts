@@ -0,0 +1,351 @@
+import {
+  type AnyNode,
+  type AssignmentProperty,
+  type CallExpression,
+  type Function,
+  parse,
+  type Program,
+  type Property,
+} from "acorn";
+
+import type { Result } from "../types";
+
+export type ServerReference = {
+  actionId: string;
+  exportName: string | undefined;
+  moduleId: string | undefined;
+  offset: number;
+};
+
+type Candidate = {
+  call: CallExpression;
+  actionId: string;
+  moduleId: string | undefined;
+  binding: string | undefined;
+};
+
+type ChunkIndex = {
+  aliases: Set<string>;
+  exportsByBinding: Map<string, string>;
+  candidates: Candidate[];
+};
+
+type PendingNode = {
+  node: AnyNode;
+  moduleId: string | undefined;
+};
+
+const CREATE_SERVER_REFERENCE = "createServerReference";
+
+const ACTION_ID_PATTERN = /^[0-9a-fA-F]{40,}$/;
+
+const ACTION_ID_LITERAL_PATTERN = /["'`][0-9a-fA-F]{40,}["'`]/;
+
+export const mayContainServerReferences = (source: string): boolean =>
+  ACTION_ID_LITERAL_PATTERN.test(source);
+
+const isNode = (value: unknown): value is AnyNode =>
+  typeof value === "object" &&
+  value !== null &&
+  "type" in value &&
+  typeof value.type === "string";
+
+const childrenOf = (node: AnyNode): AnyNode[] => {
+  const children: AnyNode[] = [];
+  for (const value of Object.values(node)) {
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        if (isNode(item)) children.push(item);
+      }
+    } else if (isNode(value)) {
+      children.push(value);
+    }
+  }
+  return children;
+};
+
+const isFunction = (node: AnyNode | undefined): node is Function & AnyNode =>
+  node?.type === "FunctionExpression" ||
+  node?.type === "ArrowFunctionExpression" ||
+  node?.type === "FunctionDeclaration";
+
+const getStaticString = (node: AnyNode | undefined): string | undefined => {
+  if (node?.type === "Literal" && typeof node.value === "string") {
+    return node.value;
+  }
+  if (node?.type === "TemplateLiteral" && node.expressions.length === 0) {
+    return node.quasis[0]?.value.cooked ?? undefined;
+  }
+  return undefined;
+};
+
+const getModuleKey = (node: AnyNode | undefined): string | undefined => {
+  if (node?.type !== "Literal") return undefined;
+  if (typeof node.value === "string" || typeof node.value === "number") {
+    return String(node.value);
+  }
+  return undefined;
+};
+
+const getPropertyName = (
+  property: Property | AssignmentProperty,
+): string | undefined => {
+  if (!property.computed && property.key.type === "Identifier") {
+    return property.key.name;
+  }
+  return getStaticString(property.key);
+};
+
+const getReferencedName = (node: AnyNode | undefined): string | undefined => {
+  if (node === undefined) return undefined;
+
+  switch (node.type) {
+    case "Identifier":
+      return node.name;
+    case "MemberExpression":
+      if (!node.computed && node.property.type === "Identifier") {
+        return node.property.name;
+      }
+      return getStaticString(node.property);
+    case "SequenceExpression":
+      return getReferencedName(node.expressions.at(-1));
+    case "ParenthesizedExpression":
+      return getReferencedName(node.expression);
+    default:
+      return undefined;
+  }
+};
+
+const getReturnedNode = (fn: Function): AnyNode | undefined => {
+  if (fn.body.type !== "BlockStatement") return fn.body;
+
+  const statement = fn.body.body[0];
+  if (fn.body.body.length !== 1 || statement?.type !== "ReturnStatement") {
+    return undefined;
+  }
+  return statement.argument ?? undefined;
+};
+
+const getterTarget = (node: AnyNode | undefined): string | undefined => {
+  if (!isFunction(node) || node.params.length > 0) return undefined;
+  return getReferencedName(getReturnedNode(node));
+};
+
+const bindingKey = (moduleId: string | undefined, name: string) =>
+  `${moduleId ?? ""}\u0000${name}`;
+
+const getModuleIdForChild = (
+  node: AnyNode,
+  child: AnyNode,
+  moduleId: string | undefined,
+): string | undefined => {
+  if (!isFunction(child) || child.params.length === 0) return moduleId;
+
+  if (node.type === "Property" && node.value === child) {
+    return getModuleKey(node.key) ?? moduleId;
+  }
+
+  if (node.type === "ArrayExpression") {
+    const index = node.elements.findIndex((element) => element === child);
+    return getModuleKey(node.elements[index - 1] ?? undefined) ?? moduleId;
+  }
+
+  return moduleId;
+};
+
+const getCallBinding = (
+  node: AnyNode,
+): [CallExpression, string] | undefined => {
+  if (
+    node.type === "VariableDeclarator" &&
+    node.id.type === "Identifier" &&
+    node.init?.type === "CallExpression"
+  ) {
+    return [node.init, node.id.name];
+  }
+  if (
+    node.type === "AssignmentExpression" &&
+    node.left.type === "Identifier" &&
+    node.right.type === "CallExpression"
+  ) {
+    return [node.right, node.left.name];
+  }
+  return undefined;
+};
+
+const indexNode = (
+  index: ChunkIndex,
+  bindings: Map<CallExpression, string>,
+  node: AnyNode,
+  moduleId: string | undefined,
+) => {
+  switch (node.type) {
+    case "VariableDeclarator":
+      if (
+        node.id.type === "Identifier" &&
+        getReferencedName(node.init ?? undefined) === CREATE_SERVER_REFERENCE
+      ) {
+        index.aliases.add(node.id.name);
+      }
+      break;
+    case "ImportSpecifier":
+      if (getReferencedName(node.imported) === CREATE_SERVER_REFERENCE) {
+        index.aliases.add(node.local.name);
+      }
+      break;
+    case "ExportSpecifier": {
+      const local = getReferencedName(node.local);
+      const exported = getReferencedName(node.exported);
+      if (local !== undefined && exported !== undefined) {
+        index.exportsByBinding.set(bindingKey(moduleId, local), exported);
+      }
+      break;
+    }
+    case "Property": {
+      const key = getPropertyName(node);
+      if (key === undefined) break;
+
+      if (node.value.type === "Identifier" && key === CREATE_SERVER_REFERENCE) {
+        index.aliases.add(node.value.name);
+      }
+
+      const target = getterTarget(node.value);
+      if (target === CREATE_SERVER_REFERENCE) {
+        index.aliases.add(key);
+      } else if (target !== undefined) {
+        index.exportsByBinding.set(bindingKey(moduleId, target), key);
+      }
+      break;
+    }
+    case "ArrayExpression":
+      node.elements.forEach((element, position) => {
+        const exported = getStaticString(element ?? undefined);
+        const target = getterTarget(node.elements[position + 1] ?? undefined);
+        if (exported !== undefined && target !== undefined) {
+          index.exportsByBinding.set(bindingKey(moduleId, target), exported);
+        }
+      });
+      break;
+    case "AssignmentExpression":
+      if (
+        node.left.type === "MemberExpression" &&
+        node.right.type === "Identifier"
+      ) {
+        const exported = getReferencedName(node.left);
+        if (exported !== undefined) {
+          index.exportsByBinding.set(
+            bindingKey(moduleId, node.right.name),
+            exported,
+          );
+        }
+      }
+      break;
+    case "CallExpression": {
+      const actionId = getStaticString(node.arguments[0]);
+      if (actionId !== undefined && ACTION_ID_PATTERN.test(actionId)) {
+        index.candidates.push({
+          call: node,
+          actionId,
+          moduleId,
+          binding: bindings.get(node),
+        });
+      }
+      break;
+    }
+    default:
+      break;
+  }
+
+  const binding = getCallBinding(node);
+  if (binding !== undefined) bindings.set(binding[0], binding[1]);
+};
+
+const indexChunk = (program: Program): ChunkIndex => {
+  const index: ChunkIndex = {
+    aliases: new Set([CREATE_SERVER_REFERENCE]),
+    exportsByBinding: new Map<string, string>(),
+    candidates: [],
+  };
+  const bindings = new Map<CallExpression, string>();
+
+  const pending: PendingNode[] = [{ node: program, moduleId: undefined }];
+  for (;;) {
+    const current = pending.pop();
+    if (current === undefined) break;
+
+    indexNode(index, bindings, current.node, current.moduleId);
+
+    const children = childrenOf(current.node);
+    for (let i = children.length - 1; i >= 0; i -= 1) {
+      const child = children[i];
+      if (child === undefined) continue;
+      pending.push({
+        node: child,
+        moduleId: getModuleIdForChild(current.node, child, current.moduleId),
+      });
+    }
+  }
+
+  return index;
+};
+
+const isServerReferenceCall = (index: ChunkIndex, call: CallExpression) => {
+  const callee = getReferencedName(call.callee);
+  if (callee !== undefined && index.aliases.has(callee)) return true;
+  return getReferencedName(call.arguments[1]) === "callServer";
+};
+
+const toExportName = (name: string | undefined) => {
+  if (name === undefined || name === "") return undefined;
+  if (name.startsWith("$") || name.startsWith("_")) return undefined;
+  return name;
+};
+
+const parseChunk = (source: string): Program | undefined => {
+  for (const sourceType of ["script", "module"] as const) {
+    try {
+      return parse(source, {
+        ecmaVersion: "latest",
+        sourceType,
+        allowHashBang: true,
+        allowReturnOutsideFunction: sourceType === "script",
+      });
+    } catch {
+      continue;
+    }
+  }
+  return undefined;
+};
+
+export const extractServerReferences = (
+  source: string,
+): Result<ServerReference[]> => {
+  const program = parseChunk(source);
+  if (program === undefined) {
+    return { kind: "Error", error: "Chunk is not parseable JavaScript" };
+  }
+
+  const index = indexChunk(program);
+  const references: ServerReference[] = [];
+
+  for (const candidate of index.candidates) {
+    if (!isServerReferenceCall(index, candidate.call)) continue;
+
+    const declaredName = getStaticString(candidate.call.arguments[4]);
+    const exportedName =
+      candidate.binding !== undefined
+        ? index.exportsByBinding.get(
+            bindingKey(candidate.moduleId, candidate.binding),
+          )
+        : undefined;
+
+    references.push({
+      actionId: candidate.actionId,
+      exportName: toExportName(declaredName) ?? toExportName(exportedName),
+      moduleId: candidate.moduleId,
+      offset: candidate.call.start,
+    });
+  }
+
+  return { kind: "Ok", value: references };
+};
@@ -0,0 +1,253 @@
+import type { Result, SourceLocation } from "../types";
+
+type Segment = {
+  column: number;
+  sourceIndex: number;
+  line: number;
+  sourceColumn: number;
+};
+
+type DecodedMap = {
+  sources: string[];
+  lines: Segment[][];
+};
+
+type Section = {
+  line: number;
+  column: number;
+  map: DecodedMap;
+};
+
+type SourceMap = {
+  sections: Section[];
+};
+
+const BASE64_DIGITS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+const SOURCE_MAPPING_URL_PATTERN = /[#@]\s*sourceMappingURL=(\S+)\s*$/;
+
+const decodeVlq = (segment: string): number[] => {
+  const values: number[] = [];
+  let value = 0;
+  let multiplier = 1;
+
+  for (const char of segment) {
+    const digit = BASE64_DIGITS.indexOf(char);
+    if (digit === -1) break;
+
+    value += (digit % 32) * multiplier;
+    if (digit >= 32) {
+      multiplier *= 32;
+      continue;
+    }
+
+    values.push(value % 2 === 1 ? -Math.floor(value / 2) : value / 2);
+    value = 0;
+    multiplier = 1;
+  }
+
+  return values;
+};
+
+const decodeMappings = (mappings: string): Segment[][] => {
+  const lines: Segment[][] = [];
+  let sourceIndex = 0;
+  let line = 0;
+  let sourceColumn = 0;
+
+  for (const encodedLine of mappings.split(";")) {
+    const segments: Segment[] = [];
+    let column = 0;
+
+    for (const encoded of encodedLine.split(",")) {
+      if (encoded === "") continue;
+
+      const values = decodeVlq(encoded);
+      column += values[0] ?? 0;
+      if (values.length < 4) continue;
+
+      sourceIndex += values[1] ?? 0;
+      line += values[2] ?? 0;
+      sourceColumn += values[3] ?? 0;
+      segments.push({ column, sourceIndex, line, sourceColumn });
+    }
+
+    lines.push(segments);
+  }
+
+  return lines;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.map((item: unknown) => (typeof item === "string" ? item : ""))
+    : [];
+
+const decodeMap = (json: Record<string, unknown>): DecodedMap | undefined => {
+  if (typeof json.mappings !== "string") return undefined;
+
+  const sourceRoot = typeof json.sourceRoot === "string" ? json.sourceRoot : "";
+  return {
+    sources: toStringArray(json.sources).map((source) =>
+      sourceRoot !== "" && !/^[a-z]+:/i.test(source)
+        ? `${sourceRoot.replace(/\/$/, "")}/${source}`
+        : source,
+    ),
+    lines: decodeMappings(json.mappings),
+  };
+};
+
+const decodeSections = (json: Record<string, unknown>): Section[] => {
+  if (!Array.isArray(json.sections)) {
+    const map = decodeMap(json);
+    return map !== undefined ? [{ line: 0, column: 0, map }] : [];
+  }
+
+  const sections: Section[] = [];
+  for (const section of json.sections as unknown[]) {
+    if (!isRecord(section) || !isRecord(section.map)) continue;
+
+    const offset = isRecord(section.offset) ? section.offset : {};
+    const map = decodeMap(section.map);
+    if (map === undefined) continue;
+
+    sections.push({
+      line: typeof offset.line === "number" ? offset.line : 0,
+      column: typeof offset.column === "number" ? offset.column : 0,
+      map,
+    });
+  }
+  return sections;
+};
+
+export const parseSourceMap = (text: string): Result<SourceMap> => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text.replace(/^\)\]\}'[^\n]*\n/, "")) as unknown;
+  } catch {
+    return { kind: "Error", error: "Source map is not valid JSON" };
+  }
+
+  if (!isRecord(json)) {
+    return { kind: "Error", error: "Source map is not an object" };
+  }
+
+  const sections = decodeSections(json);
+  if (sections.length === 0) {
+    return { kind: "Error", error: "Source map has no mappings" };
+  }
+
+  return { kind: "Ok", value: { sections } };
+};
+
+const normalizeSourcePath = (source: string): string =>
+  source
+    .replace(/^webpack:\/\/[^/]*\//, "")
+    .replace(/^turbopack:\/\/\/?/, "")
+    .replace(/^\[project\]\//, "")
+    .replace(/^(\.\/)+/, "")
+    .replace(/\?[^/]*$/, "");
+
+const lookupSegment = (
+  map: DecodedMap,
+  line: number,
+  column: number,
+): Segment | undefined => {
+  const segments = map.lines[line] ?? [];
+  let match: Segment | undefined = undefined;
+  for (const segment of segments) {
+    if (segment.column > column) break;
+    match = segment;
+  }
+  return match ?? segments[0];
+};
+
+export const findOriginalLocation = (
+  sourceMap: SourceMap,
+  line: number,
+  column: number,
+): SourceLocation | undefined => {
+  let section: Section | undefined = undefined;
+  for (const candidate of sourceMap.sections) {
+    if (
+      candidate.line > line ||
+      (candidate.line === line && candidate.column > column)
+    ) {
+      break;
+    }
+    section = candidate;
+  }
+  if (section === undefined) return undefined;
+
+  const segment = lookupSegment(
+    section.map,
+    line - section.line,
+    line === section.line ? column - section.column : column,
+  );
+  const source = segment && section.map.sources[segment.sourceIndex];
+  if (segment === undefined || source === undefined || source === "") {
+    return undefined;
+  }
+
+  return {
+    file: normalizeSourcePath(source),
+    line: segment.line + 1,
+    column: segment.sourceColumn,
+  };
+};
+
+export const getLineAndColumn = (
+  source: string,
+  offset: number,
+): { line: number; column: number } => {
+  let line = 0;
+  let lineStart = 0;
+  for (;;) {
+    const newline = source.indexOf("\n", lineStart);
+    if (newline === -1 || newline >= offset) break;
+    line += 1;
+    lineStart = newline + 1;
+  }
+  return { line, column: offset - lineStart };
+};
+
+const resolveUrl = (base: string, relative: string): string => {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(relative)) return relative;
+
+  const origin = base.match(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i)?.[0] ?? "";
+  if (relative.startsWith("//")) {
+    return `${origin.split("//")[0] ?? "https:"}${relative}`;
+  }
+  if (relative.startsWith("/")) return `${origin}${relative}`;
+
+  const basePath = base.slice(origin.length).split(/[?#]/)[0] ?? "/";
+  const segments = basePath.split("/").slice(0, -1);
+  for (const part of relative.split("/")) {
+    if (part === "..") {
+      if (segments.length > 1) segments.pop();
+    } else if (part !== ".") {
+      segments.push(part);
+    }
+  }
+  return `${origin}${segments.join("/")}`;
+};
+
+export const getSourceMapUrl = (
+  chunkSource: string,
+  chunkUrl: string,
+): string | undefined => {
+  const comment = chunkSource
+    .slice(-2048)
+    .trimEnd()
+    .match(SOURCE_MAPPING_URL_PATTERN)?.[1];
+
+  if (comment === undefined) {
+    return `${chunkUrl.split(/[?#]/)[0] ?? chunkUrl}.map`;
+  }
+  if (comment.startsWith("data:")) return undefined;
+  return resolveUrl(chunkUrl, comment);
+};
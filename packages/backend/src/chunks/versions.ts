@@ -0,0 +1,29 @@
+type FrameworkVersions = {
+  next: string | undefined;
+  react: string | undefined;
+};
+
+const NEXT_VERSION_PATTERNS = [
+  /\bnext\s*=\s*\{\s*version\s*:\s*["'](\d+\.\d+\.\d+[^"']*)["']/,
+  /\bversion\s*:\s*["'](\d+\.\d+\.\d+[^"']*)["']\s*,\s*appDir\s*:/,
+];
+
+const REACT_VERSION_PATTERNS = [
+  /\breconcilerVersion\s*:\s*["'](\d+\.\d+\.\d+[^"']*)["']/,
+  /\bversion\s*:\s*["'](\d+\.\d+\.\d+[^"']*)["']\s*,\s*rendererPackageName\s*:\s*["']react-dom["']/,
+];
+
+const findFirst = (source: string, patterns: RegExp[]): string | undefined => {
+  for (const pattern of patterns) {
+    const match = source.match(pattern)?.[1];
+    if (match !== undefined) return match;
+  }
+  return undefined;
+};
+
+export const extractFrameworkVersions = (
+  source: string,
+): FrameworkVersions => ({
+  next: findFirst(source, NEXT_VERSION_PATTERNS),
+  react: findFirst(source, REACT_VERSION_PATTERNS),
+});
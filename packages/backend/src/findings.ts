@@ -0,0 +1,89 @@
+import type { RuleSeverity, SecurityRuleMatch } from "./types";
+
+type RuleFindingGroup = {
+  ruleId: string;
+  ruleName: string;
+  severity: RuleSeverity;
+  evidence: string[];
+};
+
+type FindingDetails = {
+  severity: RuleSeverity;
+  functionName: string;
+  actionId: string | undefined;
+  method: string;
+  url: string;
+  arguments: unknown[];
+  boundArguments: unknown[];
+  evidence: string[];
+};
+
+const SEVERITY_ORDER: RuleSeverity[] = [
+  "info",
+  "low",
+  "medium",
+  "high",
+  "critical",
+];
+
+const MAX_ARGUMENTS_LENGTH = 2000;
+
+const formatEvidence = (match: SecurityRuleMatch): string =>
+  match.evidence.length > 0
+    ? `${match.message} (${match.evidence.join(", ")})`
+    : match.message;
+
+export const getHighestSeverity = (severities: RuleSeverity[]): RuleSeverity =>
+  severities.reduce<RuleSeverity>(
+    (highest, severity) =>
+      SEVERITY_ORDER.indexOf(severity) > SEVERITY_ORDER.indexOf(highest)
+        ? severity
+        : highest,
+    "info",
+  );
+
+export const groupMatchesByRule = (
+  matches: SecurityRuleMatch[],
+): RuleFindingGroup[] => {
+  const groups = new Map<string, RuleFindingGroup>();
+  for (const match of matches) {
+    const group = groups.get(match.ruleId) ?? {
+      ruleId: match.ruleId,
+      ruleName: match.ruleName,
+      severity: match.severity,
+      evidence: [],
+    };
+    group.evidence.push(formatEvidence(match));
+    groups.set(match.ruleId, group);
+  }
+  return [...groups.values()];
+};
+
+export const formatMatchEvidence = (matches: SecurityRuleMatch[]): string[] =>
+  matches.map(
+    (match) =>
+      `[${match.severity}] ${match.ruleName}: ${formatEvidence(match)}`,
+  );
+
+const formatArguments = (values: unknown[]): string => {
+  const text = JSON.stringify(values) ?? "[]";
+  return text.length > MAX_ARGUMENTS_LENGTH
+    ? `${text.slice(0, MAX_ARGUMENTS_LENGTH)}...`
+    : text;
+};
+
+export const formatFindingDescription = (details: FindingDetails): string =>
+  [
+    `Severity: ${details.severity}`,
+    `Function: ${details.functionName}`,
+    `Action ID: ${details.actionId ?? "n/a"}`,
+    `Request: ${details.method} ${details.url}`,
+    `Arguments: ${formatArguments(details.arguments)}`,
+    ...(details.boundArguments.length > 0
+      ? [`Bound arguments: ${formatArguments(details.boundArguments)}`]
+      : []),
+    "Evidence:",
+    ...(details.evidence.length > 0
+      ? details.evidence.map((line) => `- ${line}`)
+      : ["- None recorded"]),
+  ].join("\n");
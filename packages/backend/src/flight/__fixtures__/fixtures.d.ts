@@ -0,0 +1,4 @@
+declare module "*.txt?raw" {
+  const body: string;
+  export default body;
+}
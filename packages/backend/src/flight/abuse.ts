@@ -0,0 +1,125 @@
+type FlightAbusePayload = {
+  name: string;
+  description: string;
+  parts: [string, string][];
+};
+
+type ProbeSnapshot = {
+  statusCode: number;
+  elapsedMs: number;
+  body: string;
+};
+
+type Classification = {
+  signals: string[];
+  suspicious: boolean;
+};
+
+export const FLIGHT_BASELINE_PARTS: [string, string][] = [["0", "[]"]];
+
+export const FLIGHT_ABUSE_PAYLOADS: FlightAbusePayload[] = [
+  {
+    name: "reference-path-traversal",
+    description: "Model reference with a colon path into missing properties",
+    parts: [
+      ["0", '["$1:aa:aa"]'],
+      ["1", "{}"],
+    ],
+  },
+  {
+    name: "prototype-path-reference",
+    description: "Reference path walking __proto__ to the Object constructor",
+    parts: [
+      ["0", '["$1:__proto__:constructor:name"]'],
+      ["1", "{}"],
+    ],
+  },
+  {
+    name: "constructor-chain-reference",
+    description: "Reference path reaching Function via constructor:constructor",
+    parts: [
+      ["0", '["$1:constructor:constructor"]'],
+      ["1", "{}"],
+    ],
+  },
+  {
+    name: "proto-key-argument",
+    description: "Argument object carrying a __proto__ key",
+    parts: [["0", '[{"__proto__":{"nextjsActionsAnalyzer":true}}]']],
+  },
+  {
+    name: "blob-type-confusion",
+    description: "Blob reference pointing at a plain text part",
+    parts: [
+      ["0", '["$B1"]'],
+      ["1", '"text"'],
+    ],
+  },
+  {
+    name: "unknown-reference-tag",
+    description: "Reference string with an unsupported tag",
+    parts: [["0", '["$Z1"]']],
+  },
+  {
+    name: "server-reference-forgery",
+    description: "Server reference ($h) with an attacker-chosen id",
+    parts: [
+      ["0", '["$h1"]'],
+      ["1", '{"id":"0000000000000000000000000000000000000000#x","bound":null}'],
+    ],
+  },
+];
+
+const DIGEST_PATTERN = /"digest"\s*:|\bdigest\s*:/;
+
+const ERROR_SIGNATURE_PATTERN =
+  /TypeError|ReferenceError|RangeError|Cannot read propert(?:y|ies)|is not a function|is not iterable|Connection closed|Invalid (?:server )?reference/i;
+
+const SLOW_FACTOR = 3;
+const SLOW_MARGIN_MS = 2000;
+
+export const buildFlightMultipartBody = (
+  parts: [string, string][],
+  boundary: string,
+): string =>
+  [
+    ...parts.map(
+      ([name, value]) =>
+        `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`,
+    ),
+    `--${boundary}--\r\n`,
+  ].join("");
+
+export const classifyFlightProbe = (
+  baseline: ProbeSnapshot,
+  probe: ProbeSnapshot,
+): Classification => {
+  const signals: string[] = [];
+  let suspicious = false;
+
+  if (probe.statusCode !== baseline.statusCode) {
+    signals.push(`Status ${baseline.statusCode} → ${probe.statusCode}`);
+  }
+
+  if (
+    probe.statusCode >= 500 &&
+    DIGEST_PATTERN.test(probe.body) &&
+    !(baseline.statusCode >= 500 && DIGEST_PATTERN.test(baseline.body))
+  ) {
+    signals.push("Server error with digest");
+    suspicious = true;
+  }
+
+  const signature = probe.body.match(ERROR_SIGNATURE_PATTERN)?.[0];
+  if (signature !== undefined && !baseline.body.includes(signature)) {
+    signals.push(`Error signature: ${signature}`);
+    suspicious = true;
+  }
+
+  if (probe.elapsedMs > baseline.elapsedMs * SLOW_FACTOR + SLOW_MARGIN_MS) {
+    signals.push(`Slow: ${probe.elapsedMs} ms vs ${baseline.elapsedMs} ms`);
+    suspicious = true;
+  }
+
+  return { signals, suspicious };
+};
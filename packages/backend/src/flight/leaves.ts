@@ -0,0 +1,217 @@
+import { getMultipartBoundary, parseMultipart } from "./multipart";
+
+export type BodyLeaf = {
+  path: (string | number)[];
+  start: number;
+  end: number;
+  value: string | number | boolean;
+  encoding: "json" | "form" | "text";
+};
+
+type Scanner = {
+  text: string;
+  position: number;
+  offset: number;
+  leaves: BodyLeaf[];
+};
+
+const skipWhitespace = (scanner: Scanner) => {
+  while (/\s/.test(scanner.text[scanner.position] ?? "")) {
+    scanner.position += 1;
+  }
+};
+
+const scanString = (scanner: Scanner): string => {
+  const start = scanner.position;
+  scanner.position += 1;
+  while (scanner.position < scanner.text.length) {
+    const char = scanner.text[scanner.position];
+    if (char === "\\") {
+      scanner.position += 2;
+      continue;
+    }
+    scanner.position += 1;
+    if (char === '"') break;
+  }
+  return JSON.parse(scanner.text.slice(start, scanner.position)) as string;
+};
+
+const scanValue = (scanner: Scanner, path: (string | number)[]) => {
+  skipWhitespace(scanner);
+  const start = scanner.position;
+  const char = scanner.text[start];
+
+  if (char === "{") {
+    scanner.position += 1;
+    for (;;) {
+      skipWhitespace(scanner);
+      if (scanner.text[scanner.position] !== '"') break;
+      const key = scanString(scanner);
+      skipWhitespace(scanner);
+      scanner.position += 1;
+      scanValue(scanner, [...path, key]);
+      skipWhitespace(scanner);
+      if (scanner.text[scanner.position] !== ",") break;
+      scanner.position += 1;
+    }
+    scanner.position += 1;
+    return;
+  }
+
+  if (char === "[") {
+    scanner.position += 1;
+    for (let index = 0; ; index += 1) {
+      skipWhitespace(scanner);
+      if (scanner.text[scanner.position] === "]") break;
+      scanValue(scanner, [...path, index]);
+      skipWhitespace(scanner);
+      if (scanner.text[scanner.position] !== ",") break;
+      scanner.position += 1;
+    }
+    scanner.position += 1;
+    return;
+  }
+
+  let value: string | number | boolean | undefined;
+  if (char === '"') {
+    value = scanString(scanner);
+  } else {
+    const literal = scanner.text
+      .slice(start)
+      .match(/^(?:true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/)?.[0];
+    if (literal === undefined) throw new Error("Unexpected token");
+    scanner.position += literal.length;
+    if (literal === "true" || literal === "false") {
+      value = literal === "true";
+    } else if (literal !== "null") {
+      value = Number(literal);
+    }
+  }
+
+  if (value === undefined) return;
+  scanner.leaves.push({
+    path,
+    start: scanner.offset + start,
+    end: scanner.offset + scanner.position,
+    value,
+    encoding: "json",
+  });
+};
+
+const scanJson = (
+  text: string,
+  offset: number,
+  path: (string | number)[],
+): BodyLeaf[] | undefined => {
+  try {
+    JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+
+  const scanner: Scanner = { text, position: 0, offset, leaves: [] };
+  try {
+    scanValue(scanner, path);
+  } catch {
+    return undefined;
+  }
+  return scanner.leaves;
+};
+
+const decodeFormComponent = (value: string): string => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " "));
+  } catch {
+    return value;
+  }
+};
+
+const findFormLeaves = (body: string): BodyLeaf[] => {
+  const leaves: BodyLeaf[] = [];
+  let offset = 0;
+  for (const pair of body.split("&")) {
+    const separator = pair.indexOf("=");
+    if (separator !== -1) {
+      leaves.push({
+        path: [decodeFormComponent(pair.slice(0, separator))],
+        start: offset + separator + 1,
+        end: offset + pair.length,
+        value: decodeFormComponent(pair.slice(separator + 1)),
+        encoding: "form",
+      });
+    }
+    offset += pair.length + 1;
+  }
+  return leaves;
+};
+
+const findMultipartLeaves = (body: string, boundary: string): BodyLeaf[] => {
+  const leaves: BodyLeaf[] = [];
+  for (const part of parseMultipart(body, boundary)) {
+    if (part.filename !== undefined) continue;
+
+    const json = /^\s*[[{"]/.test(part.value)
+      ? scanJson(part.value, part.offset, [part.name])
+      : undefined;
+    leaves.push(
+      ...(json ?? [
+        {
+          path: [part.name],
+          start: part.offset,
+          end: part.offset + part.value.length,
+          value: part.value,
+          encoding: "text" as const,
+        },
+      ]),
+    );
+  }
+  return leaves;
+};
+
+export const findBodyLeaves = (
+  contentType: string | undefined,
+  body: string,
+): BodyLeaf[] => {
+  const boundary = getMultipartBoundary(contentType);
+  if (boundary !== undefined) return findMultipartLeaves(body, boundary);
+
+  if (contentType?.toLowerCase().includes("x-www-form-urlencoded") === true) {
+    return findFormLeaves(body);
+  }
+
+  return scanJson(body, 0, []) ?? [];
+};
+
+export const getLeafKey = (leaf: BodyLeaf): string | undefined => {
+  const key = leaf.path.findLast((segment) => typeof segment === "string");
+  return key?.replace(/^\d+_/, "");
+};
+
+export const formatLeafPath = (path: (string | number)[]): string =>
+  path
+    .map((segment, index) => {
+      if (typeof segment === "number") return `[${segment}]`;
+      return index === 0 ? segment : `.${segment}`;
+    })
+    .join("");
+
+const encodeLeafValue = (
+  leaf: BodyLeaf,
+  value: string | number | boolean,
+): string => {
+  switch (leaf.encoding) {
+    case "json":
+      return JSON.stringify(value);
+    case "form":
+      return encodeURIComponent(String(value));
+    default:
+      return String(value);
+  }
+};
+
+export const replaceLeaf = (
+  body: string,
+  leaf: BodyLeaf,
+  value: string | number | boolean,
+): string =>
+  `${body.slice(0, leaf.start)}${encodeLeafValue(leaf, value)}${body.slice(leaf.end)}`;
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+
+import replyMultipart from "./__fixtures__/reply-multipart.txt?raw";
+import { getMultipartBoundary, parseMultipart } from "./multipart";
+
+const BOUNDARY = "----WebKitFormBoundaryq7Xv2LmR9cTn4KzA";
+
+describe("getMultipartBoundary", () => {
+  it("reads bare and quoted boundaries of form-data bodies only", () => {
+    expect(
+      getMultipartBoundary(`multipart/form-data; boundary=${BOUNDARY}`),
+    ).toBe(BOUNDARY);
+    expect(getMultipartBoundary('Multipart/Form-Data; boundary="a b"')).toBe(
+      "a b",
+    );
+    expect(getMultipartBoundary("multipart/mixed; boundary=x")).toBe(undefined);
+    expect(getMultipartBoundary("text/plain")).toBe(undefined);
+  });
+});
+
+describe("parseMultipart", () => {
+  const parts = parseMultipart(replyMultipart, BOUNDARY);
+
+  it("reads every part with its field name, file name and type", () => {
+    expect(
+      parts.map(({ name, filename, contentType }) => ({
+        name,
+        filename,
+        contentType,
+      })),
+    ).toEqual([
+      { name: "0", filename: undefined, contentType: undefined },
+      { name: "1_title", filename: undefined, contentType: undefined },
+      { name: "1_teamId", filename: undefined, contentType: undefined },
+      {
+        name: "1_attachment",
+        filename: "report.pdf",
+        contentType: "application/pdf",
+      },
+      { name: "2", filename: undefined, contentType: undefined },
+      { name: "3", filename: undefined, contentType: undefined },
+      { name: "4", filename: undefined, contentType: undefined },
+      { name: "5", filename: undefined, contentType: undefined },
+      { name: "6", filename: "blob", contentType: "image/png" },
+      { name: "7", filename: undefined, contentType: undefined },
+      { name: "10", filename: undefined, contentType: undefined },
+    ]);
+  });
+
+  it("points each part's offset at its value in the body", () => {
+    for (const part of parts) {
+      expect(
+        replyMultipart.slice(part.offset, part.offset + part.value.length),
+      ).toBe(part.value);
+    }
+    expect(parts[1]?.value).toBe("Quarterly report");
+  });
+
+  it("accepts bare newlines between headers and values", () => {
+    const body = `--x\nContent-Disposition: form-data; name="a"\n\n1\n--x--\n`;
+    expect(parseMultipart(body, "x")).toEqual([
+      {
+        name: "a",
+        filename: undefined,
+        contentType: undefined,
+        value: "1",
+        offset: body.indexOf("1"),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+export type MultipartPart = {
+  name: string;
+  filename: string | undefined;
+  contentType: string | undefined;
+  value: string;
+  offset: number;
+};
+
+export const getMultipartBoundary = (
+  contentType: string | undefined,
+): string | undefined => {
+  if (contentType === undefined) return undefined;
+  if (!contentType.toLowerCase().startsWith("multipart/form-data")) {
+    return undefined;
+  }
+
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  const boundary = match?.[1] ?? match?.[2];
+  return boundary !== undefined && boundary !== "" ? boundary : undefined;
+};
+
+const getDispositionParam = (
+  disposition: string,
+  param: string,
+): string | undefined => {
+  const match = disposition.match(
+    new RegExp(`(?:^|;)\\s*${param}="((?:[^"\\\\]|\\\\.)*)"`, "i"),
+  );
+  if (match?.[1] !== undefined) return match[1].replace(/\\(.)/g, "$1");
+
+  const bare = disposition.match(
+    new RegExp(`(?:^|;)\\s*${param}=([^;]+)`, "i"),
+  );
+  return bare?.[1]?.trim();
+};
+
+const parsePart = (
+  segment: string,
+  segmentOffset: number,
+): MultipartPart | undefined => {
+  const content = segment.replace(/^\r?\n/, "");
+
+  let separator = content.indexOf("\r\n\r\n");
+  let separatorLength = 4;
+  if (separator === -1) {
+    separator = content.indexOf("\n\n");
+    separatorLength = 2;
+  }
+  if (separator === -1) return undefined;
+
+  const headerLines = content.slice(0, separator).split(/\r?\n/);
+  const value = content
+    .slice(separator + separatorLength)
+    .replace(/\r?\n$/, "");
+
+  let disposition: string | undefined = undefined;
+  let contentType: string | undefined = undefined;
+  for (const line of headerLines) {
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+
+    const headerName = line.slice(0, colon).trim().toLowerCase();
+    const headerValue = line.slice(colon + 1).trim();
+    if (headerName === "content-disposition") disposition = headerValue;
+    if (headerName === "content-type") contentType = headerValue;
+  }
+
+  if (disposition === undefined) return undefined;
+
+  const name = getDispositionParam(disposition, "name");
+  if (name === undefined) return undefined;
+
+  return {
+    name,
+    filename: getDispositionParam(disposition, "filename"),
+    contentType,
+    value,
+    offset:
+      segmentOffset +
+      segment.length -
+      content.length +
+      separator +
+      separatorLength,
+  };
+};
+
+export const parseMultipart = (
+  body: string,
+  boundary: string,
+): MultipartPart[] => {
+  const parts: MultipartPart[] = [];
+  const delimiter = `--${boundary}`;
+  const segments = body.split(delimiter);
+
+  let offset = (segments[0]?.length ?? 0) + delimiter.length;
+  for (const segment of segments.slice(1)) {
+    if (segment.startsWith("--")) break;
+
+    const part = parsePart(segment, offset);
+    if (part !== undefined) parts.push(part);
+    offset += segment.length + delimiter.length;
+  }
+
+  return parts;
+};
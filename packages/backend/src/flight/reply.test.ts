@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+
+import replyJson from "./__fixtures__/reply-json.txt?raw";
+import replyMultipart from "./__fixtures__/reply-multipart.txt?raw";
+import replyProgressiveForm from "./__fixtures__/reply-progressive-form.txt?raw";
+import { decodeActionBody, getProgressiveFormActionId } from "./reply";
+
+const MULTIPART =
+  "multipart/form-data; boundary=----WebKitFormBoundaryq7Xv2LmR9cTn4KzA";
+
+describe("decodeActionBody", () => {
+  it("resolves outlined parts of an encodeReply multipart body", () => {
+    const decoded = decodeActionBody(MULTIPART, replyMultipart);
+    expect(decoded.encoding).toBe("multipart");
+    expect(decoded.errors).toEqual([]);
+    expect(decoded.args).toEqual([
+      {
+        kind: "formData",
+        entries: [
+          {
+            key: "title",
+            value: { kind: "string", value: "Quarterly report" },
+          },
+          { key: "teamId", value: { kind: "string", value: "12" } },
+          {
+            key: "attachment",
+            value: {
+              kind: "file",
+              filename: "report.pdf",
+              contentType: "application/pdf",
+              size: 13,
+            },
+          },
+        ],
+      },
+      {
+        kind: "map",
+        entries: [
+          {
+            key: { kind: "string", value: "theme" },
+            value: { kind: "string", value: "dark" },
+          },
+          {
+            key: { kind: "string", value: "pageSize" },
+            value: { kind: "number", value: 25 },
+          },
+        ],
+      },
+      {
+        kind: "set",
+        items: [
+          { kind: "string", value: "admin" },
+          { kind: "string", value: "editor" },
+        ],
+      },
+      {
+        kind: "promise",
+        value: {
+          kind: "object",
+          entries: [{ key: "userId", value: { kind: "number", value: 7 } }],
+        },
+      },
+      {
+        kind: "serverReference",
+        actionId: "40b2e4d6f8a0c2e4b6d8f0a2c4e6b8d0f2a4c6e8b0",
+        bound: [
+          { kind: "string", value: "org_1" },
+          { kind: "number", value: 42 },
+        ],
+      },
+      {
+        kind: "object",
+        entries: [
+          {
+            key: "avatar",
+            value: {
+              kind: "file",
+              filename: "blob",
+              contentType: "image/png",
+              size: 14,
+            },
+          },
+          { key: "note", value: { kind: "undefined" } },
+          {
+            key: "count",
+            value: { kind: "bigint", value: "9007199254740993" },
+          },
+          {
+            key: "at",
+            value: { kind: "date", value: "2024-05-01T10:00:00.000Z" },
+          },
+          { key: "price", value: { kind: "string", value: "$5" } },
+        ],
+      },
+      {
+        kind: "promise",
+        value: {
+          kind: "object",
+          entries: [{ key: "page", value: { kind: "number", value: 2 } }],
+        },
+      },
+    ]);
+  });
+
+  it("decodes bound arguments and fields of a progressive form post", () => {
+    expect(decodeActionBody(MULTIPART, replyProgressiveForm)).toEqual({
+      encoding: "multipart",
+      args: [
+        { kind: "string", value: "team_9" },
+        {
+          kind: "formData",
+          entries: [
+            {
+              key: "email",
+              value: { kind: "string", value: "owner@example.com" },
+            },
+            { key: "role", value: { kind: "string", value: "admin" } },
+          ],
+        },
+      ],
+      boundArgs: [{ kind: "string", value: "team_9" }],
+      errors: [],
+    });
+  });
+
+  it("decodes escaped and special strings of a JSON body", () => {
+    const decoded = decodeActionBody("text/plain;charset=UTF-8", replyJson);
+    expect(decoded.encoding).toBe("json");
+    expect(decoded.args).toEqual([
+      {
+        kind: "object",
+        entries: [
+          { key: "id", value: { kind: "number", value: 42 } },
+          { key: "name", value: { kind: "string", value: "$admin" } },
+          { key: "deletedAt", value: { kind: "undefined" } },
+          { key: "score", value: { kind: "special", value: "-0" } },
+          { key: "limit", value: { kind: "special", value: "Infinity" } },
+          {
+            key: "createdAt",
+            value: { kind: "date", value: "2024-05-01T10:00:00.000Z" },
+          },
+        ],
+      },
+      { kind: "undefined" },
+    ]);
+  });
+
+  it("leaves outlined references of a JSON body unresolved", () => {
+    const decoded = decodeActionBody("text/plain", '["$@1","$K2"]');
+    expect(decoded.args).toEqual([
+      {
+        kind: "promise",
+        value: {
+          kind: "reference",
+          ref: "$@1",
+          description: "Promise of chunk 1",
+        },
+      },
+      { kind: "reference", ref: "$K2", description: "FormData" },
+    ]);
+  });
+});
+
+describe("getProgressiveFormActionId", () => {
+  it("reads the action ID from the bound server reference", () => {
+    expect(getProgressiveFormActionId(MULTIPART, replyProgressiveForm)).toBe(
+      "7f3a9c1e5b2d4f6a8c0e1b3d5f7a9c1e3b5d7f9a1c",
+    );
+  });
+
+  it("ignores multipart bodies without $ACTION_ fields", () => {
+    expect(getProgressiveFormActionId(MULTIPART, replyMultipart)).toBe(
+      undefined,
+    );
+  });
+});
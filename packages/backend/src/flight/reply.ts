@@ -0,0 +1,421 @@
+import type { DecodedActionBody, FlightEntry, FlightValue } from "../types";
+
+import {
+  getMultipartBoundary,
+  type MultipartPart,
+  parseMultipart,
+} from "./multipart";
+import { decodePrimitiveString, unresolvedReference } from "./values";
+
+type ReplyContext = {
+  prefix: string;
+  parts: MultipartPart[] | undefined;
+  errors: string[];
+  resolving: Set<string>;
+};
+
+const MAX_DEPTH = 32;
+
+const TYPED_ARRAY_TAGS: Record<string, string> = {
+  A: "ArrayBuffer",
+  O: "Int8Array",
+  o: "Uint8Array",
+  U: "Uint8ClampedArray",
+  S: "Int16Array",
+  s: "Uint16Array",
+  L: "Int32Array",
+  l: "Uint32Array",
+  G: "Float32Array",
+  g: "Float64Array",
+  M: "BigInt64Array",
+  m: "BigUint64Array",
+  V: "DataView",
+};
+
+const STREAM_TAGS: Record<string, string> = {
+  R: "ReadableStream",
+  r: "ReadableStream (bytes)",
+  X: "AsyncIterable",
+  x: "AsyncIterator",
+  i: "Iterator",
+};
+
+const isHexId = (value: string) => /^[0-9a-fA-F]+$/.test(value);
+
+const getFieldName = (ctx: ReplyContext, hexId: string) =>
+  `${ctx.prefix}${parseInt(hexId, 16)}`;
+
+const findPart = (ctx: ReplyContext, name: string) =>
+  ctx.parts?.find((p) => p.name === name);
+
+const readChunk = (
+  ctx: ReplyContext,
+  ref: string,
+  hexId: string,
+  depth: number,
+): FlightValue | undefined => {
+  if (!isHexId(hexId)) return undefined;
+
+  const fieldName = getFieldName(ctx, hexId);
+  const part = findPart(ctx, fieldName);
+  if (part === undefined) return undefined;
+  if (ctx.resolving.has(fieldName)) {
+    return unresolvedReference(ref, `Circular reference to chunk ${fieldName}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(part.value) as unknown;
+  } catch {
+    ctx.errors.push(`Chunk ${fieldName} is not valid JSON`);
+    return { kind: "string", value: part.value };
+  }
+
+  ctx.resolving.add(fieldName);
+  const value = decodeModel(ctx, json, depth + 1);
+  ctx.resolving.delete(fieldName);
+  return value;
+};
+
+const toFile = (part: MultipartPart): FlightValue => ({
+  kind: "file",
+  filename: part.filename ?? "blob",
+  contentType: part.contentType ?? "application/octet-stream",
+  size: part.value.length,
+});
+
+const toFormDataEntries = (
+  parts: MultipartPart[],
+  prefix: string,
+): FlightEntry[] => {
+  return parts
+    .filter((p) => p.name.startsWith(prefix))
+    .map((p) => ({
+      key: p.name.slice(prefix.length),
+      value:
+        p.filename !== undefined
+          ? toFile(p)
+          : { kind: "string", value: p.value },
+    }));
+};
+
+const itemsOf = (value: FlightValue): FlightValue[] => {
+  if (value.kind === "array" || value.kind === "set") return value.items;
+  if (value.kind === "promise") return itemsOf(value.value);
+  return [value];
+};
+
+const decodeServerReference = (
+  ctx: ReplyContext,
+  ref: string,
+  hexId: string,
+  depth: number,
+): FlightValue => {
+  const metadata = readChunk(ctx, ref, hexId, depth);
+  if (metadata?.kind !== "object") {
+    return unresolvedReference(ref, "Server reference");
+  }
+
+  const id = metadata.entries.find((e) => e.key === "id")?.value;
+  const bound = metadata.entries.find((e) => e.key === "bound")?.value;
+
+  return {
+    kind: "serverReference",
+    actionId: id?.kind === "string" ? id.value : "",
+    bound: bound === undefined || bound.kind === "null" ? [] : itemsOf(bound),
+  };
+};
+
+const decodeString = (
+  ctx: ReplyContext,
+  value: string,
+  depth: number,
+): FlightValue => {
+  const primitive = decodePrimitiveString(value);
+  if (primitive !== undefined) return primitive;
+
+  const tag = value[1];
+  const rest = value.slice(2);
+
+  switch (tag) {
+    case "@": {
+      const chunk = readChunk(ctx, value, rest, depth);
+      return {
+        kind: "promise",
+        value: chunk ?? unresolvedReference(value, `Promise of chunk ${rest}`),
+      };
+    }
+    case "F":
+    case "h":
+      return decodeServerReference(ctx, value, rest, depth);
+    case "T":
+      return unresolvedReference(value, "Temporary reference");
+    case "Q": {
+      const chunk = readChunk(ctx, value, rest, depth);
+      if (chunk?.kind !== "array") return unresolvedReference(value, "Map");
+      return {
+        kind: "map",
+        entries: chunk.items.map((item) => {
+          const pair = itemsOf(item);
+          return {
+            key: pair[0] ?? { kind: "undefined" },
+            value: pair[1] ?? { kind: "undefined" },
+          };
+        }),
+      };
+    }
+    case "W": {
+      const chunk = readChunk(ctx, value, rest, depth);
+      if (chunk?.kind !== "array") return unresolvedReference(value, "Set");
+      return { kind: "set", items: chunk.items };
+    }
+    case "K": {
+      if (ctx.parts === undefined || !isHexId(rest)) {
+        return unresolvedReference(value, "FormData");
+      }
+      return {
+        kind: "formData",
+        entries: toFormDataEntries(ctx.parts, `${getFieldName(ctx, rest)}_`),
+      };
+    }
+    case "B": {
+      const part = isHexId(rest)
+        ? findPart(ctx, getFieldName(ctx, rest))
+        : undefined;
+      return part !== undefined
+        ? toFile(part)
+        : unresolvedReference(value, "Blob");
+    }
+    default:
+      break;
+  }
+
+  if (tag !== undefined && TYPED_ARRAY_TAGS[tag] !== undefined) {
+    const part = isHexId(rest)
+      ? findPart(ctx, getFieldName(ctx, rest))
+      : undefined;
+    return {
+      kind: "binary",
+      type: TYPED_ARRAY_TAGS[tag],
+      size: part?.value.length ?? 0,
+    };
+  }
+
+  if (tag !== undefined && STREAM_TAGS[tag] !== undefined) {
+    return unresolvedReference(value, STREAM_TAGS[tag]);
+  }
+
+  const chunkId = value.slice(1);
+  if (isHexId(chunkId)) {
+    return (
+      readChunk(ctx, value, chunkId, depth) ??
+      unresolvedReference(value, `Chunk ${chunkId} not in body`)
+    );
+  }
+
+  return unresolvedReference(value, "Unknown reference");
+};
+
+const decodeModel = (
+  ctx: ReplyContext,
+  json: unknown,
+  depth: number,
+): FlightValue => {
+  if (depth > MAX_DEPTH) {
+    return unresolvedReference("", "Maximum depth exceeded");
+  }
+
+  if (json === null) return { kind: "null" };
+  if (typeof json === "string") return decodeString(ctx, json, depth);
+  if (typeof json === "number") return { kind: "number", value: json };
+  if (typeof json === "boolean") return { kind: "boolean", value: json };
+
+  if (Array.isArray(json)) {
+    return {
+      kind: "array",
+      items: json.map((item: unknown) => decodeModel(ctx, item, depth + 1)),
+    };
+  }
+
+  if (typeof json === "object") {
+    return {
+      kind: "object",
+      entries: Object.entries(json).map(([key, value]) => ({
+        key,
+        value: decodeModel(ctx, value, depth + 1),
+      })),
+    };
+  }
+
+  return { kind: "undefined" };
+};
+
+const createContext = (
+  parts: MultipartPart[] | undefined,
+  prefix = "",
+): ReplyContext => ({
+  prefix,
+  parts,
+  errors: [],
+  resolving: new Set<string>(),
+});
+
+const decodeProgressiveForm = (parts: MultipartPart[]): DecodedActionBody => {
+  const formData: FlightValue = {
+    kind: "formData",
+    entries: toFormDataEntries(
+      parts.filter((p) => !p.name.startsWith("$ACTION_")),
+      "",
+    ),
+  };
+
+  const refPart = parts.find((p) => p.name.startsWith("$ACTION_REF_"));
+  if (refPart === undefined) {
+    return {
+      encoding: "multipart",
+      args: [formData],
+      boundArgs: [],
+      errors: [],
+    };
+  }
+
+  const refId = refPart.name.slice("$ACTION_REF_".length);
+  const ctx = createContext(parts, `$ACTION_${refId}:`);
+  const metadata = decodeServerReference(ctx, "$ACTION_REF", "0", 0);
+  const boundArgs = metadata.kind === "serverReference" ? metadata.bound : [];
+
+  return {
+    encoding: "multipart",
+    args: [...boundArgs, formData],
+    boundArgs,
+    errors: ctx.errors,
+  };
+};
+
+const isProgressiveFormPart = (part: MultipartPart) =>
+  part.name.startsWith("$ACTION_ID_") ||
+  part.name.startsWith("$ACTION_REF_") ||
+  part.name === "$ACTION_KEY";
+
+const decodeMultipart = (parts: MultipartPart[]): DecodedActionBody => {
+  if (parts.some(isProgressiveFormPart)) return decodeProgressiveForm(parts);
+
+  const ctx = createContext(parts);
+  const root = readChunk(ctx, "$0", "0", 0);
+  if (root === undefined) {
+    return {
+      encoding: "multipart",
+      args: [{ kind: "formData", entries: toFormDataEntries(parts, "") }],
+      boundArgs: [],
+      errors: ["Missing root chunk 0"],
+    };
+  }
+
+  return {
+    encoding: "multipart",
+    args: root.kind === "array" ? root.items : [root],
+    boundArgs: [],
+    errors: ctx.errors,
+  };
+};
+
+const decodeFormComponent = (value: string) => {
+  const spaced = value.replace(/\+/g, " ");
+  try {
+    return decodeURIComponent(spaced);
+  } catch {
+    return spaced;
+  }
+};
+
+const decodeUrlEncoded = (body: string): DecodedActionBody => {
+  const entries: FlightEntry[] = [];
+  for (const pair of body.split("&")) {
+    if (pair === "") continue;
+
+    const separator = pair.indexOf("=");
+    const key = separator === -1 ? pair : pair.slice(0, separator);
+    const value = separator === -1 ? "" : pair.slice(separator + 1);
+    entries.push({
+      key: decodeFormComponent(key),
+      value: { kind: "string", value: decodeFormComponent(value) },
+    });
+  }
+
+  return {
+    encoding: "urlencoded",
+    args: [{ kind: "formData", entries }],
+    boundArgs: [],
+    errors: [],
+  };
+};
+
+export const decodeActionBody = (
+  contentType: string | undefined,
+  body: string,
+): DecodedActionBody => {
+  if (body.trim() === "") {
+    return { encoding: "empty", args: [], boundArgs: [], errors: [] };
+  }
+
+  const boundary = getMultipartBoundary(contentType);
+  if (boundary !== undefined) {
+    return decodeMultipart(parseMultipart(body, boundary));
+  }
+
+  if (
+    contentType
+      ?.toLowerCase()
+      .startsWith("application/x-www-form-urlencoded") === true
+  ) {
+    return decodeUrlEncoded(body);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(body) as unknown;
+  } catch {
+    return {
+      encoding: "text",
+      args: [{ kind: "string", value: body }],
+      boundArgs: [],
+      errors: ["Body is neither multipart nor JSON"],
+    };
+  }
+
+  const ctx = createContext(undefined);
+  const root = decodeModel(ctx, json, 0);
+
+  return {
+    encoding: "json",
+    args: root.kind === "array" ? root.items : [root],
+    boundArgs: [],
+    errors: ctx.errors,
+  };
+};
+
+export const getProgressiveFormActionId = (
+  contentType: string | undefined,
+  body: string,
+): string | undefined => {
+  const boundary = getMultipartBoundary(contentType);
+  if (boundary === undefined || !body.includes("$ACTION_")) return undefined;
+
+  const parts = parseMultipart(body, boundary);
+  const idPart = parts.find((p) => p.name.startsWith("$ACTION_ID_"));
+  if (idPart !== undefined) {
+    const actionId = idPart.name.slice("$ACTION_ID_".length);
+    return actionId !== "" ? actionId : undefined;
+  }
+
+  const refPart = parts.find((p) => p.name.startsWith("$ACTION_REF_"));
+  if (refPart === undefined) return undefined;
+
+  const refId = refPart.name.slice("$ACTION_REF_".length);
+  const ctx = createContext(parts, `$ACTION_${refId}:`);
+  const metadata = decodeServerReference(ctx, "$ACTION_REF", "0", 0);
+  if (metadata.kind !== "serverReference" || metadata.actionId === "") {
+    return undefined;
+  }
+  return metadata.actionId;
+};
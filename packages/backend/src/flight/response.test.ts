@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+
+import responseArrayRoot from "./__fixtures__/response-array-root.txt?raw";
+import responseError from "./__fixtures__/response-error.txt?raw";
+import responseResult from "./__fixtures__/response-result.txt?raw";
+import responseVoid from "./__fixtures__/response-void.txt?raw";
+import { isRscResponse, parseRscPayload } from "./response";
+
+describe("isRscResponse", () => {
+  it("accepts text/x-component or a body starting with row 0", () => {
+    expect(isRscResponse("text/x-component", "")).toBe(true);
+    expect(isRscResponse(undefined, responseVoid)).toBe(true);
+    expect(isRscResponse("text/html", "<!DOCTYPE html>")).toBe(false);
+  });
+});
+
+describe("parseRscPayload", () => {
+  it("resolves the return value of a Next.js 15 action response", () => {
+    const payload = parseRscPayload(responseResult);
+    expect(payload.buildId).toBe("Wq3nCk1xR0aP");
+    expect(payload.errors).toEqual([]);
+    expect(payload.rows.map((row) => [row.id, row.tag])).toEqual([
+      ["0", ""],
+      ["1", ""],
+      ["2", ""],
+      ["3", ""],
+      ["4", "T"],
+    ]);
+    expect(payload.returnValue).toEqual({
+      kind: "object",
+      entries: [
+        { key: "ok", value: { kind: "boolean", value: true } },
+        {
+          key: "user",
+          value: {
+            kind: "object",
+            entries: [
+              { key: "id", value: { kind: "number", value: 7 } },
+              {
+                key: "email",
+                value: { kind: "string", value: "owner@example.com" },
+              },
+              {
+                key: "roles",
+                value: {
+                  kind: "set",
+                  items: [
+                    { kind: "string", value: "admin" },
+                    { kind: "string", value: "editor" },
+                  ],
+                },
+              },
+              {
+                key: "prefs",
+                value: {
+                  kind: "map",
+                  entries: [
+                    {
+                      key: { kind: "string", value: "theme" },
+                      value: { kind: "string", value: "dark" },
+                    },
+                  ],
+                },
+              },
+              {
+                key: "bio",
+                value: {
+                  kind: "string",
+                  value: "Line one of a long biography",
+                },
+              },
+            ],
+          },
+        },
+        {
+          key: "total",
+          value: { kind: "bigint", value: "12345678901234567890" },
+        },
+        {
+          key: "updatedAt",
+          value: { kind: "date", value: "2024-05-01T10:00:00.000Z" },
+        },
+      ],
+    });
+  });
+
+  it("reads a $undefined row as an undefined return value", () => {
+    const payload = parseRscPayload(responseVoid);
+    expect(payload.returnValue).toEqual({ kind: "undefined" });
+    expect(payload.buildId).toBe("Wq3nCk1xR0aP");
+    expect(payload.errors).toEqual([]);
+  });
+
+  it("reads the array root of Next.js 14 action responses", () => {
+    const payload = parseRscPayload(responseArrayRoot);
+    expect(payload.buildId).toBe("Wq3nCk1xR0aP");
+    expect(payload.returnValue).toEqual({
+      kind: "object",
+      entries: [{ key: "saved", value: { kind: "boolean", value: true } }],
+    });
+    expect(payload.tree).toEqual({ kind: "null" });
+  });
+
+  it("reports error rows", () => {
+    const payload = parseRscPayload(responseError);
+    expect(payload.errors).toEqual(["Unauthorized: missing session"]);
+    expect(payload.rows[1]?.tag).toBe("E");
+  });
+});
@@ -0,0 +1,382 @@
+import type { FlightEntry, FlightValue, RscPayload, RscRow } from "../types";
+
+import { decodePrimitiveString, unresolvedReference } from "./values";
+
+type ResponseContext = {
+  rows: Map<string, RscRow>;
+  errors: string[];
+  resolving: Set<string>;
+};
+
+const MAX_DEPTH = 64;
+
+const LENGTH_PREFIXED_TAGS = new Set([
+  "T",
+  "A",
+  "O",
+  "o",
+  "U",
+  "S",
+  "s",
+  "L",
+  "l",
+  "G",
+  "g",
+  "M",
+  "m",
+  "V",
+]);
+
+const STREAM_TAGS: Record<string, string> = {
+  R: "ReadableStream",
+  r: "ReadableStream (bytes)",
+  X: "AsyncIterable",
+  x: "AsyncIterator",
+  i: "Iterator",
+  T: "Temporary reference",
+  P: "Postponed",
+  Y: "Debug value",
+  E: "Server function",
+};
+
+export const isRscResponse = (
+  contentType: string | undefined,
+  body: string,
+): boolean => {
+  if (contentType?.toLowerCase().includes("text/x-component") === true) {
+    return true;
+  }
+  return /^0:/.test(body);
+};
+
+const readRowTag = (body: string, start: number): string => {
+  const first = body[start];
+  if (first === undefined || !/[A-Za-z]/.test(first)) return "";
+  if (/^(true|false|null)/.test(body.slice(start, start + 5))) return "";
+  if (first === "H") return body.slice(start, start + 2);
+  return first;
+};
+
+const splitRscRows = (body: string): RscRow[] => {
+  const rows: RscRow[] = [];
+  let position = 0;
+
+  while (position < body.length) {
+    const colon = body.indexOf(":", position);
+    if (colon === -1) break;
+
+    const id = body.slice(position, colon).trim();
+    const tag = readRowTag(body, colon + 1);
+    const valueStart = colon + 1 + tag.length;
+
+    const lengthMatch = LENGTH_PREFIXED_TAGS.has(tag)
+      ? body.slice(valueStart).match(/^([0-9a-fA-F]+),/)
+      : undefined;
+
+    if (lengthMatch?.[1] !== undefined) {
+      const dataStart = valueStart + lengthMatch[0].length;
+      const dataEnd = dataStart + parseInt(lengthMatch[1], 16);
+      rows.push({ id, tag, raw: body.slice(dataStart, dataEnd) });
+      position = dataEnd;
+      continue;
+    }
+
+    const newline = body.indexOf("\n", valueStart);
+    const end = newline === -1 ? body.length : newline;
+    rows.push({ id, tag, raw: body.slice(valueStart, end) });
+    position = end + 1;
+  }
+
+  return rows;
+};
+
+const parseRowJson = (ctx: ResponseContext, row: RscRow): unknown => {
+  try {
+    return JSON.parse(row.raw) as unknown;
+  } catch {
+    ctx.errors.push(`Row ${row.id} is not valid JSON`);
+    return row.raw;
+  }
+};
+
+const describeClientReference = (json: unknown): string => {
+  if (Array.isArray(json)) {
+    return `Client reference ${String(json[0])}#${String(json[2] ?? "")}`;
+  }
+  if (json !== null && typeof json === "object" && "id" in json) {
+    const name = "name" in json ? String(json.name) : "";
+    return `Client reference ${String(json.id)}#${name}`;
+  }
+  return "Client reference";
+};
+
+const readRow = (
+  ctx: ResponseContext,
+  ref: string,
+  id: string,
+  depth: number,
+): FlightValue | undefined => {
+  const row = ctx.rows.get(id);
+  if (row === undefined) return undefined;
+
+  switch (row.tag) {
+    case "":
+    case "E":
+      break;
+    case "I":
+      return unresolvedReference(
+        ref,
+        describeClientReference(parseRowJson(ctx, row)),
+      );
+    case "T":
+      return { kind: "string", value: row.raw };
+    default:
+      if (LENGTH_PREFIXED_TAGS.has(row.tag)) {
+        return { kind: "binary", type: row.tag, size: row.raw.length };
+      }
+      return unresolvedReference(ref, `Row ${row.tag}`);
+  }
+
+  if (ctx.resolving.has(id)) {
+    return unresolvedReference(ref, `Circular reference to row ${id}`);
+  }
+
+  ctx.resolving.add(id);
+  const value = decodeModel(ctx, parseRowJson(ctx, row), depth + 1);
+  ctx.resolving.delete(id);
+  return value;
+};
+
+const entriesOf = (value: FlightValue | undefined): FlightEntry[] => {
+  if (value?.kind === "object") return value.entries;
+  return [];
+};
+
+const decodeServerReference = (
+  ctx: ResponseContext,
+  ref: string,
+  id: string,
+  depth: number,
+): FlightValue => {
+  const metadata = entriesOf(readRow(ctx, ref, id, depth));
+  const actionId = metadata.find((e) => e.key === "id")?.value;
+  const bound = metadata.find((e) => e.key === "bound")?.value;
+  if (actionId?.kind !== "string") {
+    return unresolvedReference(ref, "Server reference");
+  }
+
+  return {
+    kind: "serverReference",
+    actionId: actionId.value,
+    bound:
+      bound?.kind === "array"
+        ? bound.items
+        : bound?.kind === "promise" && bound.value.kind === "array"
+          ? bound.value.items
+          : [],
+  };
+};
+
+const decodeString = (
+  ctx: ResponseContext,
+  value: string,
+  depth: number,
+): FlightValue => {
+  const primitive = decodePrimitiveString(value);
+  if (primitive !== undefined) return primitive;
+
+  const tag = value[1] ?? "";
+  const rest = value.slice(2);
+
+  switch (tag) {
+    case "@":
+      return {
+        kind: "promise",
+        value:
+          readRow(ctx, value, rest, depth) ??
+          unresolvedReference(value, `Promise of row ${rest}`),
+      };
+    case "L":
+      return (
+        readRow(ctx, value, rest, depth) ??
+        unresolvedReference(value, `Lazy row ${rest}`)
+      );
+    case "S":
+      return unresolvedReference(value, `Symbol(${rest})`);
+    case "F":
+    case "h":
+      return decodeServerReference(ctx, value, rest, depth);
+    case "Q": {
+      const row = readRow(ctx, value, rest, depth);
+      if (row?.kind !== "array") return unresolvedReference(value, "Map");
+      return {
+        kind: "map",
+        entries: row.items.map((item) => {
+          const pair = item.kind === "array" ? item.items : [];
+          return {
+            key: pair[0] ?? { kind: "undefined" },
+            value: pair[1] ?? { kind: "undefined" },
+          };
+        }),
+      };
+    }
+    case "W": {
+      const row = readRow(ctx, value, rest, depth);
+      if (row?.kind !== "array") return unresolvedReference(value, "Set");
+      return { kind: "set", items: row.items };
+    }
+    case "K": {
+      const row = readRow(ctx, value, rest, depth);
+      if (row?.kind !== "array") return unresolvedReference(value, "FormData");
+      return {
+        kind: "formData",
+        entries: row.items.map((item, index) => {
+          const pair = item.kind === "array" ? item.items : [];
+          const key = pair[0];
+          return {
+            key: key?.kind === "string" ? key.value : String(index),
+            value: pair[1] ?? { kind: "undefined" },
+          };
+        }),
+      };
+    }
+    case "Z":
+      return (
+        readRow(ctx, value, rest, depth) ?? unresolvedReference(value, "Error")
+      );
+    case "B":
+      return { kind: "binary", type: "Blob", size: 0 };
+    default:
+      break;
+  }
+
+  if (STREAM_TAGS[tag] !== undefined) {
+    return unresolvedReference(value, STREAM_TAGS[tag]);
+  }
+
+  const rowId = value.slice(1);
+  if (/^[0-9a-fA-F]+$/.test(rowId)) {
+    return (
+      readRow(ctx, value, rowId, depth) ??
+      unresolvedReference(value, `Row ${rowId} not in payload`)
+    );
+  }
+
+  return unresolvedReference(value, "Unknown reference");
+};
+
+const describeElementType = (value: FlightValue): string => {
+  switch (value.kind) {
+    case "string":
+      return value.value;
+    case "reference":
+      return value.description;
+    default:
+      return value.kind;
+  }
+};
+
+const decodeModel = (
+  ctx: ResponseContext,
+  json: unknown,
+  depth: number,
+): FlightValue => {
+  if (depth > MAX_DEPTH) {
+    return unresolvedReference("", "Maximum depth exceeded");
+  }
+
+  if (json === null) return { kind: "null" };
+  if (typeof json === "string") return decodeString(ctx, json, depth);
+  if (typeof json === "number") return { kind: "number", value: json };
+  if (typeof json === "boolean") return { kind: "boolean", value: json };
+
+  if (Array.isArray(json)) {
+    if (json[0] === "$" && json.length >= 4) {
+      const props = decodeModel(ctx, json[3], depth + 1);
+      return {
+        kind: "element",
+        type: describeElementType(decodeModel(ctx, json[1], depth + 1)),
+        key: typeof json[2] === "string" ? json[2] : "",
+        props: entriesOf(props),
+      };
+    }
+
+    return {
+      kind: "array",
+      items: json.map((item: unknown) => decodeModel(ctx, item, depth + 1)),
+    };
+  }
+
+  if (typeof json === "object") {
+    return {
+      kind: "object",
+      entries: Object.entries(json).map(([key, value]) => ({
+        key,
+        value: decodeModel(ctx, value, depth + 1),
+      })),
+    };
+  }
+
+  return { kind: "undefined" };
+};
+
+const unwrapPromise = (value: FlightValue | undefined) =>
+  value?.kind === "promise" ? value.value : value;
+
+const describeErrorRow = (ctx: ResponseContext, row: RscRow): string => {
+  const json = parseRowJson(ctx, row);
+  if (json !== null && typeof json === "object") {
+    if ("message" in json && typeof json.message === "string") {
+      return json.message;
+    }
+    if ("digest" in json && typeof json.digest === "string") {
+      return `Error digest ${json.digest}`;
+    }
+  }
+  return row.raw;
+};
+
+export const parseRscPayload = (body: string): RscPayload => {
+  const rows = splitRscRows(body);
+  const ctx: ResponseContext = {
+    rows: new Map(rows.map((row) => [row.id, row])),
+    errors: [],
+    resolving: new Set<string>(),
+  };
+
+  for (const row of rows) {
+    if (row.tag === "E") ctx.errors.push(describeErrorRow(ctx, row));
+  }
+
+  const root = readRow(ctx, "$0", "0", 0);
+
+  let returnValue: FlightValue | undefined = undefined;
+  let tree: FlightValue | undefined = root;
+  let buildId: string | undefined = undefined;
+
+  if (root?.kind === "object") {
+    const entries = new Map(root.entries.map((e) => [e.key, e.value]));
+    if (entries.has("a")) {
+      returnValue = unwrapPromise(entries.get("a"));
+      tree = entries.get("f");
+    }
+    const build = entries.get("b");
+    if (build?.kind === "string") buildId = build.value;
+  } else if (root?.kind === "array" && root.items.length === 2) {
+    const [result, flight] = root.items;
+    returnValue = unwrapPromise(result);
+    if (flight?.kind === "array") {
+      const build = flight.items[0];
+      if (build?.kind === "string") buildId = build.value;
+      tree = flight.items[1];
+    }
+  }
+
+  return {
+    rows,
+    returnValue,
+    tree,
+    buildId,
+    errors: ctx.errors,
+  };
+};
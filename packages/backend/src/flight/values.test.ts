@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+
+import replyMultipart from "./__fixtures__/reply-multipart.txt?raw";
+import responseResult from "./__fixtures__/response-result.txt?raw";
+import { decodeActionBody } from "./reply";
+import { parseRscPayload } from "./response";
+import { collectFlightEntries, toPlainValue } from "./values";
+
+const MULTIPART =
+  "multipart/form-data; boundary=----WebKitFormBoundaryq7Xv2LmR9cTn4KzA";
+
+describe("toPlainValue", () => {
+  it("flattens a decoded return value to JSON-compatible data", () => {
+    const { returnValue } = parseRscPayload(responseResult);
+    if (returnValue === undefined) throw new Error("Missing return value");
+    expect(toPlainValue(returnValue)).toEqual({
+      ok: true,
+      user: {
+        id: 7,
+        email: "owner@example.com",
+        roles: ["admin", "editor"],
+        prefs: [["theme", "dark"]],
+        bio: "Line one of a long biography",
+      },
+      total: "12345678901234567890",
+      updatedAt: "2024-05-01T10:00:00.000Z",
+    });
+  });
+
+  it("marks files and server references of decoded arguments", () => {
+    const { args } = decodeActionBody(MULTIPART, replyMultipart);
+    expect(args.map(toPlainValue).slice(0, 5)).toEqual([
+      {
+        title: "Quarterly report",
+        teamId: "12",
+        attachment: { $file: "report.pdf", contentType: "application/pdf" },
+      },
+      [
+        ["theme", "dark"],
+        ["pageSize", 25],
+      ],
+      ["admin", "editor"],
+      { userId: 7 },
+      {
+        $serverReference: "40b2e4d6f8a0c2e4b6d8f0a2c4e6b8d0f2a4c6e8b0",
+        bound: ["org_1", 42],
+      },
+    ]);
+  });
+});
+
+describe("collectFlightEntries", () => {
+  it("lists keyed entries of nested arguments, maps and bound arguments", () => {
+    const { args } = decodeActionBody(MULTIPART, replyMultipart);
+    expect(
+      collectFlightEntries(args)
+        .filter((entry) => entry.value.kind === "string")
+        .map(({ key }) => key),
+    ).toEqual(["title", "teamId", "theme", "price"]);
+  });
+});
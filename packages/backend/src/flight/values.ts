@@ -0,0 +1,141 @@
+import type { FlightEntry, FlightValue } from "../types";
+
+export const unresolvedReference = (
+  ref: string,
+  description: string,
+): FlightValue => ({
+  kind: "reference",
+  ref,
+  description,
+});
+
+export const decodePrimitiveString = (
+  value: string,
+): FlightValue | undefined => {
+  if (!value.startsWith("$")) return { kind: "string", value };
+
+  switch (value[1]) {
+    case "$":
+      return { kind: "string", value: value.slice(1) };
+    case "D":
+      return { kind: "date", value: value.slice(2) };
+    case "n":
+      return { kind: "bigint", value: value.slice(2) };
+    default:
+      break;
+  }
+
+  switch (value) {
+    case "$undefined":
+      return { kind: "undefined" };
+    case "$NaN":
+      return { kind: "special", value: "NaN" };
+    case "$Infinity":
+      return { kind: "special", value: "Infinity" };
+    case "$-Infinity":
+      return { kind: "special", value: "-Infinity" };
+    case "$-0":
+      return { kind: "special", value: "-0" };
+    default:
+      return undefined;
+  }
+};
+
+export const collectFlightEntries = (values: FlightValue[]): FlightEntry[] => {
+  const entries: FlightEntry[] = [];
+
+  const visit = (value: FlightValue) => {
+    switch (value.kind) {
+      case "object":
+      case "formData":
+        for (const entry of value.entries) {
+          entries.push(entry);
+          visit(entry.value);
+        }
+        break;
+      case "element":
+        for (const entry of value.props) {
+          entries.push(entry);
+          visit(entry.value);
+        }
+        break;
+      case "array":
+      case "set":
+        value.items.forEach(visit);
+        break;
+      case "map":
+        for (const entry of value.entries) {
+          if (entry.key.kind === "string") {
+            entries.push({ key: entry.key.value, value: entry.value });
+          }
+          visit(entry.value);
+        }
+        break;
+      case "promise":
+        visit(value.value);
+        break;
+      case "serverReference":
+        value.bound.forEach(visit);
+        break;
+      default:
+        break;
+    }
+  };
+
+  values.forEach(visit);
+  return entries;
+};
+
+const entriesToPlainObject = (entries: FlightEntry[]) => {
+  const result: Record<string, unknown> = {};
+  for (const entry of entries) {
+    Object.defineProperty(result, entry.key, {
+      value: toPlainValue(entry.value),
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    });
+  }
+  return result;
+};
+
+export const toPlainValue = (value: FlightValue): unknown => {
+  switch (value.kind) {
+    case "string":
+    case "number":
+    case "boolean":
+    case "bigint":
+    case "date":
+    case "special":
+      return value.value;
+    case "null":
+    case "undefined":
+      return null;
+    case "array":
+    case "set":
+      return value.items.map(toPlainValue);
+    case "object":
+    case "formData":
+      return entriesToPlainObject(value.entries);
+    case "map":
+      return value.entries.map((entry) => [
+        toPlainValue(entry.key),
+        toPlainValue(entry.value),
+      ]);
+    case "element":
+      return { $element: value.type, props: entriesToPlainObject(value.props) };
+    case "file":
+      return { $file: value.filename, contentType: value.contentType };
+    case "binary":
+      return { $binary: value.type, size: value.size };
+    case "promise":
+      return toPlainValue(value.value);
+    case "serverReference":
+      return {
+        $serverReference: value.actionId,
+        bound: value.bound.map(toPlainValue),
+      };
+    case "reference":
+      return value.ref;
+  }
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import { findBodyLeaves } from "./flight/leaves";
+import { findIdCandidates } from "./idor";
+
+const findPaths = (args: unknown[]) =>
+  findIdCandidates(findBodyLeaves("text/plain", JSON.stringify(args))).map(
+    (candidate) => candidate.path,
+  );
+
+describe("findIdCandidates", () => {
+  it("matches keys whose last word is an ID", () => {
+    expect(
+      findPaths([
+        {
+          id: 1,
+          userId: 2,
+          user_id: 3,
+          orgUUID: "123e4567-e89b-12d3-a456-426614174000",
+          ids: [4],
+        },
+      ]),
+    ).toEqual([
+      "[0].id",
+      "[0].userId",
+      "[0].user_id",
+      "[0].orgUUID",
+      "[0].ids[0]",
+    ]);
+  });
+
+  it("ignores keys that only contain the letters id", () => {
+    expect(
+      findPaths([{ width: 1, valid: 2, hidden: 3, provider: 4, idToken: 5 }]),
+    ).toEqual([]);
+  });
+
+  it("treats positional numeric and UUID arguments as candidates", () => {
+    expect(
+      findPaths([42, "550e8400-e29b-41d4-a716-446655440000", "hello", true]),
+    ).toEqual(["[0]", "[1]"]);
+  });
+});
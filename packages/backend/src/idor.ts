@@ -0,0 +1,182 @@
+import { DENIAL_PATTERN, isSimilarSize, type ResponseSnapshot } from "./authz";
+import { type BodyLeaf, formatLeafPath, getLeafKey } from "./flight/leaves";
+import { collectFlightEntries, toPlainValue } from "./flight/values";
+import type {
+  ActionUsage,
+  FlightValue,
+  IdorOutcome,
+  IdorSettings,
+  IdorVariantSource,
+} from "./types";
+
+export type IdorCandidate = {
+  leaf: BodyLeaf;
+  path: string;
+  value: string;
+};
+
+export type IdorVariant = {
+  value: string | number;
+  source: IdorVariantSource;
+};
+
+type Classification = {
+  outcome: IdorOutcome;
+  reason: string;
+};
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const UUID_SEARCH_PATTERN =
+  /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+const NOT_FOUND_PATTERN = /not found|does not exist|no such|invalid id/i;
+
+const EMPTY_RETURN_VALUES = new Set(["null", "{}", "[]", '""', "false"]);
+
+const ID_KEY_TOKENS = new Set(["id", "ids", "uuid", "guid"]);
+
+// Matches keys whose last word is an ID: `id`, `userId`, `user_id`, `orgUUID`.
+const isIdKey = (key: string) => {
+  const last = key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter((token) => token !== "")
+    .at(-1);
+  return last !== undefined && ID_KEY_TOKENS.has(last.toLowerCase());
+};
+
+// Positional arguments have no key (`[42]`) or a numeric multipart part name.
+const isPositionalKey = (key: string | undefined) =>
+  key === undefined || /^\d+$/.test(key);
+
+const isNumericId = (value: string | number | boolean) =>
+  typeof value === "number"
+    ? Number.isSafeInteger(value) && value >= 0
+    : typeof value === "string" && /^\d{1,15}$/.test(value);
+
+const isIdValue = (value: string | number | boolean) =>
+  isNumericId(value) || (typeof value === "string" && UUID_PATTERN.test(value));
+
+export const findIdCandidates = (leaves: BodyLeaf[]): IdorCandidate[] =>
+  leaves.flatMap((leaf) => {
+    const key = getLeafKey(leaf);
+    if (!isIdValue(leaf.value)) return [];
+    if (!isPositionalKey(key) && !(key !== undefined && isIdKey(key))) {
+      return [];
+    }
+    return [
+      { leaf, path: formatLeafPath(leaf.path), value: String(leaf.value) },
+    ];
+  });
+
+export const collectHistoryIds = (usages: ActionUsage[]): string[] => {
+  const ids = new Set<string>();
+  const add = (value: FlightValue) => {
+    if (
+      (value.kind === "number" || value.kind === "string") &&
+      isIdValue(value.value)
+    ) {
+      ids.add(String(value.value));
+    }
+  };
+
+  for (const usage of usages) {
+    usage.decodedBody.args.forEach(add);
+    for (const { key, value } of collectFlightEntries(usage.decodedBody.args)) {
+      if (isIdKey(key)) add(value);
+    }
+  }
+  return [...ids];
+};
+
+export const collectResponseUuids = (usages: ActionUsage[]): string[] => {
+  const uuids = new Set<string>();
+  for (const usage of usages) {
+    if (usage.returnValue === undefined) continue;
+    const text = JSON.stringify(toPlainValue(usage.returnValue)) ?? "";
+    for (const [uuid] of text.matchAll(UUID_SEARCH_PATTERN)) {
+      uuids.add(uuid.toLowerCase());
+    }
+  }
+  return [...uuids];
+};
+
+export const generateIdVariants = (
+  candidate: IdorCandidate,
+  settings: IdorSettings,
+  historyIds: string[],
+  responseUuids: string[],
+): IdorVariant[] => {
+  const variants = new Map<string, IdorVariant>();
+  const add = (value: string, source: IdorVariantSource) => {
+    if (value.toLowerCase() === candidate.value.toLowerCase()) return;
+    if (variants.has(value)) return;
+    variants.set(value, {
+      value: typeof candidate.leaf.value === "number" ? Number(value) : value,
+      source,
+    });
+  };
+
+  if (isNumericId(candidate.leaf.value)) {
+    const original = Number(candidate.value);
+    for (let distance = 1; distance <= settings.adjacentRange; distance += 1) {
+      add(String(original + distance), "adjacent");
+      if (original - distance >= 0) {
+        add(String(original - distance), "adjacent");
+      }
+    }
+    if (settings.useHistoryIds) {
+      for (const id of historyIds.filter(isNumericId)) add(id, "history");
+    }
+  } else {
+    if (settings.useHistoryIds) {
+      for (const id of historyIds.filter((id) => UUID_PATTERN.test(id))) {
+        add(id, "history");
+      }
+    }
+    if (settings.useResponseUuids) {
+      for (const uuid of responseUuids) add(uuid, "response");
+    }
+  }
+
+  return [...variants.values()].slice(0, settings.maxVariantsPerArgument);
+};
+
+export const classifyIdorProbe = (
+  original: ResponseSnapshot,
+  probe: ResponseSnapshot,
+): Classification => {
+  if (probe.statusCode >= 300) {
+    return { outcome: "rejected", reason: `Returned ${probe.statusCode}` };
+  }
+
+  if (probe.errors.length > 0) {
+    return {
+      outcome: "rejected",
+      reason: `Action threw: ${probe.errors[0] ?? ""}`,
+    };
+  }
+
+  if (probe.returnValue !== undefined) {
+    if (
+      DENIAL_PATTERN.test(probe.returnValue) ||
+      NOT_FOUND_PATTERN.test(probe.returnValue)
+    ) {
+      return { outcome: "rejected", reason: "Return value denies access" };
+    }
+    if (EMPTY_RETURN_VALUES.has(probe.returnValue)) {
+      return { outcome: "rejected", reason: "No data returned" };
+    }
+    if (probe.returnValue === original.returnValue) {
+      return { outcome: "same-data", reason: "Same return value" };
+    }
+    return { outcome: "different-data", reason: "Different return value" };
+  }
+
+  if (isSimilarSize(original.size, probe.size)) {
+    return { outcome: "same-data", reason: "Similar response length" };
+  }
+  return { outcome: "different-data", reason: "Different response length" };
+};
@@ -1,85 +1,293 @@
-import type { DefineAPI, DefineEvents, SDK } from "caido:plugin";
+import type { DefineAPI, SDK } from "caido:plugin";
 import {
   Body,
   type Cursor,
   type ID,
   type Request,
   type RequestsConnection,
+  RequestSpec,
   type Response,
 } from "caido:utils";
 
-export type Result<T> =
-  | { kind: "Ok"; value: T }
-  | { kind: "Error"; error: string };
+import { findAdvisories } from "./advisories";
+import {
+  classifyAuthzAttempt,
+  combineAuthzVerdicts,
+  createResponseSnapshot,
+  type ResponseSnapshot,
+} from "./authz";
+import { AUTOMATE_PAYLOAD_SETS, findPlaceholderLeaves } from "./automate";
+import {
+  applyBypassVariant,
+  classifyBypassAttempt,
+  classifyMiddlewareBaseline,
+  MIDDLEWARE_BYPASS_VARIANTS,
+} from "./bypass";
+import { extractChunkIntelligence } from "./chunks/intelligence";
+import {
+  extractServerReferences,
+  mayContainServerReferences,
+  type ServerReference,
+} from "./chunks/references";
+import {
+  findOriginalLocation,
+  getLineAndColumn,
+  getSourceMapUrl,
+  parseSourceMap,
+} from "./chunks/sourcemap";
+import { extractFrameworkVersions } from "./chunks/versions";
+import {
+  formatFindingDescription,
+  formatMatchEvidence,
+  getHighestSeverity,
+  groupMatchesByRule,
+} from "./findings";
+import {
+  buildFlightMultipartBody,
+  classifyFlightProbe,
+  FLIGHT_ABUSE_PAYLOADS,
+  FLIGHT_BASELINE_PARTS,
+} from "./flight/abuse";
+import { findBodyLeaves, replaceLeaf } from "./flight/leaves";
+import { decodeActionBody, getProgressiveFormActionId } from "./flight/reply";
+import { isRscResponse, parseRscPayload } from "./flight/response";
+import { collectFlightEntries, toPlainValue } from "./flight/values";
+import {
+  classifyIdorProbe,
+  collectHistoryIds,
+  collectResponseUuids,
+  findIdCandidates,
+  generateIdVariants,
+  type IdorCandidate,
+  type IdorVariant,
+} from "./idor";
+import { collectActionLeaks } from "./leaks";
+import {
+  applyOriginVariant,
+  classifyOriginAttempt,
+  describeOriginVariant,
+  isCrossOriginVariant,
+  ORIGIN_VARIANTS,
+} from "./origin";
+import {
+  getBuildIdFromFlight,
+  getBuildIdFromHtml,
+  getBuildIdFromPath,
+} from "./pages/builds";
+import {
+  extractHtmlReferences,
+  extractRscReferences,
+  type PageReference,
+} from "./pages/references";
+import {
+  applySessionProfile,
+  captureProfileHeaders,
+  stripCredentials,
+} from "./profiles";
+import { groupRaceCopies } from "./race";
+import { compareBuildActions } from "./rotation";
+import {
+  extractPageChunks,
+  findMatchingRoute,
+  getChunkName,
+  getChunkRoute,
+  isDynamicRoute,
+  parseAppBuildManifest,
+  parseBuildManifest,
+  parseSsgManifest,
+} from "./routes";
+import {
+  DEFAULT_SECURITY_RULES,
+  mergeDefaultSecurityRules,
+} from "./rules/defaults";
+import { evaluateSecurityRules, validateSecurityRule } from "./rules/engine";
+import {
+  formatSchemaSignature,
+  inferArgumentSchemas,
+  toArgumentsJsonSchema,
+} from "./schema";
+import {
+  clearScanData,
+  deleteSessionProfile,
+  initStorage,
+  loadProjectState,
+  replaceDiscoveredActions,
+  saveActionEntry,
+  saveActionName,
+  saveActionNote,
+  saveActionProbe,
+  saveActionRotation,
+  saveAuthzResult,
+  saveChunkIntelItem,
+  saveDiscoveredAction,
+  saveFlightCheckResult,
+  saveIdorResult,
+  saveMiddlewareResult,
+  saveObservedBuild,
+  saveOriginResult,
+  saveProfileReplay,
+  saveRaceResult,
+  saveRouteInventoryEntry,
+  saveSessionProfile,
+  saveSetting,
+  saveVersionFingerprint,
+  setStorageProject,
+  type StoredActionEntry,
+  type StoredActionUsage,
+} from "./storage";
+import { buildArgumentSkeleton, buildRouterStateTree } from "./synthesize";
+import type {
+  ActionEntry,
+  ActionIdRotation,
+  ActionLeak,
+  ActionProbePlan,
+  ActionProbeResult,
+  ActionSchema,
+  ActionUsage,
+  ApplicationBuild,
+  AuthzAttempt,
+  AuthzIdentity,
+  AuthzResult,
+  AuthzSettings,
+  AutomatePayloadSet,
+  AutomateTemplate,
+  BackendEvents,
+  BuildDiff,
+  ChunkIntelItem,
+  DecodedActionBody,
+  DiscoveredAction,
+  DiscoveredActionInternal,
+  DiscoveryResult,
+  ExportOptions,
+  FindingSettings,
+  FlightCheckProbe,
+  FlightCheckResult,
+  FlightValue,
+  IdorCampaignPlan,
+  IdorPlannedAction,
+  IdorProbe,
+  IdorResult,
+  IdorSettings,
+  MiddlewareBypassAttempt,
+  MiddlewareRouteResult,
+  ObservedBuild,
+  OriginAttempt,
+  OriginResult,
+  OriginVariant,
+  PlannedTest,
+  ProfileReplayResult,
+  RaceCopy,
+  RaceResult,
+  RaceSettings,
+  ReplayCollectionGroup,
+  ReplayCollectionItem,
+  ReplayCollectionPlan,
+  Result,
+  RouteInventoryEntry,
+  RouteSource,
+  RscPayload,
+  RuleSeverity,
+  SecurityRule,
+  SecurityRuleMatch,
+  SessionProfile,
+  TestPlan,
+  VersionFingerprint,
+} from "./types";
+
+export type {
+  ActionEntry,
+  ActionIdRotation,
+  ActionLeak,
+  ActionProbePlan,
+  ActionProbeResult,
+  ActionSchema,
+  ApplicationBuild,
+  AuthzResult,
+  AuthzSettings,
+  AutomatePayloadSet,
+  AutomateTemplate,
+  BackendEvents,
+  BuildDiff,
+  ChunkIntelItem,
+  DecodedActionBody,
+  DiscoveredAction,
+  DiscoveryResult,
+  ExportOptions,
+  FindingSettings,
+  FlightCheckResult,
+  FlightEntry,
+  FlightValue,
+  HeaderValue,
+  IdorCampaignPlan,
+  IdorResult,
+  IdorSettings,
+  InferredSchema,
+  MiddlewareRouteResult,
+  OriginResult,
+  ProfileReplayResult,
+  RaceResult,
+  RaceSettings,
+  ReplayCollectionPlan,
+  Result,
+  RouteInventoryEntry,
+  RscPayload,
+  RscRow,
+  RuleSeverity,
+  SecurityRule,
+  SessionProfile,
+  TestPlan,
+  VersionFingerprint,
+} from "./types";
+
+let actions: ActionEntry[] = [];
+let actionNotesByKey: Record<string, string> = {};
+let actionNamesByKey: Record<string, string> = {};
+let discoveredActionsByKey: Record<string, DiscoveredActionInternal> = {};
+let actionUsagesByKey: Record<string, ActionUsage[]> = {};
+let seenRequestIds = new Set<string>();
+let observedBuildsByKey: Record<string, ObservedBuild> = {};
+let rescanningDiscovery = false;
+let actionRotationsByKey: Record<string, ActionIdRotation> = {};
+let authzResultsById: Record<string, AuthzResult> = {};
+let idorResultsById: Record<string, IdorResult> = {};
+let originResultsById: Record<string, OriginResult> = {};
+let raceResultsById: Record<string, RaceResult> = {};
+let middlewareResultsByKey: Record<string, MiddlewareRouteResult> = {};
+let sessionProfilesById: Record<string, SessionProfile> = {};
+let profileReplaysByKey: Record<string, ProfileReplayResult> = {};
+let actionProbesByKey: Record<string, ActionProbeResult> = {};
+let flightChecksById: Record<string, FlightCheckResult> = {};
+let versionFingerprintsByHost: Record<string, VersionFingerprint> = {};
+let chunkIntelByKey: Record<string, ChunkIntelItem> = {};
+let routeInventoryByKey: Record<string, RouteInventoryEntry> = {};
+let settingsByKey: Record<string, string> = {};
+
+const AUTHZ_SETTINGS_KEY = "authz";
+const IDOR_SETTINGS_KEY = "idor";
+const RACE_SETTINGS_KEY = "race";
+const FINDINGS_SETTINGS_KEY = "findings";
+const SECURITY_RULES_SETTINGS_KEY = "security-rules";
+const REPLAY_SESSIONS_SETTINGS_KEY = "replay-sessions";
+
+const DEFAULT_IDOR_SETTINGS: IdorSettings = {
+  adjacentRange: 2,
+  maxVariantsPerArgument: 10,
+  requestsPerSecond: 2,
+  useHistoryIds: true,
+  useResponseUuids: true,
+};
 
-export type ExportOptions = {
-  includeExecuted: boolean;
-  includeUnused: boolean;
-  includeSecurity: boolean;
-  includeFullDetails: boolean;
+const DEFAULT_RACE_SETTINGS: RaceSettings = {
+  copies: 10,
 };
 
-export type ActionEntry = {
-  id: number;
-  requestId: ID;
-  method: string;
-  url: string;
-  actionId: string;
-  parameters: string;
-  requestSize: number;
-  responseSize: number;
-  statusCode: number;
-  timestamp: string;
-  securityNotes: string;
-  actionNotes: string;
-};
-
-export type DiscoveredAction = {
-  actionId: string;
-  functionName: string;
-  status: string;
-  chunkFile: string;
-  executedCount: number;
-  notes: string;
-};
-
-export type DiscoveryResult = {
-  status: string;
-  all: DiscoveredAction[];
-  unused: DiscoveredAction[];
-  unknown: DiscoveredAction[];
-};
-
-export type BackendEvents = DefineEvents<{
-  "nextjs-actions.status": (status: string) => void;
-  "nextjs-actions.action-added": (entry: ActionEntry) => void;
-  "nextjs-actions.data-changed": () => void;
-}>;
+const MAX_RACE_COPIES = 100;
 
-type DiscoveredActionInternal = {
-  actionId: string;
-  functionName: string;
-  chunkFile: string;
-  firstSeen: string;
-  chunkRequestId: ID;
-};
-
-type ActionUsage = {
-  timestamp: string;
-  url: string;
-  method: string;
-  statusCode: number;
-  parameters: string;
-  securityNotes: string;
-  requestId: ID;
+const DEFAULT_FINDING_SETTINGS: FindingSettings = {
+  autoReportSeverities: ["medium", "high", "critical"],
 };
 
-let actions: ActionEntry[] = [];
-const actionNotesById: Record<string, string> = {};
-const actionNamesById: Record<string, string> = {};
-let discoveredActionsById: Record<string, DiscoveredActionInternal> = {};
-let actionUsagesById: Record<string, ActionUsage[]> = {};
-let seenRequestIds = new Set<string>();
+const CONDITIONAL_HEADERS = ["If-None-Match", "If-Modified-Since"];
 
 const sendStatus = (sdk: SDK<API, BackendEvents>, status: string) => {
   sdk.api.send("nextjs-actions.status", status);
@@ -87,6 +295,97 @@ const sendStatus = (sdk: SDK<API, BackendEvents>, status: string) => {
 
 const nowIso = () => new Date().toISOString();
 
+const getActionKey = (
+  host: string,
+  buildId: string | undefined,
+  actionId: string,
+) => `${host}|${buildId ?? ""}|${actionId}`;
+
+const matchesBuild = (left: string | undefined, right: string | undefined) =>
+  left === undefined || right === undefined || left === right;
+
+const getUrlHost = (url: string): string =>
+  url.match(/^[a-z][a-z0-9+.-]*:\/\/([^/:?#]+)/i)?.[1] ?? "";
+
+const parseActionKey = (key: string) => {
+  const [host = "", buildId = "", actionId = ""] = key.split("|");
+  return { host, buildId: buildId !== "" ? buildId : undefined, actionId };
+};
+
+const isActionKeyMatch = (
+  key: string,
+  actionId: string,
+  host: string | undefined,
+  buildId: string | undefined,
+): boolean => {
+  const parsed = parseActionKey(key);
+  if (parsed.actionId !== actionId) return false;
+  if (host === undefined) return true;
+  return parsed.host === host && matchesBuild(parsed.buildId, buildId);
+};
+
+/**
+ * Looks up state kept per host/build key for an action. Without a host any
+ * key of the action matches; otherwise the exact key wins over keys whose
+ * build is unknown on either side.
+ */
+const findActionState = <T>(
+  byKey: Record<string, T>,
+  actionId: string,
+  host?: string,
+  buildId?: string,
+): T | undefined => {
+  if (host !== undefined) {
+    const exact = byKey[getActionKey(host, buildId, actionId)];
+    if (exact !== undefined) return exact;
+  }
+  const key = Object.keys(byKey).find((k) =>
+    isActionKeyMatch(k, actionId, host, buildId),
+  );
+  return key !== undefined ? byKey[key] : undefined;
+};
+
+const getActionName = (
+  actionId: string,
+  host?: string,
+  buildId?: string,
+): string | undefined =>
+  findActionState(actionNamesByKey, actionId, host, buildId);
+
+const getActionNotes = (
+  actionId: string,
+  host?: string,
+  buildId?: string,
+): string | undefined =>
+  findActionState(actionNotesByKey, actionId, host, buildId);
+
+/** Usages of an action across its matching host/build keys, oldest first. */
+const getActionUsages = (
+  actionId: string,
+  host?: string,
+  buildId?: string,
+): ActionUsage[] =>
+  Object.entries(actionUsagesByKey)
+    .filter(([key]) => isActionKeyMatch(key, actionId, host, buildId))
+    .flatMap(([, usages]) => usages)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+const getExecutedActionIds = (): string[] => [
+  ...new Set(
+    Object.keys(actionUsagesByKey).map((key) => parseActionKey(key).actionId),
+  ),
+];
+
+const getActionSignature = (
+  actionId: string,
+  host: string,
+  buildId: string | undefined,
+): string => {
+  const usages = getActionUsages(actionId, host, buildId);
+  if (usages.length === 0) return "";
+  return formatSchemaSignature(inferArgumentSchemas(usages));
+};
+
 const isNextChunkRequest = (request: Request): boolean => {
   const path = request.getPath();
   if (!path.includes("/_next/static/chunks/")) return false;
@@ -102,11 +401,193 @@ const getNextActionIdFromRequest = (request: Request): string | undefined => {
   return trimmed !== undefined && trimmed !== "" ? trimmed : undefined;
 };
 
+const getFormActionIdFromRequest = (request: Request): string | undefined => {
+  if (request.getMethod().toUpperCase() !== "POST") return undefined;
+  return getProgressiveFormActionId(
+    request.getHeader("Content-Type")?.[0],
+    getTextBody(request.getBody()),
+  );
+};
+
+const getActionIdFromRequest = (request: Request): string | undefined =>
+  getNextActionIdFromRequest(request) ?? getFormActionIdFromRequest(request);
+
+const isRscNavigationRequest = (request: Request): boolean => {
+  const value = request.getHeader("RSC")?.[0]?.trim();
+  return value === "1" && getNextActionIdFromRequest(request) === undefined;
+};
+
+const getPageUrl = (request: Request): string =>
+  request
+    .getUrl()
+    .replace(/([?&])_rsc=[^&]*&?/, "$1")
+    .replace(/[?&]$/, "");
+
 const getTextBody = (body: Body | undefined): string => {
   if (body === undefined) return "";
   return body.toText();
 };
 
+const decodeRequestBody = (request: Request): DecodedActionBody => {
+  return decodeActionBody(
+    request.getHeader("Content-Type")?.[0],
+    getTextBody(request.getBody()),
+  );
+};
+
+const parseActionResponse = (response: Response): RscPayload | undefined => {
+  const body = getTextBody(response.getBody());
+  if (!isRscResponse(response.getHeader("Content-Type")?.[0], body)) {
+    return undefined;
+  }
+  return parseRscPayload(body);
+};
+
+const getObservedBuildId = (
+  request: Request,
+  response: Response,
+): string | undefined => {
+  const fromPath = getBuildIdFromPath(request.getPath());
+  if (fromPath !== undefined) return fromPath;
+
+  const contentType = response.getHeader("Content-Type")?.[0]?.toLowerCase();
+  if (contentType?.includes("text/html") === true) {
+    return getBuildIdFromHtml(getTextBody(response.getBody()));
+  }
+
+  if (!isRscNavigationRequest(request)) return undefined;
+
+  const body = getTextBody(response.getBody());
+  return isRscResponse(contentType, body)
+    ? getBuildIdFromFlight(body)
+    : undefined;
+};
+
+const getBuildChunks = (request: Request, response: Response): string[] => {
+  const path = request.getPath();
+  const body = getTextBody(response.getBody());
+  const chunks = path.includes("/_buildManifest.js")
+    ? parseBuildManifest(body).flatMap((route) => route.chunks)
+    : extractPageChunks(body);
+  return chunks.map(getChunkName);
+};
+
+const isPageResponse = (request: Request, response: Response): boolean =>
+  response
+    .getHeader("Content-Type")?.[0]
+    ?.toLowerCase()
+    .includes("text/html") === true || isRscNavigationRequest(request);
+
+type BuildObservation = {
+  buildId: string;
+  firstObserved: boolean;
+};
+
+const observeBuild = async (
+  request: Request,
+  response: Response,
+): Promise<BuildObservation | undefined> => {
+  const buildId = getObservedBuildId(request, response);
+  if (buildId === undefined) return undefined;
+
+  const host = request.getHost();
+  const key = `${host}|${buildId}`;
+  const seenAt = response.getCreatedAt().toISOString();
+  const existing = observedBuildsByKey[key];
+
+  const chunks = new Set(existing?.chunks);
+  for (const chunk of getBuildChunks(request, response)) chunks.add(chunk);
+
+  const pages = { ...existing?.pages };
+  if (isPageResponse(request, response)) {
+    const pageUrl = getPageUrl(request);
+    const pageSeen = pages[pageUrl];
+    if (pageSeen === undefined || seenAt < pageSeen) pages[pageUrl] = seenAt;
+  }
+
+  const build: ObservedBuild = {
+    host,
+    buildId,
+    firstSeen:
+      existing !== undefined && existing.firstSeen < seenAt
+        ? existing.firstSeen
+        : seenAt,
+    lastSeen:
+      existing !== undefined && existing.lastSeen > seenAt
+        ? existing.lastSeen
+        : seenAt,
+    chunks: [...chunks],
+    pages,
+  };
+  if (
+    existing === undefined ||
+    JSON.stringify(existing) !== JSON.stringify(build)
+  ) {
+    observedBuildsByKey[key] = build;
+    await saveObservedBuild(key, build);
+  }
+  return { buildId, firstObserved: existing === undefined };
+};
+
+const getHostBuilds = (host: string): ObservedBuild[] =>
+  Object.values(observedBuildsByKey)
+    .filter((build) => build.host === host)
+    .sort((a, b) => a.firstSeen.localeCompare(b.firstSeen));
+
+const getBuildOrderByHost = (): Record<string, string[]> => {
+  const order: Record<string, string[]> = {};
+  for (const build of Object.values(observedBuildsByKey)) {
+    order[build.host] ??= getHostBuilds(build.host).map((b) => b.buildId);
+  }
+  return order;
+};
+
+// The build a host was serving at `timestamp`: the last one first seen before it.
+const getBuildAt = (host: string, timestamp: string): string | undefined =>
+  getHostBuilds(host)
+    .filter((build) => build.firstSeen <= timestamp)
+    .at(-1)?.buildId;
+
+const getPageBuildId = (
+  host: string,
+  pageUrl: string,
+  timestamp: string,
+): string | undefined => {
+  let match: { buildId: string; seenAt: string } | undefined = undefined;
+  for (const build of getHostBuilds(host)) {
+    const seenAt = build.pages[pageUrl];
+    if (seenAt === undefined || seenAt > timestamp) continue;
+    if (match === undefined || seenAt >= match.seenAt) {
+      match = { buildId: build.buildId, seenAt };
+    }
+  }
+  return match?.buildId;
+};
+
+/**
+ * Builds a chunk belongs to: the manifests and pages that list it, else the
+ * build of the page that loaded it, else the build served when it was fetched.
+ */
+const getChunkBuildIds = (request: Request): (string | undefined)[] => {
+  const host = request.getHost();
+  const fromPath = getBuildIdFromPath(request.getPath());
+  if (fromPath !== undefined) return [fromPath];
+
+  const name = getChunkName(request.getPath());
+  const listed = getHostBuilds(host)
+    .filter((build) => build.chunks.includes(name))
+    .map((build) => build.buildId);
+  if (listed.length > 0) return listed;
+
+  const fetchedAt = request.getCreatedAt().toISOString();
+  const referer = request.getHeader("Referer")?.[0]?.split("#")[0];
+  const fromPage =
+    referer !== undefined
+      ? getPageBuildId(host, referer, fetchedAt)
+      : undefined;
+  return [fromPage ?? getBuildAt(host, fetchedAt)];
+};
+
 const safeJsonParse = (text: string): unknown => {
   if (text.length === 0) return undefined;
   try {
@@ -116,137 +597,404 @@ const safeJsonParse = (text: string): unknown => {
   }
 };
 
+const getSecurityRules = (): SecurityRule[] => {
+  const stored = safeJsonParse(
+    settingsByKey[SECURITY_RULES_SETTINGS_KEY] ?? "",
+  );
+  if (Array.isArray(stored)) {
+    return mergeDefaultSecurityRules(stored as SecurityRule[], undefined);
+  }
+  if (
+    stored !== null &&
+    typeof stored === "object" &&
+    "rules" in stored &&
+    Array.isArray(stored.rules)
+  ) {
+    const defaults =
+      "defaults" in stored && Array.isArray(stored.defaults)
+        ? (stored.defaults as SecurityRule[])
+        : undefined;
+    return mergeDefaultSecurityRules(stored.rules as SecurityRule[], defaults);
+  }
+  return DEFAULT_SECURITY_RULES;
+};
+
+const getDefaultSecurityRules = (): SecurityRule[] => {
+  return DEFAULT_SECURITY_RULES;
+};
+
+const setSecurityRules = async (
+  sdk: SDK<API, BackendEvents>,
+  rules: SecurityRule[],
+): Promise<Result<void>> => {
+  try {
+    for (const rule of rules) {
+      const validation = validateSecurityRule(rule);
+      if (validation.kind === "Error") return validation;
+    }
+
+    const value = JSON.stringify({ rules, defaults: DEFAULT_SECURITY_RULES });
+    settingsByKey[SECURITY_RULES_SETTINGS_KEY] = value;
+    await saveSetting(SECURITY_RULES_SETTINGS_KEY, value);
+    sdk.api.send("nextjs-actions.data-changed");
+
+    return { kind: "Ok", value: undefined };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { kind: "Error", error: message };
+  }
+};
+
+const getFindingSettings = (): FindingSettings => {
+  const stored = safeJsonParse(settingsByKey[FINDINGS_SETTINGS_KEY] ?? "");
+  if (stored === null || typeof stored !== "object") {
+    return DEFAULT_FINDING_SETTINGS;
+  }
+  return {
+    ...DEFAULT_FINDING_SETTINGS,
+    ...(stored as Partial<FindingSettings>),
+  };
+};
+
+const setFindingSettings = async (
+  sdk: SDK<API, BackendEvents>,
+  settings: FindingSettings,
+): Promise<void> => {
+  const value = JSON.stringify(settings);
+  settingsByKey[FINDINGS_SETTINGS_KEY] = value;
+  await saveSetting(FINDINGS_SETTINGS_KEY, value);
+  sdk.api.send("nextjs-actions.data-changed");
+};
+
+const formatSecurityNotes = (matches: SecurityRuleMatch[]): string =>
+  [...new Set(matches.map((m) => m.message))].join("; ");
+
 const analyzeSecurity = (
   request: Request,
   response: Response,
   actionId: string,
   parameters: string,
+  decodedBody: DecodedActionBody,
+  rscPayload: RscPayload | undefined,
+): SecurityRuleMatch[] => {
+  const responseBody = getTextBody(response.getBody());
+  const returnValue =
+    rscPayload?.returnValue !== undefined
+      ? toPlainValue(rscPayload.returnValue)
+      : undefined;
+  const returnText =
+    rscPayload !== undefined
+      ? [JSON.stringify(returnValue ?? null), ...rscPayload.errors].join("\n")
+      : responseBody;
+
+  const argumentEntries: string[] = [];
+  for (const { key, value } of collectFlightEntries(decodedBody.args)) {
+    if (value.kind === "number" || value.kind === "string") {
+      argumentEntries.push(`${key}=${value.value}`);
+    }
+  }
+
+  const origin = request.getHeader("Origin")?.[0]?.trim() ?? "";
+  const originHost = origin.replace(/^https?:\/\//, "").split("/")[0] ?? "";
+
+  return evaluateSecurityRules(getSecurityRules(), {
+    headers: request.getHeaders(),
+    requestBody: parameters,
+    argumentEntries,
+    arguments: decodedBody.args.map(toPlainValue),
+    responseBody,
+    returnText,
+    returnValue,
+    facts: {
+      actionId,
+      method: request.getMethod().toUpperCase(),
+      host: request.getHeader("Host")?.[0]?.trim(),
+      originHost: originHost !== "" ? originHost : undefined,
+      statusCode: response.getCode(),
+      usageCount: getActionUsages(actionId, request.getHost()).length,
+      boundArgCount: decodedBody.boundArgs.length,
+      rscErrorCount: rscPayload?.errors.length ?? 0,
+      noJsForm: getNextActionIdFromRequest(request) === undefined,
+    },
+  });
+};
+
+const getActionLeaks = (): ActionLeak[] => {
+  return Object.entries(actionUsagesByKey).flatMap(([key, usages]) => {
+    const { actionId, host, buildId } = parseActionKey(key);
+    return collectActionLeaks(
+      actionId,
+      getActionName(actionId, host, buildId) ?? "Unknown",
+      usages,
+    );
+  });
+};
+
+const describeFinding = (
+  request: Request,
+  actionId: string | undefined,
+  severity: RuleSeverity,
+  evidence: string[],
 ): string => {
-  const notes: string[] = [];
+  const decodedBody =
+    actionId !== undefined ? decodeRequestBody(request) : undefined;
+  return formatFindingDescription({
+    severity,
+    functionName:
+      actionId !== undefined
+        ? (getActionName(actionId, request.getHost()) ?? "Unknown")
+        : "n/a",
+    actionId,
+    method: request.getMethod(),
+    url: request.getUrl(),
+    arguments: decodedBody?.args.map(toPlainValue) ?? [],
+    boundArguments: decodedBody?.boundArgs.map(toPlainValue) ?? [],
+    evidence,
+  });
+};
 
-  const headerKeys = Object.keys(request.getHeaders()).map((h) =>
-    h.toLowerCase(),
-  );
-  const hasAuth =
-    headerKeys.includes("authorization") || headerKeys.includes("cookie");
-  if (!hasAuth) {
-    notes.push("No auth headers");
-  }
-
-  const dangerousParams = [
-    "id",
-    "userId",
-    "user_id",
-    "role",
-    "admin",
-    "delete",
-    "update",
-    "team",
-    "teamId",
-  ];
+type ScoredFinding = {
+  severity: RuleSeverity;
+  title: string;
+  description: string;
+  dedupeKey: string;
+  request: Request;
+};
 
-  const lowerParams = parameters.toLowerCase();
-  for (const danger of dangerousParams) {
-    if (lowerParams.includes(danger.toLowerCase())) {
-      notes.push(`Contains: ${danger}`);
-    }
-  }
+const reportFinding = async (
+  sdk: SDK<API, BackendEvents>,
+  finding: ScoredFinding,
+): Promise<boolean> => {
+  const { autoReportSeverities } = getFindingSettings();
+  if (!autoReportSeverities.includes(finding.severity)) return false;
+
+  await sdk.findings.create({
+    title: finding.title,
+    description: finding.description,
+    reporter: "Next.js Actions Analyzer",
+    dedupeKey: finding.dedupeKey,
+    request: finding.request,
+  });
+  return true;
+};
 
-  const bodyJson = safeJsonParse(parameters);
-  if (Array.isArray(bodyJson) && bodyJson.length > 1) {
-    for (const element of bodyJson.slice(1)) {
-      if (
-        element === null ||
-        typeof element !== "object" ||
-        Array.isArray(element)
-      ) {
-        continue;
-      }
-      for (const [key, value] of Object.entries(element)) {
-        if (!key.toLowerCase().includes("id")) continue;
-        if (typeof value === "number" && Number.isInteger(value)) {
-          notes.push(`Direct ID: ${key}=${value}`);
-        } else if (typeof value === "string" && /^\d+$/.test(value)) {
-          notes.push(`Direct ID: ${key}=${value}`);
-        }
-      }
-    }
+const reportRuleFindings = async (
+  sdk: SDK<API, BackendEvents>,
+  request: Request,
+  actionId: string,
+  matches: SecurityRuleMatch[],
+) => {
+  const functionName =
+    getActionName(actionId, request.getHost()) ?? actionId.slice(0, 8);
+
+  for (const group of groupMatchesByRule(matches)) {
+    await reportFinding(sdk, {
+      severity: group.severity,
+      title: `Next.js Server Action ${group.ruleName} (${group.severity}): ${functionName}`,
+      description: describeFinding(
+        request,
+        actionId,
+        group.severity,
+        group.evidence,
+      ),
+      dedupeKey: `rule-${request.getHost()}-${actionId}-${group.ruleId}`,
+      request,
+    });
   }
+};
 
-  const responseBody = getTextBody(response.getBody());
-  const responseLower = responseBody.toLowerCase();
+const promoteToFinding = async (
+  sdk: SDK<API, BackendEvents>,
+  requestId: ID,
+  evidence: string[],
+): Promise<Result<void>> => {
+  try {
+    const pair = await sdk.requests.get(requestId);
+    if (!pair) {
+      return { kind: "Error", error: "Request not found" };
+    }
 
-  if (
-    responseLower.includes("development") ||
-    responseBody.includes("__NEXT_DATA__")
-  ) {
-    notes.push("Dev mode indicators");
-  }
-
-  const errorPatterns: RegExp[] = [
-    /"error"\s*:\s*"[^"]+/i,
-    /"error"\s*:\s*\{/i,
-    /"error"\s*:\s*\[/i,
-    /exception/i,
-    /stack\s*trace/i,
-    /stacktrace/i,
-    /at\s+\w+\.\w+\(/i,
-    /File\s+"[^"]+",\s+line\s+\d+/i,
-    /(TypeError:|ReferenceError:|SyntaxError:)/i,
-    /undefined method/i,
-    /Call to undefined function/i,
-  ];
+    const { request, response } = pair;
+    const actionId = getActionIdFromRequest(request);
+    const matches =
+      actionId !== undefined && response !== undefined
+        ? analyzeSecurity(
+            request,
+            response,
+            actionId,
+            getTextBody(request.getBody()),
+            decodeRequestBody(request),
+            parseActionResponse(response),
+          )
+        : [];
+
+    const title =
+      actionId !== undefined
+        ? `Next.js Server Action: ${getActionName(actionId, request.getHost()) ?? actionId.slice(0, 8)}`
+        : `Next.js request: ${request.getMethod()} ${request.getPath()}`;
+    await sdk.findings.create({
+      title,
+      description: describeFinding(
+        request,
+        actionId,
+        getHighestSeverity(matches.map((m) => m.severity)),
+        [...evidence, ...formatMatchEvidence(matches)],
+      ),
+      reporter: "Next.js Actions Analyzer",
+      dedupeKey: `promoted-${request.getHost()}-${requestId}`,
+      request,
+    });
 
-  if (errorPatterns.some((p) => p.test(responseBody))) {
-    notes.push("Error in response");
+    sendStatus(sdk, "Finding created");
+    return { kind: "Ok", value: undefined };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendStatus(sdk, "Creating finding failed");
+    return { kind: "Error", error: message };
   }
+};
 
-  if (
-    ["mssql", "postgres", "mysql", "database error"].some((s) =>
-      responseLower.includes(s),
-    )
-  ) {
-    notes.push("DB mention");
-  }
+type DecodedExchange = {
+  decodedBody: DecodedActionBody;
+  returnValue: FlightValue | undefined;
+};
 
-  const origin = request.getHeader("Origin")?.[0]?.trim();
-  const host = request.getHeader("Host")?.[0]?.trim();
-  if (
-    origin !== undefined &&
-    origin !== "" &&
-    host !== undefined &&
-    host !== ""
-  ) {
-    const originHost = origin.replace(/^https?:\/\//, "").split("/")[0] ?? "";
-    if (originHost !== "" && originHost !== host) {
-      notes.push("Origin/Host mismatch");
+const redecodeExchange = async (
+  sdk: SDK<API, BackendEvents>,
+  requestId: ID,
+  parameters: string,
+): Promise<DecodedExchange> => {
+  try {
+    const pair = await sdk.requests.get(requestId);
+    if (pair) {
+      return {
+        decodedBody: decodeRequestBody(pair.request),
+        returnValue:
+          pair.response !== undefined
+            ? parseActionResponse(pair.response)?.returnValue
+            : undefined,
+      };
     }
+  } catch {
+    // Fall back to the stored body when the request is gone.
   }
+  return {
+    decodedBody: decodeActionBody(undefined, parameters),
+    returnValue: undefined,
+  };
+};
+
+const hydrateStoredActions = async (
+  sdk: SDK<API, BackendEvents>,
+  storedActions: StoredActionEntry[],
+  storedUsagesByKey: Record<string, StoredActionUsage[]>,
+  notesByKey: Record<string, string>,
+) => {
+  const redecoded = new Map<ID, DecodedExchange>();
+  const decode = async <T extends StoredActionEntry | StoredActionUsage>(
+    item: T,
+  ) => {
+    const { decodedBody } = item;
+    if (decodedBody !== undefined) {
+      return { ...item, decodedBody, host: getUrlHost(item.url) };
+    }
+
+    const exchange =
+      redecoded.get(item.requestId) ??
+      (await redecodeExchange(sdk, item.requestId, item.parameters));
+    redecoded.set(item.requestId, exchange);
+    return { ...item, ...exchange, host: getUrlHost(item.url) };
+  };
 
-  const reusedCount = actionUsagesById[actionId]?.length ?? 0;
-  if (reusedCount > 10) {
-    notes.push(`Action reused ${reusedCount}x`);
+  const hydratedActions: ActionEntry[] = [];
+  for (const a of storedActions) {
+    const entry = await decode(a);
+    hydratedActions.push({
+      ...entry,
+      actionNotes:
+        notesByKey[getActionKey(entry.host, entry.buildId, entry.actionId)] ??
+        a.actionNotes,
+    });
   }
 
-  if (parameters.includes(".bind(")) {
-    notes.push("Potential .bind() usage");
+  const hydratedUsagesByKey: Record<string, ActionUsage[]> = {};
+  for (const [key, usages] of Object.entries(storedUsagesByKey)) {
+    const hydrated: ActionUsage[] = [];
+    for (const u of usages) {
+      hydrated.push(await decode(u));
+    }
+    hydratedUsagesByKey[key] = hydrated;
   }
 
-  if (request.getMethod().toUpperCase() !== "POST") {
-    notes.push("Non-POST action");
+  for (const entry of hydratedActions) {
+    if (!redecoded.has(entry.requestId)) continue;
+
+    const usages =
+      hydratedUsagesByKey[
+        getActionKey(entry.host, entry.buildId, entry.actionId)
+      ] ?? [];
+    const position = usages.findIndex((u) => u.requestId === entry.requestId);
+    const usage = usages[position];
+    if (usage !== undefined) {
+      await saveActionEntry(entry, usage, position + 1);
+    }
   }
 
-  return notes.join("; ");
+  return { hydratedActions, hydratedUsagesByKey };
+};
+
+const loadCurrentProject = async (
+  sdk: SDK<API, BackendEvents>,
+  projectId: string | undefined,
+) => {
+  setStorageProject(projectId);
+
+  const state = await loadProjectState();
+  const { hydratedActions, hydratedUsagesByKey } = await hydrateStoredActions(
+    sdk,
+    state.actions,
+    state.actionUsagesByKey,
+    state.actionNotesByKey,
+  );
+  actions = hydratedActions;
+  actionNotesByKey = state.actionNotesByKey;
+  actionNamesByKey = state.actionNamesByKey;
+  discoveredActionsByKey = state.discoveredActionsByKey;
+  actionUsagesByKey = hydratedUsagesByKey;
+  seenRequestIds = state.seenRequestIds;
+  actionRotationsByKey = state.actionRotationsByKey;
+  authzResultsById = state.authzResultsById;
+  idorResultsById = state.idorResultsById;
+  originResultsById = state.originResultsById;
+  raceResultsById = state.raceResultsById;
+  middlewareResultsByKey = state.middlewareResultsByKey;
+  sessionProfilesById = state.sessionProfilesById;
+  profileReplaysByKey = state.profileReplaysByKey;
+  actionProbesByKey = state.actionProbesByKey;
+  flightChecksById = state.flightChecksById;
+  versionFingerprintsByHost = state.versionFingerprintsByHost;
+  chunkIntelByKey = state.chunkIntelByKey;
+  routeInventoryByKey = state.routeInventoryByKey;
+  observedBuildsByKey = state.observedBuildsByKey;
+  settingsByKey = state.settingsByKey;
+
+  sdk.api.send("nextjs-actions.data-changed");
 };
 
-const ensureActionNotes = (actionId: string) => {
-  const existing = actionNotesById[actionId];
-  const functionName = actionNamesById[actionId];
+const ensureActionNotes = async (
+  host: string,
+  buildId: string | undefined,
+  actionId: string,
+): Promise<string> => {
+  const key = getActionKey(host, buildId, actionId);
+  const existing = getActionNotes(actionId, host, buildId);
+  const functionName = getActionName(actionId, host, buildId);
   if (functionName === undefined) return existing ?? "";
 
   const prefix = `Function: ${functionName}`;
   if (existing === undefined) {
-    actionNotesById[actionId] = prefix;
+    actionNotesByKey[key] = prefix;
+    await saveActionNote(key, prefix);
     return prefix;
   }
 
@@ -255,42 +1003,76 @@ const ensureActionNotes = (actionId: string) => {
   }
 
   const updated = `${prefix}\n${existing}`;
-  actionNotesById[actionId] = updated;
+  actionNotesByKey[key] = updated;
+  await saveActionNote(key, updated);
   return updated;
 };
 
-const addActionEntry = (
+const setActionName = async (
+  host: string,
+  buildId: string | undefined,
+  actionId: string,
+  functionName: string,
+) => {
+  const key = getActionKey(host, buildId, actionId);
+  actionNamesByKey[key] = functionName;
+  await saveActionName(key, functionName);
+  await ensureActionNotes(host, buildId, actionId);
+};
+
+/**
+ * Records an action call and returns the security rule matches its notes were
+ * built from, or none when the request was already recorded.
+ */
+const addActionEntry = async (
   sdk: SDK<API, BackendEvents>,
   request: Request,
   response: Response,
   actionId: string,
-) => {
+): Promise<SecurityRuleMatch[]> => {
   const requestId = request.getId();
-  if (seenRequestIds.has(requestId)) return;
+  if (seenRequestIds.has(requestId)) return [];
   seenRequestIds.add(requestId);
 
   const parameters = getTextBody(request.getBody());
+  const decodedBody = decodeRequestBody(request);
+  const rscPayload = parseActionResponse(response);
 
   const requestSize = request.getRaw().toBytes().length;
   const responseSize = response.getRaw().toBytes().length;
   const statusCode = response.getCode();
 
+  const host = request.getHost();
   const timestamp = response.getCreatedAt().toISOString();
-  const securityNotes = analyzeSecurity(
+  const buildId =
+    rscPayload?.buildId ??
+    getPageBuildId(host, getPageUrl(request), timestamp) ??
+    getBuildAt(host, timestamp);
+
+  const noJsForm = getNextActionIdFromRequest(request) === undefined;
+  const matches = analyzeSecurity(
     request,
     response,
     actionId,
     parameters,
+    decodedBody,
+    rscPayload,
   );
-  const actionNotes = ensureActionNotes(actionId);
+  const securityNotes = formatSecurityNotes(matches);
+  const actionNotes = await ensureActionNotes(host, buildId, actionId);
 
   const entry: ActionEntry = {
     id: actions.length + 1,
     requestId,
     method: request.getMethod(),
     url: request.getUrl(),
+    host,
+    buildId,
     actionId,
+    noJsForm,
     parameters,
+    decodedBody,
+    returnValue: rscPayload?.returnValue,
     requestSize,
     responseSize,
     statusCode,
@@ -301,37 +1083,93 @@ const addActionEntry = (
 
   actions = [...actions, entry];
 
-  if (!actionUsagesById[actionId]) {
-    actionUsagesById[actionId] = [];
-  }
+  const usage: ActionUsage = {
+    timestamp,
+    url: entry.url,
+    host,
+    buildId,
+    method: entry.method,
+    statusCode,
+    noJsForm,
+    parameters,
+    decodedBody,
+    returnValue: rscPayload?.returnValue,
+    securityNotes,
+    requestId,
+  };
+  const key = getActionKey(host, buildId, actionId);
+  const usages = [...(actionUsagesByKey[key] ?? []), usage];
+  actionUsagesByKey[key] = usages;
 
-  actionUsagesById[actionId] = [
-    ...actionUsagesById[actionId],
-    {
-      timestamp,
-      url: entry.url,
-      method: entry.method,
-      statusCode,
-      parameters,
-      securityNotes,
-      requestId,
-    },
-  ];
+  await saveActionEntry(entry, usage, usages.length);
 
   sdk.api.send("nextjs-actions.action-added", entry);
+  return matches;
 };
 
-const processRequestResponse = (
+/**
+ * Records server references of an intercepted chunk or page as it arrives and
+ * compares the host's builds for rotated action IDs once a new build, or new
+ * actions of a build, show up.
+ */
+const discoverInterceptedReferences = async (
   sdk: SDK<API, BackendEvents>,
   request: Request,
-  response: Response | undefined,
+  response: Response,
+  observation: BuildObservation | undefined,
 ) => {
-  if (response === undefined) return;
+  let added = false;
+
+  if (isNextChunkRequest(request)) {
+    const body = getTextBody(response.getBody());
+    const result = mayContainServerReferences(body)
+      ? extractServerReferences(body)
+      : undefined;
+    for (const reference of result?.kind === "Ok" ? result.value : []) {
+      if (
+        await recordChunkReference(request, reference, discoveredActionsByKey)
+      ) {
+        added = true;
+      }
+    }
+  } else {
+    const references = getPageReferences(request, response);
+    const buildId =
+      observation?.buildId ??
+      getBuildAt(request.getHost(), response.getCreatedAt().toISOString());
+    for (const reference of references) {
+      if (await recordPageReference(request, reference, buildId)) added = true;
+    }
+  }
+
+  if (!added && observation?.firstObserved !== true) return;
 
-  const actionId = getNextActionIdFromRequest(request);
-  if (actionId === undefined) return;
+  const host = request.getHost();
+  const rotated = await recordActionRotations([host]);
+  if (rotated > 0) {
+    sendStatus(sdk, `Detected ${rotated} rotated action IDs on ${host}`);
+  }
+  sdk.api.send("nextjs-actions.data-changed");
+};
 
-  addActionEntry(sdk, request, response, actionId);
+const processRequestResponse = async (
+  sdk: SDK<API, BackendEvents>,
+  request: Request,
+  response: Response | undefined,
+): Promise<{
+  observation: BuildObservation | undefined;
+  matches: SecurityRuleMatch[];
+}> => {
+  if (response === undefined) return { observation: undefined, matches: [] };
+
+  const observation = await observeBuild(request, response);
+
+  const actionId = getActionIdFromRequest(request);
+  const matches =
+    actionId !== undefined
+      ? await addActionEntry(sdk, request, response, actionId)
+      : [];
+  return { observation, matches };
 };
 
 const paginateAllRequests = async (
@@ -362,12 +1200,12 @@ const scanProxyHistory = async (
 
     sendStatus(sdk, "Scanning requests...");
 
-    await paginateAllRequests(sdk, (page) => {
+    await paginateAllRequests(sdk, async (page) => {
       for (const item of page.items) {
         scanned += 1;
-        processRequestResponse(sdk, item.request, item.response);
+        await processRequestResponse(sdk, item.request, item.response);
 
-        const actionId = getNextActionIdFromRequest(item.request);
+        const actionId = getActionIdFromRequest(item.request);
         if (actionId !== undefined) {
           found += 1;
         }
@@ -387,61 +1225,121 @@ const scanProxyHistory = async (
   }
 };
 
-const extractActionNames = async (
-  sdk: SDK<API, BackendEvents>,
-): Promise<Result<{ scannedChunks: number; namesExtracted: number }>> => {
-  try {
-    let scannedChunks = 0;
-    let namesExtracted = 0;
+type ReferenceHandlers = {
+  onChunkReference: (
+    request: Request,
+    reference: ServerReference,
+  ) => void | Promise<void>;
+  onPageReference?: (
+    request: Request,
+    reference: PageReference,
+    buildId: string | undefined,
+  ) => void | Promise<void>;
+};
 
-    const patterns: RegExp[] = [
-      /createServerReference\)\s*\(\s*["']([a-fA-F0-9]{40,})["']\s*,\s*\w+\.callServer\s*,\s*void\s+0\s*,\s*\w+\.findSourceMapURL\s*,\s*["']([^"']+)["']\s*\)/g,
-      /\(\d+\s*,\s*\w+\.createServerReference\)\s*\(\s*["']([a-fA-F0-9]{40,})["']\s*,\s*\w+\.callServer\s*,\s*void\s+0\s*,\s*\w+\.findSourceMapURL\s*,\s*["']([^"']+)["']\s*\)/g,
-      /createServerReference\)\(\s*["']([a-fA-F0-9]{40,})["']\s*,\s*\w+\.callServer\s*,\s*void\s+0\s*,\s*\w+\.findSourceMapURL\s*,\s*["']([^"']+)["']\s*\)/g,
-      /\(\d+\s*,\s*\w+\.createServerReference\)\s*\(\s*["']([a-fA-F0-9]{40,})["'](?:[^"']*?,){4}\s*["']([^"']+)["']\s*\)/g,
-    ];
+const getPageReferences = (
+  request: Request,
+  response: Response,
+): PageReference[] => {
+  const contentType = response.getHeader("Content-Type")?.[0]?.toLowerCase();
+  if (contentType?.includes("text/html") === true) {
+    const body = getTextBody(response.getBody());
+    return body.includes("__next_f") || body.includes("$ACTION_")
+      ? extractHtmlReferences(body)
+      : [];
+  }
 
-    sendStatus(sdk, "Scanning chunk files...");
+  if (!isRscNavigationRequest(request)) return [];
 
-    await paginateAllRequests(sdk, (page) => {
-      for (const item of page.items) {
-        const { request, response } = item;
-        if (!response) continue;
-        if (!isNextChunkRequest(request)) continue;
+  const body = getTextBody(response.getBody());
+  if (!isRscResponse(contentType, body)) return [];
+  return extractRscReferences(body);
+};
+
+const scanHistoryReferences = async (
+  sdk: SDK<API, BackendEvents>,
+  label: string,
+  handlers: ReferenceHandlers,
+): Promise<number> => {
+  let scanned = 0;
 
-        const body = getTextBody(response.getBody());
-        if (!body.includes("createServerReference")) continue;
+  await paginateAllRequests(sdk, async (page) => {
+    for (const item of page.items) {
+      const { request, response } = item;
+      if (!response) continue;
 
-        scannedChunks += 1;
+      const observation = await observeBuild(request, response);
 
-        for (const pattern of patterns) {
-          for (const match of body.matchAll(pattern)) {
-            const actionId = match[1];
-            const functionName = match[2];
-            if (actionId === undefined || actionId === "") continue;
-            if (functionName === undefined || functionName === "") continue;
+      if (!isNextChunkRequest(request)) {
+        if (handlers.onPageReference === undefined) continue;
 
-            if (functionName.startsWith("$") || functionName.startsWith("_"))
-              continue;
+        const references = getPageReferences(request, response);
+        if (references.length === 0) continue;
 
-            const existing = actionNamesById[actionId];
-            if (existing === undefined) {
-              actionNamesById[actionId] = functionName;
-              namesExtracted += 1;
-            }
-          }
+        const buildId =
+          observation?.buildId ??
+          getBuildAt(request.getHost(), response.getCreatedAt().toISOString());
+        scanned += 1;
+        for (const reference of references) {
+          await handlers.onPageReference(request, reference, buildId);
         }
+        continue;
       }
 
-      sendStatus(sdk, `Scanning chunk files... ${scannedChunks}`);
-    });
+      const body = getTextBody(response.getBody());
+      if (!mayContainServerReferences(body)) continue;
+
+      const result = extractServerReferences(body);
+      if (result.kind === "Error") continue;
+
+      scanned += 1;
+
+      for (const reference of result.value) {
+        await handlers.onChunkReference(request, reference);
+      }
+    }
+
+    sendStatus(sdk, `${label}... ${scanned}`);
+  });
+
+  return scanned;
+};
+
+const extractActionNames = async (
+  sdk: SDK<API, BackendEvents>,
+): Promise<Result<{ scannedChunks: number; namesExtracted: number }>> => {
+  try {
+    let namesExtracted = 0;
+
+    sendStatus(sdk, "Scanning chunk files...");
+
+    const scannedChunks = await scanHistoryReferences(
+      sdk,
+      "Scanning chunk files",
+      {
+        onChunkReference: async (request, reference) => {
+          const { exportName } = reference;
+          if (exportName === undefined) return;
+
+          const host = request.getHost();
+          for (const buildId of getChunkBuildIds(request)) {
+            const key = getActionKey(host, buildId, reference.actionId);
+            if (actionNamesByKey[key] !== undefined) continue;
+
+            await setActionName(host, buildId, reference.actionId, exportName);
+            namesExtracted += 1;
+          }
+        },
+      },
+    );
 
-    for (const actionId of Object.keys(actionNamesById)) {
-      ensureActionNotes(actionId);
+    for (const key of Object.keys(actionNamesByKey)) {
+      const { host, buildId, actionId } = parseActionKey(key);
+      await ensureActionNotes(host, buildId, actionId);
     }
 
     actions = actions.map((a) => {
-      const notes = actionNotesById[a.actionId];
+      const notes = getActionNotes(a.actionId, a.host, a.buildId);
       if (notes === undefined) return a;
       return { ...a, actionNotes: notes };
     });
@@ -460,372 +1358,2885 @@ const extractActionNames = async (
   }
 };
 
+const escapeHttpqlString = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+
+const findResponseBodyInHistory = async (
+  sdk: SDK<API, BackendEvents>,
+  url: string,
+): Promise<string | undefined> => {
+  const match = url.match(/^https?:\/\/([^/:?#]+)(?::\d+)?([^?#]*)/i);
+  const host = match?.[1];
+  const path = match?.[2];
+  if (host === undefined || path === undefined || path === "") return undefined;
+
+  const page = await sdk.requests
+    .query()
+    .filter(
+      `req.host.eq:"${escapeHttpqlString(host)}" AND req.path.eq:"${escapeHttpqlString(path)}" AND resp.code.eq:200`,
+    )
+    .first(1)
+    .execute();
+
+  const response = page.items[0]?.response;
+  return response ? getTextBody(response.getBody()) : undefined;
+};
+
+const fetchResponseBody = async (
+  sdk: SDK<API, BackendEvents>,
+  url: string,
+): Promise<string | undefined> => {
+  try {
+    const result = await sdk.requests.send(new RequestSpec(url));
+    if (result.response.getCode() !== 200) return undefined;
+    return getTextBody(result.response.getBody());
+  } catch {
+    return undefined;
+  }
+};
+
+const resolveSourceLocations = async (
+  sdk: SDK<API, BackendEvents>,
+  fetchMissing: boolean,
+): Promise<{ chunks: number; resolved: number }> => {
+  const pendingByChunk = new Map<ID, [string, DiscoveredActionInternal][]>();
+  for (const [key, discovered] of Object.entries(discoveredActionsByKey)) {
+    if (discovered.source !== "chunk") continue;
+    if (discovered.callSiteOffset === undefined) continue;
+    if (discovered.sourceLocation !== undefined) continue;
+
+    const pending = pendingByChunk.get(discovered.chunkRequestId) ?? [];
+    pendingByChunk.set(discovered.chunkRequestId, [
+      ...pending,
+      [key, discovered],
+    ]);
+  }
+
+  let chunks = 0;
+  let resolved = 0;
+
+  for (const [chunkRequestId, pending] of pendingByChunk) {
+    const pair = await sdk.requests.get(chunkRequestId);
+    if (!pair || !pair.response) continue;
+
+    const chunkSource = getTextBody(pair.response.getBody());
+    const mapUrl = getSourceMapUrl(chunkSource, pair.request.getUrl());
+    if (mapUrl === undefined) continue;
+
+    const mapText =
+      (await findResponseBodyInHistory(sdk, mapUrl)) ??
+      (fetchMissing ? await fetchResponseBody(sdk, mapUrl) : undefined);
+    if (mapText === undefined) continue;
+
+    const sourceMap = parseSourceMap(mapText);
+    if (sourceMap.kind === "Error") continue;
+
+    chunks += 1;
+
+    for (const [key, discovered] of pending) {
+      const position = getLineAndColumn(
+        chunkSource,
+        discovered.callSiteOffset ?? 0,
+      );
+      const sourceLocation = findOriginalLocation(
+        sourceMap.value,
+        position.line,
+        position.column,
+      );
+      if (sourceLocation === undefined) continue;
+
+      const updated = { ...discovered, sourceLocation };
+      discoveredActionsByKey[key] = updated;
+      await saveDiscoveredAction(key, updated);
+      resolved += 1;
+    }
+
+    sendStatus(sdk, `Resolving source maps... ${resolved}`);
+  }
+
+  return { chunks, resolved };
+};
+
+const resolveSourceMaps = async (
+  sdk: SDK<API, BackendEvents>,
+): Promise<Result<{ chunks: number; resolved: number }>> => {
+  try {
+    sendStatus(sdk, "Resolving source maps...");
+
+    const result = await resolveSourceLocations(sdk, true);
+
+    sendStatus(
+      sdk,
+      `Resolved ${result.resolved} action locations from ${result.chunks} source maps`,
+    );
+    sdk.api.send("nextjs-actions.data-changed");
+
+    return { kind: "Ok", value: result };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendStatus(sdk, "Source map resolution failed");
+    return { kind: "Error", error: message };
+  }
+};
+
+const isExecutedUnderOtherId = (
+  discovered: DiscoveredActionInternal,
+): boolean => {
+  if (discovered.functionName === "Unknown") return false;
+
+  return actions.some(
+    (entry) =>
+      entry.actionId !== discovered.actionId &&
+      entry.host === discovered.host &&
+      matchesBuild(entry.buildId, discovered.buildId) &&
+      getActionName(entry.actionId, entry.host, entry.buildId) ===
+        discovered.functionName,
+  );
+};
+
+const buildDiscoveryRows = (): Omit<DiscoveryResult, "status"> => {
+  const discoveredActions = Object.values(discoveredActionsByKey);
+
+  const all: DiscoveredAction[] = [];
+  const unused: DiscoveredAction[] = [];
+  const unknown: DiscoveredAction[] = [];
+
+  for (const discovered of discoveredActions) {
+    const executedCount = getActionUsages(
+      discovered.actionId,
+      discovered.host,
+      discovered.buildId,
+    ).length;
+
+    let status = "Never Executed";
+    if (executedCount > 0) {
+      status = "Executed";
+    } else if (isExecutedUnderOtherId(discovered)) {
+      status = "Unused (Function executed with different ID)";
+    }
+
+    const row: DiscoveredAction = {
+      actionId: discovered.actionId,
+      functionName: discovered.functionName,
+      host: discovered.host,
+      buildId: discovered.buildId,
+      status,
+      chunkFile: discovered.chunkFile,
+      executedCount,
+      signature: getActionSignature(
+        discovered.actionId,
+        discovered.host,
+        discovered.buildId,
+      ),
+      source: discovered.source,
+      pageUrl: discovered.pageUrl ?? "",
+      sourceFile: discovered.sourceLocation?.file ?? "",
+      sourceLine: discovered.sourceLocation?.line,
+      notes:
+        getActionNotes(
+          discovered.actionId,
+          discovered.host,
+          discovered.buildId,
+        ) ?? "",
+    };
+
+    all.push(row);
+    if (status === "Never Executed") {
+      unused.push(row);
+    }
+  }
+
+  const reportedKeys = new Set<string>();
+  for (const entry of actions) {
+    const key = getActionKey(entry.host, entry.buildId, entry.actionId);
+    if (reportedKeys.has(key)) continue;
+    reportedKeys.add(key);
+
+    const hasSource = discoveredActions.some(
+      (d) =>
+        d.actionId === entry.actionId &&
+        d.host === entry.host &&
+        matchesBuild(d.buildId, entry.buildId),
+    );
+    if (hasSource) continue;
+
+    unknown.push({
+      actionId: entry.actionId,
+      functionName:
+        getActionName(entry.actionId, entry.host, entry.buildId) ?? "Unknown",
+      host: entry.host,
+      buildId: entry.buildId,
+      status: "Executed (No source found)",
+      chunkFile: "Not found",
+      executedCount: getActionUsages(entry.actionId, entry.host, entry.buildId)
+        .length,
+      signature: getActionSignature(entry.actionId, entry.host, entry.buildId),
+      source: undefined,
+      pageUrl: "",
+      sourceFile: "",
+      sourceLine: undefined,
+      notes: getActionNotes(entry.actionId, entry.host, entry.buildId) ?? "",
+    });
+  }
+
+  return { all, unused, unknown };
+};
+
+const getBuildActions = (
+  host: string,
+  buildId: string,
+): DiscoveredActionInternal[] =>
+  Object.values(discoveredActionsByKey).filter(
+    (d) => d.host === host && d.buildId === buildId,
+  );
+
+const carryActionState = async (
+  previous: DiscoveredActionInternal,
+  current: DiscoveredActionInternal,
+) => {
+  const { host, buildId, actionId } = current;
+  const functionName = getActionName(
+    previous.actionId,
+    previous.host,
+    previous.buildId,
+  );
+  if (
+    functionName !== undefined &&
+    actionNamesByKey[getActionKey(host, buildId, actionId)] === undefined
+  ) {
+    await setActionName(host, buildId, actionId, functionName);
+  }
+
+  const previousNotes = getActionNotes(
+    previous.actionId,
+    previous.host,
+    previous.buildId,
+  );
+  if (previousNotes === undefined) return;
+
+  const currentNotes = getActionNotes(actionId, host, buildId) ?? "";
+  const prefix = functionName !== undefined ? `Function: ${functionName}` : "";
+  if (currentNotes !== "" && currentNotes !== prefix) return;
+  if (previousNotes === currentNotes) return;
+
+  await storeActionNote(host, buildId, actionId, previousNotes);
+};
+
+const storeDiscoveredAction = async (
+  key: string,
+  discovered: DiscoveredActionInternal,
+): Promise<void> => {
+  discoveredActionsByKey[key] = discovered;
+  // A full rescan writes its inventory in one step once it completes.
+  if (!rescanningDiscovery) await saveDiscoveredAction(key, discovered);
+};
+
+const recordChunkReference = async (
+  request: Request,
+  reference: ServerReference,
+  previousByKey: Record<string, DiscoveredActionInternal>,
+): Promise<boolean> => {
+  const host = request.getHost();
+  let added = false;
+
+  for (const buildId of getChunkBuildIds(request)) {
+    const key = getActionKey(host, buildId, reference.actionId);
+
+    const existing = discoveredActionsByKey[key];
+    if (existing?.source === "chunk") {
+      if (existing.functionName !== "Unknown") continue;
+      if (reference.exportName === undefined) continue;
+    }
+
+    const previous = previousByKey[key];
+    const discovered: DiscoveredActionInternal = {
+      actionId: reference.actionId,
+      functionName: reference.exportName ?? "Unknown",
+      host,
+      buildId,
+      source: "chunk",
+      pageUrl: existing?.pageUrl,
+      chunkFile: request.getPath().split("/").pop() ?? "Unknown",
+      moduleId: reference.moduleId,
+      callSiteOffset: reference.offset,
+      sourceLocation:
+        previous?.chunkRequestId === request.getId() &&
+        previous.callSiteOffset === reference.offset
+          ? previous.sourceLocation
+          : undefined,
+      firstSeen: existing?.firstSeen ?? nowIso(),
+      chunkRequestId: request.getId(),
+    };
+    await storeDiscoveredAction(key, discovered);
+    if (existing === undefined) added = true;
+
+    if (
+      reference.exportName !== undefined &&
+      actionNamesByKey[key] === undefined
+    ) {
+      await setActionName(
+        host,
+        buildId,
+        reference.actionId,
+        reference.exportName,
+      );
+    }
+  }
+
+  return added;
+};
+
+const recordPageReference = async (
+  request: Request,
+  reference: PageReference,
+  buildId: string | undefined,
+): Promise<boolean> => {
+  const host = request.getHost();
+  const key = getActionKey(host, buildId, reference.actionId);
+
+  const existing = discoveredActionsByKey[key];
+  if (existing !== undefined) {
+    if (existing.pageUrl !== undefined) return false;
+
+    const updated = { ...existing, pageUrl: getPageUrl(request) };
+    await storeDiscoveredAction(key, updated);
+    return false;
+  }
+
+  const discovered: DiscoveredActionInternal = {
+    actionId: reference.actionId,
+    functionName: getActionName(reference.actionId, host, buildId) ?? "Unknown",
+    host,
+    buildId,
+    source: reference.source,
+    pageUrl: getPageUrl(request),
+    chunkFile: request.getPath(),
+    moduleId: undefined,
+    callSiteOffset: undefined,
+    sourceLocation: undefined,
+    firstSeen: nowIso(),
+    chunkRequestId: request.getId(),
+  };
+  await storeDiscoveredAction(key, discovered);
+  return true;
+};
+
+const recordActionRotations = async (hosts?: string[]): Promise<number> => {
+  let detected = 0;
+
+  for (const [host, buildIds] of Object.entries(getBuildOrderByHost())) {
+    if (hosts !== undefined && !hosts.includes(host)) continue;
+
+    for (let i = 1; i < buildIds.length; i += 1) {
+      const previousBuildId = buildIds[i - 1];
+      const buildId = buildIds[i];
+      if (previousBuildId === undefined || buildId === undefined) continue;
+
+      const { matches } = compareBuildActions(
+        getBuildActions(host, previousBuildId),
+        getBuildActions(host, buildId),
+      );
+
+      for (const { previous, current } of matches) {
+        // Names and notes live per build, so unchanged IDs carry them too.
+        await carryActionState(previous, current);
+        if (previous.actionId === current.actionId) continue;
+
+        const key = `${previous.actionId}|${current.actionId}`;
+        const existing = actionRotationsByKey[key];
+        const rotation: ActionIdRotation = {
+          host,
+          functionName: current.functionName,
+          moduleId: current.moduleId,
+          previousActionId: previous.actionId,
+          previousBuildId,
+          actionId: current.actionId,
+          buildId,
+          detectedAt: existing?.detectedAt ?? nowIso(),
+        };
+        actionRotationsByKey[key] = rotation;
+        await saveActionRotation(key, rotation);
+
+        if (existing === undefined) detected += 1;
+      }
+    }
+  }
+
+  return detected;
+};
+
 const findAllActions = async (
   sdk: SDK<API, BackendEvents>,
 ): Promise<Result<DiscoveryResult>> => {
   try {
-    discoveredActionsById = {};
+    sendStatus(sdk, "Scanning chunks and pages for server actions...");
+
+    const previousByKey = discoveredActionsByKey;
+    // Chunks are attributed to builds once every manifest and page in
+    // history has been observed, so recording waits for the scan to finish.
+    const pending: (() => Promise<boolean>)[] = [];
+    await scanHistoryReferences(sdk, "Scanning chunks and pages", {
+      onChunkReference: (request, reference) => {
+        pending.push(() =>
+          recordChunkReference(request, reference, previousByKey),
+        );
+      },
+      onPageReference: (request, reference, buildId) => {
+        pending.push(() => recordPageReference(request, reference, buildId));
+      },
+    });
 
-    const patterns: RegExp[] = [
-      /createServerReference\)\("([a-f0-9]{40,})",\w+\.callServer,void 0,\w+\.findSourceMapURL,"([^"]+)"\)/g,
-      /\(\d+,\s*\w+\.createServerReference\)\s*\(\s*"([a-f0-9]{40,})",\s*\w+\.callServer,\s*void\s+0,\s*\w+\.findSourceMapURL,\s*"([^"]+)"\s*\)/g,
-      /createServerReference\)\s*\(\s*"([a-f0-9]{40,})",\s*\w+\.callServer,\s*void\s+0,\s*\w+\.findSourceMapURL,\s*"([^"]+)"\s*\)/g,
-      /createServerReference[^"]*"([a-f0-9]{40,})"[^"]*"([^"]+)"\s*\)/g,
-    ];
+    discoveredActionsByKey = {};
+    rescanningDiscovery = true;
+    try {
+      for (const record of pending) {
+        await record();
+      }
+      await replaceDiscoveredActions(discoveredActionsByKey);
+    } catch (error) {
+      discoveredActionsByKey = previousByKey;
+      throw error;
+    } finally {
+      rescanningDiscovery = false;
+    }
 
-    let chunksFound = 0;
+    await resolveSourceLocations(sdk, false);
+    const rotated = await recordActionRotations();
 
-    sendStatus(sdk, "Scanning chunks for server actions...");
+    const rows = buildDiscoveryRows();
+    const status = `Found ${rows.all.length} actions (${rows.unused.length} unused, ${rotated} rotated IDs)`;
+    sendStatus(sdk, status);
 
-    await paginateAllRequests(sdk, (page) => {
-      for (const item of page.items) {
-        const { request, response } = item;
-        if (!response) continue;
-        if (!isNextChunkRequest(request)) continue;
+    sdk.api.send("nextjs-actions.data-changed");
+
+    return { kind: "Ok", value: { status, ...rows } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendStatus(sdk, "Discovery failed");
+    return { kind: "Error", error: message };
+  }
+};
+
+const getActions = (): ActionEntry[] => {
+  return actions;
+};
+
+const getChunkRequestIdForAction = (
+  _sdk: SDK<API, BackendEvents>,
+  actionId: string,
+  host?: string,
+  buildId?: string,
+): Result<{ requestId: ID }> => {
+  const discovered = Object.values(discoveredActionsByKey).find(
+    (d) =>
+      d.actionId === actionId &&
+      (host === undefined || d.host === host) &&
+      matchesBuild(d.buildId, buildId),
+  );
+  if (!discovered) {
+    return { kind: "Error", error: "No chunk request found for action" };
+  }
+
+  return { kind: "Ok", value: { requestId: discovered.chunkRequestId } };
+};
+
+const getDiscovery = (): DiscoveryResult => {
+  return { status: "", ...buildDiscoveryRows() };
+};
+
+const getApplicationBuilds = (): ApplicationBuild[] => {
+  const builds = new Map<string, ApplicationBuild>();
+  const getBuild = (host: string, buildId: string | undefined) => {
+    const key = `${host}|${buildId ?? ""}`;
+    const existing = builds.get(key);
+    if (existing !== undefined) return existing;
+
+    const build: ApplicationBuild = {
+      host,
+      buildId,
+      executedCount: 0,
+      discoveredCount: 0,
+    };
+    builds.set(key, build);
+    return build;
+  };
+
+  for (const entry of actions) {
+    getBuild(entry.host, entry.buildId).executedCount += 1;
+  }
+  for (const discovered of Object.values(discoveredActionsByKey)) {
+    getBuild(discovered.host, discovered.buildId).discoveredCount += 1;
+  }
+
+  return [...builds.values()].sort(
+    (a, b) =>
+      a.host.localeCompare(b.host) ||
+      (a.buildId ?? "").localeCompare(b.buildId ?? ""),
+  );
+};
+
+const getActionIdHistory = (
+  _sdk: SDK<API, BackendEvents>,
+  actionId: string,
+): ActionIdRotation[] => {
+  const rotations = Object.values(actionRotationsByKey);
+  const visited = new Set([actionId]);
+  const history: ActionIdRotation[] = [];
+
+  let cursor = actionId;
+  for (;;) {
+    const rotation = rotations.find(
+      (r) => r.actionId === cursor && !visited.has(r.previousActionId),
+    );
+    if (rotation === undefined) break;
+
+    history.unshift(rotation);
+    visited.add(rotation.previousActionId);
+    cursor = rotation.previousActionId;
+  }
+
+  cursor = actionId;
+  for (;;) {
+    const rotation = rotations.find(
+      (r) => r.previousActionId === cursor && !visited.has(r.actionId),
+    );
+    if (rotation === undefined) break;
+
+    history.push(rotation);
+    visited.add(rotation.actionId);
+    cursor = rotation.actionId;
+  }
+
+  return history;
+};
+
+const getBuildDiff = (
+  _sdk: SDK<API, BackendEvents>,
+  host: string,
+  fromBuildId: string,
+  toBuildId: string,
+): Result<BuildDiff> => {
+  const previous = getBuildActions(host, fromBuildId);
+  const current = getBuildActions(host, toBuildId);
+  if (previous.length === 0 || current.length === 0) {
+    return { kind: "Error", error: "Both builds need discovered actions" };
+  }
+
+  const rowsByKey = new Map(
+    buildDiscoveryRows().all.map((row) => [
+      getActionKey(row.host, row.buildId, row.actionId),
+      row,
+    ]),
+  );
+  const toRows = (list: DiscoveredActionInternal[]) =>
+    list.flatMap((d) => {
+      const row = rowsByKey.get(getActionKey(d.host, d.buildId, d.actionId));
+      return row !== undefined ? [row] : [];
+    });
+
+  const { matches, added, removed } = compareBuildActions(previous, current);
+  const rotated = matches
+    .filter((m) => m.previous.actionId !== m.current.actionId)
+    .map(
+      (m): ActionIdRotation => ({
+        host,
+        functionName: m.current.functionName,
+        moduleId: m.current.moduleId,
+        previousActionId: m.previous.actionId,
+        previousBuildId: fromBuildId,
+        actionId: m.current.actionId,
+        buildId: toBuildId,
+        detectedAt:
+          actionRotationsByKey[`${m.previous.actionId}|${m.current.actionId}`]
+            ?.detectedAt ?? nowIso(),
+      }),
+    );
+
+  return {
+    kind: "Ok",
+    value: {
+      host,
+      fromBuildId,
+      toBuildId,
+      added: toRows(added),
+      removed: toRows(removed),
+      rotated,
+      unchanged: matches.length - rotated.length,
+    },
+  };
+};
+
+const clearAll = async (sdk: SDK<API, BackendEvents>): Promise<void> => {
+  actions = [];
+  actionUsagesByKey = {};
+  actionNamesByKey = {};
+  discoveredActionsByKey = {};
+  actionRotationsByKey = {};
+  authzResultsById = {};
+  idorResultsById = {};
+  originResultsById = {};
+  raceResultsById = {};
+  middlewareResultsByKey = {};
+  profileReplaysByKey = {};
+  actionProbesByKey = {};
+  flightChecksById = {};
+  versionFingerprintsByHost = {};
+  chunkIntelByKey = {};
+  routeInventoryByKey = {};
+  observedBuildsByKey = {};
+  seenRequestIds = new Set<string>();
+  await clearScanData();
+  sendStatus(sdk, "Cleared");
+  sdk.api.send("nextjs-actions.data-changed");
+};
+
+const storeActionNote = async (
+  host: string,
+  buildId: string | undefined,
+  actionId: string,
+  note: string,
+) => {
+  const key = getActionKey(host, buildId, actionId);
+  actionNotesByKey[key] = note;
+  await saveActionNote(key, note);
+
+  actions = actions.map((a) => {
+    if (getActionKey(a.host, a.buildId, a.actionId) !== key) return a;
+    return { ...a, actionNotes: note };
+  });
+};
+
+const setActionNote = async (
+  sdk: SDK<API, BackendEvents>,
+  host: string,
+  buildId: string | undefined,
+  actionId: string,
+  note: string,
+): Promise<void> => {
+  await storeActionNote(host, buildId, actionId, note);
 
-        const body = getTextBody(response.getBody());
-        if (!body.includes("createServerReference")) continue;
+  sdk.api.send("nextjs-actions.data-changed");
+};
 
-        chunksFound += 1;
+const getRequestResponseRaw = async (
+  sdk: SDK<API, BackendEvents>,
+  requestId: ID,
+): Promise<Result<{ requestRaw: string; responseRaw: string }>> => {
+  try {
+    const pair = await sdk.requests.get(requestId);
+    if (!pair || !pair.response) {
+      return { kind: "Error", error: "Request/response not found" };
+    }
+
+    return {
+      kind: "Ok",
+      value: {
+        requestRaw: pair.request.getRaw().toText(),
+        responseRaw: pair.response.getRaw().toText(),
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { kind: "Error", error: message };
+  }
+};
+
+const getRscPayload = async (
+  sdk: SDK<API, BackendEvents>,
+  requestId: ID,
+): Promise<Result<RscPayload>> => {
+  try {
+    const pair = await sdk.requests.get(requestId);
+    if (!pair || !pair.response) {
+      return { kind: "Error", error: "Request/response not found" };
+    }
+
+    const payload = parseActionResponse(pair.response);
+    if (payload === undefined) {
+      return { kind: "Error", error: "Response is not an RSC payload" };
+    }
+
+    return { kind: "Ok", value: payload };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { kind: "Error", error: message };
+  }
+};
+
+const getActionSchema = (
+  _sdk: SDK<API, BackendEvents>,
+  actionId: string,
+): Result<ActionSchema> => {
+  const usages = getActionUsages(actionId);
+  if (usages.length === 0) {
+    return { kind: "Error", error: "No observed usages for action" };
+  }
+
+  const schemas = inferArgumentSchemas(usages);
+  return {
+    kind: "Ok",
+    value: {
+      actionId,
+      functionName: getActionName(actionId) ?? "Unknown",
+      usageCount: usages.length,
+      signature: formatSchemaSignature(schemas),
+      arguments: schemas,
+    },
+  };
+};
+
+const analyzeRequestsById = async (
+  sdk: SDK<API, BackendEvents>,
+  requestIds: ID[],
+): Promise<Result<{ analyzed: number; found: number }>> => {
+  try {
+    let analyzed = 0;
+    let found = 0;
+
+    for (const id of requestIds) {
+      const pair = await sdk.requests.get(id);
+      analyzed += 1;
+      if (!pair || !pair.response) continue;
+
+      const actionId = getActionIdFromRequest(pair.request);
+      if (actionId === undefined) continue;
+
+      found += 1;
+      await addActionEntry(sdk, pair.request, pair.response, actionId);
+    }
+
+    sdk.api.send("nextjs-actions.data-changed");
+
+    return { kind: "Ok", value: { analyzed, found } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { kind: "Error", error: message };
+  }
+};
+
+const lookupActionForRequest = async (
+  sdk: SDK<API, BackendEvents>,
+  requestId: ID,
+): Promise<Result<{ actionId: string; functionName: string }>> => {
+  try {
+    const pair = await sdk.requests.get(requestId);
+    if (!pair) return { kind: "Error", error: "Request not found" };
+
+    const actionId = getActionIdFromRequest(pair.request);
+    if (actionId === undefined) {
+      return {
+        kind: "Error",
+        error: "No Next-Action header or $ACTION_ form fields",
+      };
+    }
+
+    const functionName = getActionName(actionId) ?? "Unknown";
+    return { kind: "Ok", value: { actionId, functionName } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { kind: "Error", error: message };
+  }
+};
+
+const createReplaySessionFromRequest = async (
+  sdk: SDK<API, BackendEvents>,
+  requestId: ID,
+): Promise<Result<{ sessionId: ID }>> => {
+  try {
+    const session = await sdk.replay.createSession(requestId);
+    return { kind: "Ok", value: { sessionId: session.getId() } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { kind: "Error", error: message };
+  }
+};
+
+const getUrlOrigin = (url: string): string =>
+  url.match(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]+/i)?.[0] ?? "";
+
+const getUrlPath = (url: string): string => {
+  const path = url.match(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]+([^?#]*)/i)?.[1];
+  return path !== undefined && path !== "" ? path : "/";
+};
+
+const findLatestRequest = async (
+  sdk: SDK<API, BackendEvents>,
+  filter: string,
+): Promise<Request | undefined> => {
+  const page = await sdk.requests
+    .query()
+    .filter(filter)
+    .descending("req", "created_at")
+    .first(1)
+    .execute();
+  return page.items[0]?.request;
+};
+
+const findDiscoveredAction = (
+  actionId: string,
+): DiscoveredActionInternal | undefined =>
+  Object.values(discoveredActionsByKey)
+    .filter((d) => d.actionId === actionId)
+    .sort((a, b) => b.firstSeen.localeCompare(a.firstSeen))[0];
+
+const findPageUrlForAction = async (
+  sdk: SDK<API, BackendEvents>,
+  discovered: DiscoveredActionInternal,
+): Promise<string> => {
+  if (discovered.pageUrl !== undefined) return discovered.pageUrl;
+
+  const chunk = await sdk.requests.get(discovered.chunkRequestId);
+  const referer = chunk?.request.getHeader("Referer")?.[0];
+  if (referer !== undefined && getUrlOrigin(referer) !== "") return referer;
+
+  const scheme = chunk?.request.getTls() === false ? "http" : "https";
+  return `${scheme}://${discovered.host}/`;
+};
+
+const synthesizeActionRequest = async (
+  sdk: SDK<API, BackendEvents>,
+  discovered: DiscoveredActionInternal,
+): Promise<{
+  spec: RequestSpec;
+  pageUrl: string;
+  arity: number | undefined;
+}> => {
+  const pageUrl = await findPageUrlForAction(sdk, discovered);
+  const host = getUrlHost(pageUrl);
+  const path = getUrlPath(pageUrl);
+  const pageFilter = `req.host.eq:"${escapeHttpqlString(host)}" AND req.path.eq:"${escapeHttpqlString(path)}"`;
+
+  const navigation = await findLatestRequest(
+    sdk,
+    `${pageFilter} AND req.raw.cont:"Next-Router-State-Tree"`,
+  );
+  const authenticated = await findLatestRequest(
+    sdk,
+    `req.host.eq:"${escapeHttpqlString(host)}" AND req.raw.cont:"Cookie:"`,
+  );
+
+  const spec = new RequestSpec(pageUrl);
+  spec.setMethod("POST");
+  spec.setHeader("Accept", "text/x-component");
+  spec.setHeader("Next-Action", discovered.actionId);
+  spec.setHeader(
+    "Next-Router-State-Tree",
+    navigation?.getHeader("Next-Router-State-Tree")?.[0] ??
+      buildRouterStateTree(path),
+  );
+  spec.setHeader("Content-Type", "text/plain;charset=UTF-8");
+  spec.setHeader("Origin", getUrlOrigin(pageUrl));
+  spec.setHeader("Referer", pageUrl);
+
+  const cookie = authenticated?.getHeader("Cookie")?.[0];
+  if (cookie !== undefined) spec.setHeader("Cookie", cookie);
+
+  const skeleton = buildArgumentSkeleton(discovered.actionId);
+  spec.setBody(new Body(skeleton.body), { updateContentLength: true });
+
+  return { spec, pageUrl, arity: skeleton.arity };
+};
+
+const buildTestReplaySpec = async (
+  sdk: SDK<API, BackendEvents>,
+  actionId: string,
+): Promise<Result<RequestSpec>> => {
+  const lastUsage = getActionUsages(actionId).at(-1);
+
+  const discovered =
+    lastUsage === undefined ? findDiscoveredAction(actionId) : undefined;
+  if (discovered !== undefined) {
+    const { spec } = await synthesizeActionRequest(sdk, discovered);
+    return { kind: "Ok", value: spec };
+  }
+
+  const templateUsage = lastUsage ?? actions.at(-1);
+  if (templateUsage === undefined) {
+    return { kind: "Error", error: "No template request available" };
+  }
+
+  const pair = await sdk.requests.get(templateUsage.requestId);
+  if (!pair) {
+    return { kind: "Error", error: "Template request not found" };
+  }
+
+  const spec = pair.request.toSpec();
+  spec.setHeader("Next-Action", actionId);
+
+  const bodyText = getTextBody(spec.getBody());
+  const json = safeJsonParse(bodyText);
+  if (Array.isArray(json) && json.length > 0) {
+    const updated = [...json];
+    updated[0] = actionId;
+    spec.setBody(new Body(JSON.stringify(updated)), {
+      updateContentLength: true,
+    });
+  }
+
+  return { kind: "Ok", value: spec };
+};
+
+const createTestReplayForAction = async (
+  sdk: SDK<API, BackendEvents>,
+  actionId: string,
+  profileId?: string,
+): Promise<Result<{ sessionId: ID }>> => {
+  try {
+    const profile =
+      profileId !== undefined ? sessionProfilesById[profileId] : undefined;
+    if (profileId !== undefined && profile === undefined) {
+      return { kind: "Error", error: "Session profile not found" };
+    }
+
+    const spec = await buildTestReplaySpec(sdk, actionId);
+    if (spec.kind === "Error") return spec;
+    if (profile !== undefined) applySessionProfile(spec.value, profile);
+
+    const session = await sdk.replay.createSession(spec.value);
+    return { kind: "Ok", value: { sessionId: session.getId() } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { kind: "Error", error: message };
+  }
+};
+
+const getAutomateTemplate = async (
+  sdk: SDK<API, BackendEvents>,
+  requestId: string,
+): Promise<Result<AutomateTemplate>> => {
+  try {
+    const pair = await sdk.requests.get(requestId);
+    if (!pair) {
+      return { kind: "Error", error: "Request not found" };
+    }
+
+    const raw = pair.request.getRaw().toText();
+    const separator = raw.match(/\r?\n\r?\n/);
+    const bodyOffset =
+      separator?.index !== undefined
+        ? separator.index + separator[0].length
+        : raw.length;
+
+    const leaves = findPlaceholderLeaves(
+      pair.request.getHeader("Content-Type")?.[0],
+      raw.slice(bodyOffset),
+    );
+    if (leaves.length === 0) {
+      return { kind: "Error", error: "No argument values found in request" };
+    }
+
+    return {
+      kind: "Ok",
+      value: {
+        raw,
+        placeholders: leaves.map((leaf) => ({
+          start: bodyOffset + leaf.start,
+          end: bodyOffset + leaf.end,
+        })),
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { kind: "Error", error: message };
+  }
+};
+
+const getAutomatePayloadSets = (): AutomatePayloadSet[] => {
+  return AUTOMATE_PAYLOAD_SETS;
+};
+
+const getReplaySessionIds = (): Record<string, ID> => {
+  const stored = safeJsonParse(
+    settingsByKey[REPLAY_SESSIONS_SETTINGS_KEY] ?? "",
+  );
+  return stored !== null && typeof stored === "object"
+    ? (stored as Record<string, ID>)
+    : {};
+};
+
+const getCurrentHost = (): string | undefined =>
+  actions.at(-1)?.host ??
+  Object.values(discoveredActionsByKey).sort((a, b) =>
+    b.firstSeen.localeCompare(a.firstSeen),
+  )[0]?.host;
+
+const getReplayCollectionPlan = (
+  _sdk: SDK<API, BackendEvents>,
+  host?: string,
+): Result<ReplayCollectionPlan> => {
+  const targetHost = host ?? getCurrentHost();
+  if (targetHost === undefined) {
+    return { kind: "Error", error: "No host with actions found" };
+  }
+
+  const rows = buildDiscoveryRows();
+  const sessionIds = getReplaySessionIds();
+  const itemsByActionId = new Map<string, ReplayCollectionItem>();
+
+  const addItem = (row: DiscoveredAction, group: ReplayCollectionGroup) => {
+    if (row.host !== targetHost || itemsByActionId.has(row.actionId)) return;
+
+    const label = group.charAt(0).toUpperCase() + group.slice(1);
+    itemsByActionId.set(row.actionId, {
+      actionId: row.actionId,
+      functionName: row.functionName,
+      group,
+      name: `[${label}] ${row.functionName} (${row.actionId.slice(0, 8)})`,
+      sessionId: sessionIds[`${targetHost}|${row.actionId}`],
+    });
+  };
+
+  for (const row of rows.all) {
+    if (row.status === "Executed") addItem(row, "executed");
+  }
+  for (const row of rows.unknown) addItem(row, "unknown");
+  for (const row of rows.all) addItem(row, "unused");
+
+  const order: ReplayCollectionGroup[] = ["executed", "unused", "unknown"];
+  const items = [...itemsByActionId.values()].sort(
+    (a, b) =>
+      order.indexOf(a.group) - order.indexOf(b.group) ||
+      a.name.localeCompare(b.name),
+  );
+
+  return {
+    kind: "Ok",
+    value: {
+      host: targetHost,
+      collectionName: `Next.js Actions: ${targetHost}`,
+      items,
+    },
+  };
+};
+
+const createActionReplaySession = async (
+  sdk: SDK<API, BackendEvents>,
+  host: string,
+  actionId: string,
+  collectionId: ID,
+): Promise<Result<{ sessionId: ID }>> => {
+  try {
+    const spec = await buildTestReplaySpec(sdk, actionId);
+    if (spec.kind === "Error") return spec;
+
+    const session = await sdk.replay.createSession(spec.value, collectionId);
+    const sessionIds = {
+      ...getReplaySessionIds(),
+      [`${host}|${actionId}`]: session.getId(),
+    };
+    const value = JSON.stringify(sessionIds);
+    settingsByKey[REPLAY_SESSIONS_SETTINGS_KEY] = value;
+    await saveSetting(REPLAY_SESSIONS_SETTINGS_KEY, value);
+
+    return { kind: "Ok", value: { sessionId: session.getId() } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { kind: "Error", error: message };
+  }
+};
+
+const snapshotResponse = (response: Response): ResponseSnapshot => {
+  const payload = parseActionResponse(response);
+  const body = getTextBody(response.getBody());
+  return createResponseSnapshot(
+    response.getCode(),
+    body,
+    response.getHeader("Location")?.[0] ??
+      response.getHeader("x-action-redirect")?.[0],
+    payload,
+  );
+};
+
+const probeAction = async (
+  sdk: SDK<API, BackendEvents>,
+  discovered: DiscoveredActionInternal,
+): Promise<ActionProbeResult> => {
+  const { spec, pageUrl, arity } = await synthesizeActionRequest(
+    sdk,
+    discovered,
+  );
+  const result: ActionProbeResult = {
+    actionId: discovered.actionId,
+    functionName: discovered.functionName,
+    host: discovered.host,
+    buildId: discovered.buildId,
+    pageUrl,
+    arity,
+    requestId: undefined,
+    statusCode: 0,
+    responseSize: 0,
+    returnValue: undefined,
+    error: undefined,
+    probedAt: nowIso(),
+  };
+
+  try {
+    const sent = await sdk.requests.send(spec);
+    const snapshot = snapshotResponse(sent.response);
+    result.requestId = sent.request.getId();
+    result.statusCode = snapshot.statusCode;
+    result.responseSize = snapshot.size;
+    result.returnValue = snapshot.returnValue;
+    result.error = snapshot.errors[0];
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : "Unknown error";
+  }
+
+  return result;
+};
+
+const getUnusedActionKeys = (): string[] =>
+  buildDiscoveryRows().unused.map((row) =>
+    getActionKey(row.host, row.buildId, row.actionId),
+  );
+
+const previewUnusedActionProbes = async (
+  sdk: SDK<API, BackendEvents>,
+): Promise<Result<ActionProbePlan[]>> => {
+  try {
+    const planned: ActionProbePlan[] = [];
+
+    for (const key of getUnusedActionKeys()) {
+      const discovered = discoveredActionsByKey[key];
+      if (discovered === undefined) continue;
+
+      planned.push({
+        key,
+        actionId: discovered.actionId,
+        functionName: discovered.functionName,
+        host: discovered.host,
+        buildId: discovered.buildId,
+        pageUrl: await findPageUrlForAction(sdk, discovered),
+        arity: buildArgumentSkeleton(discovered.actionId).arity,
+      });
+    }
+
+    return { kind: "Ok", value: planned };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { kind: "Error", error: message };
+  }
+};
+
+const probeUnusedActions = async (
+  sdk: SDK<API, BackendEvents>,
+  keys: string[],
+): Promise<Result<{ probed: number; succeeded: number }>> => {
+  try {
+    const unusedKeys = new Set(getUnusedActionKeys());
+    const targets = keys.filter((key) => unusedKeys.has(key));
+    let probed = 0;
+    let succeeded = 0;
+
+    sendStatus(sdk, "Probing unused actions...");
+
+    for (const key of targets) {
+      const discovered = discoveredActionsByKey[key];
+      if (discovered === undefined) continue;
+
+      const result = await probeAction(sdk, discovered);
+      actionProbesByKey[key] = result;
+      await saveActionProbe(key, result);
+
+      probed += 1;
+      if (result.statusCode >= 200 && result.statusCode < 300) succeeded += 1;
+      sendStatus(sdk, `Probing unused actions... ${probed}/${targets.length}`);
+    }
+
+    sendStatus(
+      sdk,
+      `Probed ${probed} unused actions (${succeeded} returned 2xx)`,
+    );
+    sdk.api.send("nextjs-actions.data-changed");
+
+    return { kind: "Ok", value: { probed, succeeded } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendStatus(sdk, "Probing unused actions failed");
+    return { kind: "Error", error: message };
+  }
+};
+
+const getActionProbes = (): ActionProbeResult[] => {
+  return Object.values(actionProbesByKey);
+};
+
+const getAuthzSettings = (): AuthzSettings => {
+  const stored = safeJsonParse(settingsByKey[AUTHZ_SETTINGS_KEY] ?? "");
+  const lowPrivilegeProfileId =
+    stored !== null &&
+    typeof stored === "object" &&
+    "lowPrivilegeProfileId" in stored &&
+    typeof stored.lowPrivilegeProfileId === "string"
+      ? stored.lowPrivilegeProfileId
+      : undefined;
+  return { lowPrivilegeProfileId };
+};
+
+const setAuthzSettings = async (
+  _sdk: SDK<API, BackendEvents>,
+  settings: AuthzSettings,
+): Promise<void> => {
+  const value = JSON.stringify(settings);
+  settingsByKey[AUTHZ_SETTINGS_KEY] = value;
+  await saveSetting(AUTHZ_SETTINGS_KEY, value);
+};
+
+const sendAuthzAttempt = async (
+  sdk: SDK<API, BackendEvents>,
+  request: Request,
+  original: ResponseSnapshot,
+  identity: AuthzIdentity,
+  profile: SessionProfile | undefined,
+  actionId: string,
+): Promise<AuthzAttempt> => {
+  const spec = request.toSpec();
+  if (profile !== undefined) {
+    applySessionProfile(spec, profile);
+  } else {
+    stripCredentials(spec);
+  }
+
+  try {
+    const sent = await sdk.requests.send(spec);
+    const replay = snapshotResponse(sent.response);
+    const { verdict, reason } = classifyAuthzAttempt(original, replay);
+
+    if (verdict === "bypassed") {
+      const functionName = getActionName(actionId) ?? "Unknown";
+      await reportFinding(sdk, {
+        severity: "high",
+        title: `Next.js Server Action authorization bypass (${identity}): ${functionName}`,
+        description: [
+          "Severity: high",
+          `Action ID: ${actionId}`,
+          `Replayed as: ${profile?.name ?? identity}`,
+          `Original: ${original.statusCode} (${original.size} bytes)`,
+          `Replay: ${replay.statusCode} (${replay.size} bytes)`,
+          `Reason: ${reason}`,
+        ].join("\n"),
+        dedupeKey: `authz-${request.getHost()}-${actionId}-${identity}`,
+        request: sent.request,
+      });
+    }
+
+    return {
+      identity,
+      profileName: profile?.name,
+      requestId: sent.request.getId(),
+      statusCode: replay.statusCode,
+      responseSize: replay.size,
+      verdict,
+      reason,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return {
+      identity,
+      profileName: profile?.name,
+      requestId: undefined,
+      statusCode: 0,
+      responseSize: 0,
+      verdict: "unclear",
+      reason: `Request failed: ${message}`,
+    };
+  }
+};
+
+const getActionTargets = (actionIds: string[]): string[] =>
+  actionIds.length > 0 ? actionIds : getExecutedActionIds();
+
+const toTestPlan = (targets: PlannedTest[]): TestPlan => ({
+  targets,
+  requestCount: targets.reduce((sum, t) => sum + t.requestCount, 0),
+});
+
+const planActionTests = (
+  actionIds: string[],
+  requestsPerAction: number,
+): PlannedTest[] =>
+  getActionTargets(actionIds).flatMap((actionId) => {
+    const usage = getActionUsages(actionId).at(-1);
+    if (usage === undefined) return [];
+    return [
+      {
+        name: getActionName(actionId) ?? "Unknown",
+        host: usage.host,
+        actionIds: [actionId],
+        requestCount: requestsPerAction,
+      },
+    ];
+  });
+
+const getLowPrivilegeProfile = (): SessionProfile | undefined => {
+  const { lowPrivilegeProfileId } = getAuthzSettings();
+  return lowPrivilegeProfileId !== undefined
+    ? sessionProfilesById[lowPrivilegeProfileId]
+    : undefined;
+};
+
+const testActionAuthorization = async (
+  sdk: SDK<API, BackendEvents>,
+  actionId: string,
+): Promise<AuthzResult | undefined> => {
+  const usages = getActionUsages(actionId);
+  const template =
+    usages
+      .slice()
+      .reverse()
+      .find((u) => u.statusCode >= 200 && u.statusCode < 300) ?? usages.at(-1);
+  if (template === undefined) return undefined;
+
+  const pair = await sdk.requests.get(template.requestId);
+  if (!pair || !pair.response) return undefined;
+
+  const original = snapshotResponse(pair.response);
+  const identities: [AuthzIdentity, SessionProfile | undefined][] = [
+    ["unauthenticated", undefined],
+  ];
+  const lowPrivilegeProfile = getLowPrivilegeProfile();
+  if (lowPrivilegeProfile !== undefined) {
+    identities.push(["low-privilege", lowPrivilegeProfile]);
+  }
+
+  const attempts: AuthzAttempt[] = [];
+  for (const [identity, profile] of identities) {
+    attempts.push(
+      await sendAuthzAttempt(
+        sdk,
+        pair.request,
+        original,
+        identity,
+        profile,
+        actionId,
+      ),
+    );
+  }
+
+  const result: AuthzResult = {
+    actionId,
+    functionName: getActionName(actionId) ?? "Unknown",
+    host: pair.request.getHost(),
+    originalRequestId: pair.request.getId(),
+    originalStatusCode: original.statusCode,
+    originalResponseSize: original.size,
+    verdict: combineAuthzVerdicts(attempts.map((a) => a.verdict)),
+    attempts,
+    testedAt: nowIso(),
+  };
+  authzResultsById[actionId] = result;
+  await saveAuthzResult(result);
+  return result;
+};
+
+const previewAuthzTests = (
+  _sdk: SDK<API, BackendEvents>,
+  actionIds: string[],
+): TestPlan =>
+  toTestPlan(
+    planActionTests(actionIds, getLowPrivilegeProfile() !== undefined ? 2 : 1),
+  );
+
+const runAuthzTests = async (
+  sdk: SDK<API, BackendEvents>,
+  actionIds: string[],
+): Promise<Result<{ tested: number; bypassed: number }>> => {
+  try {
+    const targets = getActionTargets(actionIds);
+    let tested = 0;
+    let bypassed = 0;
+
+    sendStatus(sdk, "Testing authorization...");
+
+    for (const actionId of targets) {
+      const result = await testActionAuthorization(sdk, actionId);
+      if (result === undefined) continue;
+
+      tested += 1;
+      if (result.verdict === "bypassed") bypassed += 1;
+      sendStatus(sdk, `Testing authorization... ${tested}/${targets.length}`);
+    }
+
+    sendStatus(sdk, `Tested ${tested} actions (${bypassed} bypassed)`);
+    sdk.api.send("nextjs-actions.data-changed");
+
+    return { kind: "Ok", value: { tested, bypassed } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendStatus(sdk, "Authorization testing failed");
+    return { kind: "Error", error: message };
+  }
+};
+
+const getAuthzResults = (): AuthzResult[] => {
+  return Object.values(authzResultsById);
+};
+
+const getIdorSettings = (): IdorSettings => {
+  const stored = safeJsonParse(settingsByKey[IDOR_SETTINGS_KEY] ?? "");
+  if (stored === null || typeof stored !== "object") {
+    return DEFAULT_IDOR_SETTINGS;
+  }
+  return { ...DEFAULT_IDOR_SETTINGS, ...(stored as Partial<IdorSettings>) };
+};
+
+const setIdorSettings = async (
+  _sdk: SDK<API, BackendEvents>,
+  settings: IdorSettings,
+): Promise<void> => {
+  const value = JSON.stringify(settings);
+  settingsByKey[IDOR_SETTINGS_KEY] = value;
+  await saveSetting(IDOR_SETTINGS_KEY, value);
+};
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+type IdorCampaignContext = {
+  settings: IdorSettings;
+  historyIds: string[];
+  responseUuids: string[];
+};
+
+type ActionIdorPlan = {
+  request: Request;
+  response: Response;
+  body: string;
+  targets: { candidate: IdorCandidate; variants: IdorVariant[] }[];
+};
+
+const getIdorCampaignContext = (): IdorCampaignContext => {
+  const usages = Object.values(actionUsagesByKey).flat();
+  return {
+    settings: getIdorSettings(),
+    historyIds: collectHistoryIds(usages),
+    responseUuids: collectResponseUuids(usages),
+  };
+};
+
+const planActionIdor = async (
+  sdk: SDK<API, BackendEvents>,
+  actionId: string,
+  context: IdorCampaignContext,
+): Promise<ActionIdorPlan | undefined> => {
+  const template = getActionUsages(actionId)
+    .slice()
+    .reverse()
+    .find((u) => u.statusCode >= 200 && u.statusCode < 300);
+  if (template === undefined) return undefined;
+
+  const pair = await sdk.requests.get(template.requestId);
+  if (!pair || !pair.response) return undefined;
+
+  const body = getTextBody(pair.request.getBody());
+  const candidates = findIdCandidates(
+    findBodyLeaves(pair.request.getHeader("Content-Type")?.[0], body),
+  );
+  if (candidates.length === 0) return undefined;
+
+  return {
+    request: pair.request,
+    response: pair.response,
+    body,
+    targets: candidates.map((candidate) => ({
+      candidate,
+      variants: generateIdVariants(
+        candidate,
+        context.settings,
+        context.historyIds,
+        context.responseUuids,
+      ),
+    })),
+  };
+};
+
+const testActionIdor = async (
+  sdk: SDK<API, BackendEvents>,
+  actionId: string,
+  context: IdorCampaignContext,
+): Promise<IdorResult | undefined> => {
+  const plan = await planActionIdor(sdk, actionId, context);
+  if (plan === undefined) return undefined;
+
+  const { request, body } = plan;
+  const original = snapshotResponse(plan.response);
+  const functionName = getActionName(actionId) ?? "Unknown";
+  const delay = 1000 / Math.max(context.settings.requestsPerSecond, 0.1);
+  const probes: IdorProbe[] = [];
+
+  for (const { candidate, variants } of plan.targets) {
+    for (const variant of variants) {
+      const spec = request.toSpec();
+      spec.setBody(new Body(replaceLeaf(body, candidate.leaf, variant.value)), {
+        updateContentLength: true,
+      });
+
+      const probe: IdorProbe = {
+        path: candidate.path,
+        originalValue: candidate.value,
+        variant: String(variant.value),
+        source: variant.source,
+        requestId: undefined,
+        statusCode: 0,
+        responseSize: 0,
+        outcome: "error",
+        reason: "",
+      };
+
+      try {
+        const sent = await sdk.requests.send(spec);
+        const snapshot = snapshotResponse(sent.response);
+        const { outcome, reason } = classifyIdorProbe(original, snapshot);
+        probe.requestId = sent.request.getId();
+        probe.statusCode = snapshot.statusCode;
+        probe.responseSize = snapshot.size;
+        probe.outcome = outcome;
+        probe.reason = reason;
+
+        if (outcome === "different-data") {
+          await reportFinding(sdk, {
+            severity: "high",
+            title: `Possible IDOR in Next.js Server Action: ${functionName} (${candidate.path})`,
+            description: [
+              "Severity: high",
+              `Action ID: ${actionId}`,
+              `Argument: ${candidate.path}`,
+              `Original value: ${candidate.value}`,
+              `Variant: ${probe.variant} (${variant.source})`,
+              `Original: ${original.statusCode} (${original.size} bytes)`,
+              `Variant: ${snapshot.statusCode} (${snapshot.size} bytes)`,
+              `Reason: ${reason}`,
+            ].join("\n"),
+            dedupeKey: `idor-${request.getHost()}-${actionId}-${candidate.path}`,
+            request: sent.request,
+          });
+        }
+      } catch (error) {
+        probe.reason = error instanceof Error ? error.message : "Unknown error";
+      }
+
+      probes.push(probe);
+      await sleep(delay);
+    }
+  }
+
+  const result: IdorResult = {
+    actionId,
+    functionName,
+    host: request.getHost(),
+    originalRequestId: request.getId(),
+    originalStatusCode: original.statusCode,
+    originalResponseSize: original.size,
+    paths: plan.targets.map((t) => t.candidate.path),
+    probes,
+    verdict: probes.some((p) => p.outcome === "different-data")
+      ? "suspicious"
+      : "clean",
+    testedAt: nowIso(),
+  };
+  idorResultsById[actionId] = result;
+  await saveIdorResult(result);
+  return result;
+};
+
+const previewIdorCampaign = async (
+  sdk: SDK<API, BackendEvents>,
+  actionIds: string[],
+): Promise<Result<IdorCampaignPlan>> => {
+  try {
+    const context = getIdorCampaignContext();
+    const planned: IdorPlannedAction[] = [];
+
+    for (const actionId of getActionTargets(actionIds)) {
+      const plan = await planActionIdor(sdk, actionId, context);
+      if (plan === undefined) continue;
+
+      planned.push({
+        actionId,
+        functionName: getActionName(actionId) ?? "Unknown",
+        host: plan.request.getHost(),
+        paths: plan.targets.map((t) => t.candidate.path),
+        requestCount: plan.targets.reduce(
+          (sum, t) => sum + t.variants.length,
+          0,
+        ),
+      });
+    }
+
+    return {
+      kind: "Ok",
+      value: {
+        actions: planned,
+        requestCount: planned.reduce((sum, a) => sum + a.requestCount, 0),
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { kind: "Error", error: message };
+  }
+};
+
+const runIdorCampaign = async (
+  sdk: SDK<API, BackendEvents>,
+  actionIds: string[],
+): Promise<Result<{ tested: number; suspicious: number }>> => {
+  try {
+    const targets = getActionTargets(actionIds);
+    const context = getIdorCampaignContext();
+    let tested = 0;
+    let suspicious = 0;
+
+    sendStatus(sdk, "Running IDOR campaign...");
+
+    for (const actionId of targets) {
+      const result = await testActionIdor(sdk, actionId, context);
+      if (result === undefined) continue;
+
+      tested += 1;
+      if (result.verdict === "suspicious") suspicious += 1;
+      sendStatus(sdk, `Running IDOR campaign... ${tested}/${targets.length}`);
+    }
+
+    sendStatus(
+      sdk,
+      `IDOR campaign tested ${tested} actions (${suspicious} suspicious)`,
+    );
+    sdk.api.send("nextjs-actions.data-changed");
+
+    return { kind: "Ok", value: { tested, suspicious } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendStatus(sdk, "IDOR campaign failed");
+    return { kind: "Error", error: message };
+  }
+};
+
+const getIdorResults = (): IdorResult[] => {
+  return Object.values(idorResultsById);
+};
+
+const sendFlightProbe = async (
+  sdk: SDK<API, BackendEvents>,
+  spec: RequestSpec,
+  parts: [string, string][],
+) => {
+  const boundary = `----NextActionsAnalyzer${Math.random().toString(36).slice(2, 14)}`;
+  spec.setHeader("Content-Type", `multipart/form-data; boundary=${boundary}`);
+  spec.setBody(new Body(buildFlightMultipartBody(parts, boundary)), {
+    updateContentLength: true,
+  });
+
+  const sent = await sdk.requests.send(spec);
+  return {
+    request: sent.request,
+    statusCode: sent.response.getCode(),
+    elapsedMs: sent.response.getRoundtripTime(),
+    body: getTextBody(sent.response.getBody()),
+  };
+};
+
+const runFlightChecks = async (
+  sdk: SDK<API, BackendEvents>,
+  actionId: string,
+): Promise<Result<FlightCheckResult>> => {
+  try {
+    const template = await buildTestReplaySpec(sdk, actionId);
+    if (template.kind === "Error") return template;
+
+    const functionName = getActionName(actionId) ?? "Unknown";
+    const host = template.value.getHost();
+
+    sendStatus(sdk, "Running Flight deserialization checks...");
+
+    const baseline = await sendFlightProbe(
+      sdk,
+      template.value,
+      FLIGHT_BASELINE_PARTS,
+    );
+    const probes: FlightCheckProbe[] = [];
+
+    for (const payload of FLIGHT_ABUSE_PAYLOADS) {
+      const probe: FlightCheckProbe = {
+        name: payload.name,
+        description: payload.description,
+        requestId: undefined,
+        statusCode: 0,
+        elapsedMs: 0,
+        responseSize: 0,
+        signals: [],
+        suspicious: false,
+      };
+
+      try {
+        const sent = await sendFlightProbe(sdk, template.value, payload.parts);
+        const { signals, suspicious } = classifyFlightProbe(baseline, sent);
+        probe.requestId = sent.request.getId();
+        probe.statusCode = sent.statusCode;
+        probe.elapsedMs = sent.elapsedMs;
+        probe.responseSize = sent.body.length;
+        probe.signals = signals;
+        probe.suspicious = suspicious;
+
+        if (suspicious) {
+          await reportFinding(sdk, {
+            severity: "medium",
+            title: `Flight deserialization anomaly in Next.js Server Action: ${functionName} (${payload.name})`,
+            description: [
+              "Severity: medium",
+              `Action ID: ${actionId}`,
+              `Payload: ${payload.description}`,
+              `Baseline: ${baseline.statusCode} in ${baseline.elapsedMs} ms`,
+              `Probe: ${sent.statusCode} in ${sent.elapsedMs} ms`,
+              `Signals: ${signals.join(", ")}`,
+            ].join("\n"),
+            dedupeKey: `flight-${host}-${actionId}-${payload.name}`,
+            request: sent.request,
+          });
+        }
+      } catch (error) {
+        probe.signals = [
+          error instanceof Error ? error.message : "Unknown error",
+        ];
+      }
+
+      probes.push(probe);
+      sendStatus(
+        sdk,
+        `Running Flight deserialization checks... ${probes.length}/${FLIGHT_ABUSE_PAYLOADS.length}`,
+      );
+    }
+
+    const result: FlightCheckResult = {
+      actionId,
+      functionName,
+      host,
+      baselineRequestId: baseline.request.getId(),
+      baselineStatusCode: baseline.statusCode,
+      baselineElapsedMs: baseline.elapsedMs,
+      probes,
+      verdict: probes.some((p) => p.suspicious) ? "suspicious" : "clean",
+      testedAt: nowIso(),
+    };
+    flightChecksById[actionId] = result;
+    await saveFlightCheckResult(result);
+
+    sendStatus(
+      sdk,
+      `Flight checks sent ${probes.length} payloads (${probes.filter((p) => p.suspicious).length} suspicious)`,
+    );
+    sdk.api.send("nextjs-actions.data-changed");
+
+    return { kind: "Ok", value: result };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendStatus(sdk, "Flight checks failed");
+    return { kind: "Error", error: message };
+  }
+};
+
+const getFlightCheckResults = (): FlightCheckResult[] => {
+  return Object.values(flightChecksById);
+};
+
+const fingerprintVersions = async (
+  sdk: SDK<API, BackendEvents>,
+): Promise<Result<VersionFingerprint[]>> => {
+  try {
+    const found: Record<
+      string,
+      { next?: string; react?: string; requestId?: ID }
+    > = {};
+    let scanned = 0;
+
+    sendStatus(sdk, "Fingerprinting framework versions...");
+
+    await paginateAllRequests(sdk, (page) => {
+      for (const { request, response } of page.items) {
+        if (!response || !isNextChunkRequest(request)) continue;
+
+        const host = request.getHost();
+        const entry = found[host] ?? {};
+        if (entry.next !== undefined && entry.react !== undefined) continue;
+
+        scanned += 1;
+        const versions = extractFrameworkVersions(
+          getTextBody(response.getBody()),
+        );
+        if (versions.next === undefined && versions.react === undefined) {
+          continue;
+        }
+
+        entry.next ??= versions.next;
+        entry.react ??= versions.react;
+        entry.requestId ??= request.getId();
+        found[host] = entry;
+      }
+
+      sendStatus(sdk, `Fingerprinting framework versions... ${scanned}`);
+    });
+
+    const fingerprints: VersionFingerprint[] = [];
+    for (const [host, entry] of Object.entries(found)) {
+      const fingerprint: VersionFingerprint = {
+        host,
+        nextVersion: entry.next,
+        reactVersion: entry.react,
+        sourceRequestId: entry.requestId,
+        advisories: [
+          ...findAdvisories("next", entry.next),
+          ...findAdvisories("react", entry.react),
+        ],
+        fingerprintedAt: nowIso(),
+      };
+      versionFingerprintsByHost[host] = fingerprint;
+      await saveVersionFingerprint(fingerprint);
+      fingerprints.push(fingerprint);
+
+      const source =
+        entry.requestId !== undefined
+          ? await sdk.requests.get(entry.requestId)
+          : undefined;
+      if (!source) continue;
+
+      for (const advisory of fingerprint.advisories) {
+        const version =
+          advisory.packageName === "next" ? entry.next : entry.react;
+        await reportFinding(sdk, {
+          severity: advisory.severity,
+          title: `Vulnerable ${advisory.packageName} version ${version ?? ""}: ${advisory.id}`,
+          description: [
+            `Severity: ${advisory.severity}`,
+            `Host: ${host}`,
+            `Advisory: ${advisory.id}`,
+            advisory.title,
+            `Detected version: ${version ?? "Unknown"}`,
+            `Fixed in: ${advisory.fixedIn}`,
+          ].join("\n"),
+          dedupeKey: `advisory-${host}-${advisory.id}`,
+          request: source.request,
+        });
+      }
+    }
+
+    const vulnerable = fingerprints.filter((f) => f.advisories.length > 0);
+    sendStatus(
+      sdk,
+      `Fingerprinted ${fingerprints.length} hosts (${vulnerable.length} with known advisories)`,
+    );
+    sdk.api.send("nextjs-actions.data-changed");
+
+    return { kind: "Ok", value: fingerprints };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendStatus(sdk, "Version fingerprinting failed");
+    return { kind: "Error", error: message };
+  }
+};
+
+const getVersionFingerprints = (): VersionFingerprint[] => {
+  return Object.values(versionFingerprintsByHost);
+};
+
+const scanChunkIntelligence = async (
+  sdk: SDK<API, BackendEvents>,
+): Promise<Result<{ scannedChunks: number; items: number }>> => {
+  try {
+    const chunkUrlsByKey: Record<string, Set<string>> = {};
+    let scannedChunks = 0;
+
+    sendStatus(sdk, "Scanning chunks for secrets and endpoints...");
+
+    await paginateAllRequests(sdk, (page) => {
+      for (const { request, response } of page.items) {
+        if (!response || !isNextChunkRequest(request)) continue;
+
+        scannedChunks += 1;
+        const host = request.getHost();
+        const chunkUrl = request.getUrl().split("?")[0] ?? request.getUrl();
+        const matches = extractChunkIntelligence(
+          getTextBody(response.getBody()),
+        );
+
+        for (const match of matches) {
+          const key = `${host}|${match.kind}|${match.name}|${match.value}`;
+          const chunkUrls = chunkUrlsByKey[key] ?? new Set<string>();
+          chunkUrls.add(chunkUrl);
+          chunkUrlsByKey[key] = chunkUrls;
+
+          const existing = chunkIntelByKey[key];
+          chunkIntelByKey[key] =
+            existing !== undefined
+              ? {
+                  ...existing,
+                  chunkCount: Math.max(existing.chunkCount, chunkUrls.size),
+                }
+              : {
+                  host,
+                  ...match,
+                  chunkUrl,
+                  chunkRequestId: request.getId(),
+                  chunkCount: chunkUrls.size,
+                  firstSeen: nowIso(),
+                };
+        }
+      }
+
+      sendStatus(
+        sdk,
+        `Scanning chunks for secrets and endpoints... ${scannedChunks}`,
+      );
+    });
+
+    for (const key of Object.keys(chunkUrlsByKey)) {
+      const item = chunkIntelByKey[key];
+      if (item === undefined) continue;
+      await saveChunkIntelItem(key, item);
+
+      if (item.kind !== "secret") continue;
+      if (!getFindingSettings().autoReportSeverities.includes(item.severity)) {
+        continue;
+      }
+
+      const source = await sdk.requests.get(item.chunkRequestId);
+      if (!source) continue;
+
+      await reportFinding(sdk, {
+        severity: item.severity,
+        title: `${item.name} exposed in Next.js chunk on ${item.host}`,
+        description: [
+          `Severity: ${item.severity}`,
+          `Chunk: ${item.chunkUrl}`,
+          `Value: ${item.value}`,
+          `Seen in ${item.chunkCount} chunk(s)`,
+        ].join("\n"),
+        dedupeKey: `chunk-secret-${item.host}-${item.value.slice(0, 64)}`,
+        request: source.request,
+      });
+    }
+
+    const items = Object.keys(chunkUrlsByKey).length;
+    sendStatus(
+      sdk,
+      `Chunk intelligence: ${items} items from ${scannedChunks} chunks`,
+    );
+    sdk.api.send("nextjs-actions.data-changed");
+
+    return { kind: "Ok", value: { scannedChunks, items } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendStatus(sdk, "Chunk intelligence scan failed");
+    return { kind: "Error", error: message };
+  }
+};
+
+const getChunkIntelligence = (): ChunkIntelItem[] => {
+  return Object.values(chunkIntelByKey);
+};
+
+type RouteVisit = {
+  host: string;
+  path: string;
+  kind: RouteInventoryEntry["kind"];
+  chunks: string[];
+  requestId: ID;
+};
+
+const getRouteVisit = (
+  request: Request,
+  response: Response,
+): RouteVisit | undefined => {
+  if (request.getMethod().toUpperCase() !== "GET") return undefined;
+  if (response.getCode() >= 400) return undefined;
+
+  const visit = {
+    host: request.getHost(),
+    path: request.getPath(),
+    requestId: request.getId(),
+  };
+
+  const dataPath = visit.path.match(/^\/_next\/data\/[^/]+(\/.*)\.json$/)?.[1];
+  if (dataPath !== undefined) {
+    return {
+      ...visit,
+      path: dataPath.replace(/\/index$/, "") || "/",
+      kind: "page",
+      chunks: [],
+    };
+  }
+
+  const contentType = response.getHeader("Content-Type")?.[0]?.toLowerCase();
+  const body = getTextBody(response.getBody());
+  if (contentType?.includes("text/html") === true) {
+    const isApp = body.includes("__next_f");
+    if (!isApp && !body.includes("__NEXT_DATA__")) return undefined;
+    return {
+      ...visit,
+      kind: isApp ? "app" : "page",
+      chunks: extractPageChunks(body),
+    };
+  }
+
+  if (!isRscNavigationRequest(request)) return undefined;
+  if (!isRscResponse(contentType, body)) return undefined;
+  return { ...visit, kind: "app", chunks: extractPageChunks(body) };
+};
+
+const buildRouteInventory = async (
+  sdk: SDK<API, BackendEvents>,
+): Promise<Result<{ routes: number; unvisited: number }>> => {
+  try {
+    const entries: Record<string, RouteInventoryEntry> = {};
+    const ssgKeys = new Set<string>();
+    const visits: RouteVisit[] = [];
+    let scanned = 0;
+
+    const addRoute = (
+      host: string,
+      route: string,
+      kind: RouteInventoryEntry["kind"],
+      source: RouteSource,
+      chunks: string[],
+      requestId: ID,
+    ) => {
+      const key = `${host}|${route}`;
+      const existing = entries[key];
+      entries[key] = {
+        host,
+        route,
+        kind: existing?.kind ?? kind,
+        dynamic: isDynamicRoute(route),
+        ssg: false,
+        sources: [...new Set([...(existing?.sources ?? []), source])],
+        chunks: [...new Set([...(existing?.chunks ?? []), ...chunks])],
+        actions: [],
+        visitCount: existing?.visitCount ?? 0,
+        lastVisitRequestId: existing?.lastVisitRequestId,
+        sourceRequestId: existing?.sourceRequestId ?? requestId,
+        updatedAt: nowIso(),
+      };
+    };
+
+    sendStatus(sdk, "Building route inventory...");
+
+    await paginateAllRequests(sdk, (page) => {
+      for (const { request, response } of page.items) {
+        if (!response) continue;
+
+        scanned += 1;
+        const host = request.getHost();
+        const path = request.getPath();
+        const requestId = request.getId();
+
+        if (path.endsWith("/_buildManifest.js")) {
+          const body = getTextBody(response.getBody());
+          for (const { route, chunks } of parseBuildManifest(body)) {
+            addRoute(host, route, "page", "build-manifest", chunks, requestId);
+          }
+          continue;
+        }
+
+        if (path.endsWith("/_ssgManifest.js")) {
+          const body = getTextBody(response.getBody());
+          for (const route of parseSsgManifest(body)) {
+            ssgKeys.add(`${host}|${route}`);
+            addRoute(host, route, "page", "ssg-manifest", [], requestId);
+          }
+          continue;
+        }
+
+        if (path.includes("app-build-manifest")) {
+          const body = getTextBody(response.getBody());
+          for (const { route, chunks } of parseAppBuildManifest(body)) {
+            addRoute(
+              host,
+              route,
+              "app",
+              "app-build-manifest",
+              chunks,
+              requestId,
+            );
+          }
+          continue;
+        }
+
+        if (isNextChunkRequest(request)) {
+          const chunkRoute = getChunkRoute(path);
+          if (chunkRoute === undefined) continue;
+          addRoute(
+            host,
+            chunkRoute.route,
+            chunkRoute.kind,
+            "chunk-path",
+            [path.replace(/^.*?\/_next\//, "")],
+            requestId,
+          );
+          continue;
+        }
+
+        const visit = getRouteVisit(request, response);
+        if (visit !== undefined) visits.push(visit);
+      }
+
+      sendStatus(sdk, `Building route inventory... ${scanned}`);
+    });
+
+    const routesByHost: Record<string, string[]> = {};
+    for (const entry of Object.values(entries)) {
+      routesByHost[entry.host] = [
+        ...(routesByHost[entry.host] ?? []),
+        entry.route,
+      ];
+    }
+
+    const findRoute = (host: string, path: string) =>
+      findMatchingRoute(routesByHost[host] ?? [], path);
+
+    for (const visit of visits) {
+      let route = findRoute(visit.host, visit.path);
+      if (route === undefined) {
+        route = visit.path.replace(/(.)\/$/, "$1");
+        addRoute(
+          visit.host,
+          route,
+          visit.kind,
+          "page-payload",
+          [],
+          visit.requestId,
+        );
+        routesByHost[visit.host] = [...(routesByHost[visit.host] ?? []), route];
+      }
+
+      const entry = entries[`${visit.host}|${route}`];
+      if (entry === undefined) continue;
+      entry.chunks = [...new Set([...entry.chunks, ...visit.chunks])];
+      entry.visitCount += 1;
+      entry.lastVisitRequestId = visit.requestId;
+    }
+
+    const actionIdsByKey: Record<string, Set<string>> = {};
+    const linkAction = (host: string, path: string, actionId: string) => {
+      const route = findRoute(host, path);
+      if (route === undefined) return;
+      const key = `${host}|${route}`;
+      actionIdsByKey[key] = (actionIdsByKey[key] ?? new Set()).add(actionId);
+    };
+
+    for (const discovered of Object.values(discoveredActionsByKey)) {
+      if (discovered.pageUrl === undefined) continue;
+      linkAction(
+        discovered.host,
+        getUrlPath(discovered.pageUrl),
+        discovered.actionId,
+      );
+    }
+    for (const [key, usages] of Object.entries(actionUsagesByKey)) {
+      const { actionId } = parseActionKey(key);
+      for (const usage of usages) {
+        linkAction(usage.host, getUrlPath(usage.url), actionId);
+      }
+    }
+
+    let unvisited = 0;
+    for (const [key, entry] of Object.entries(entries)) {
+      const chunkNames = new Set(entry.chunks.map(getChunkName));
+      const actionIds = actionIdsByKey[key] ?? new Set<string>();
+      for (const discovered of Object.values(discoveredActionsByKey)) {
+        if (discovered.host !== entry.host) continue;
+        if (!chunkNames.has(getChunkName(discovered.chunkFile))) continue;
+        actionIds.add(discovered.actionId);
+      }
+
+      entry.actions = [...actionIds].map((actionId) => ({
+        actionId,
+        functionName: getActionName(actionId, entry.host) ?? "Unknown",
+      }));
+      entry.ssg = ssgKeys.has(key);
+      if (entry.visitCount === 0) unvisited += 1;
+
+      routeInventoryByKey[key] = entry;
+      await saveRouteInventoryEntry(key, entry);
+    }
+
+    const routes = Object.keys(entries).length;
+    sendStatus(sdk, `Found ${routes} routes (${unvisited} not yet visited)`);
+    sdk.api.send("nextjs-actions.data-changed");
+
+    return { kind: "Ok", value: { routes, unvisited } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendStatus(sdk, "Building route inventory failed");
+    return { kind: "Error", error: message };
+  }
+};
+
+const getRouteInventory = (): RouteInventoryEntry[] => {
+  return Object.values(routeInventoryByKey);
+};
+
+const sendOriginAttempt = async (
+  sdk: SDK<API, BackendEvents>,
+  request: Request,
+  original: ResponseSnapshot,
+  variant: OriginVariant,
+  actionId: string,
+): Promise<OriginAttempt> => {
+  const spec = request.toSpec();
+  applyOriginVariant(spec, variant);
+  const description = describeOriginVariant(variant);
+
+  try {
+    const sent = await sdk.requests.send(spec);
+    const replay = snapshotResponse(sent.response);
+    const { outcome, reason } = classifyOriginAttempt(original, replay);
+
+    if (outcome === "accepted" && isCrossOriginVariant(variant)) {
+      const functionName = getActionName(actionId) ?? "Unknown";
+      await reportFinding(sdk, {
+        severity: "medium",
+        title: `Next.js Server Action accepts cross-origin call (${variant}): ${functionName}`,
+        description: [
+          "Severity: medium",
+          `Action ID: ${actionId}`,
+          `Variant: ${description}`,
+          `Origin sent: ${spec.getHeader("Origin")?.[0] ?? "None"}`,
+          `Original: ${original.statusCode} (${original.size} bytes)`,
+          `Replay: ${replay.statusCode} (${replay.size} bytes)`,
+          `Reason: ${reason}`,
+        ].join("\n"),
+        dedupeKey: `origin-${request.getHost()}-${actionId}-${variant}`,
+        request: sent.request,
+      });
+    }
+
+    return {
+      variant,
+      description,
+      requestId: sent.request.getId(),
+      statusCode: replay.statusCode,
+      responseSize: replay.size,
+      outcome,
+      reason,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return {
+      variant,
+      description,
+      requestId: undefined,
+      statusCode: 0,
+      responseSize: 0,
+      outcome: "unclear",
+      reason: `Request failed: ${message}`,
+    };
+  }
+};
+
+const testActionOrigin = async (
+  sdk: SDK<API, BackendEvents>,
+  actionId: string,
+): Promise<OriginResult | undefined> => {
+  const usages = getActionUsages(actionId);
+  const template =
+    usages
+      .slice()
+      .reverse()
+      .find((u) => u.statusCode >= 200 && u.statusCode < 300) ?? usages.at(-1);
+  if (template === undefined) return undefined;
+
+  const pair = await sdk.requests.get(template.requestId);
+  if (!pair || !pair.response) return undefined;
+
+  const original = snapshotResponse(pair.response);
+  const attempts: OriginAttempt[] = [];
+  for (const variant of ORIGIN_VARIANTS) {
+    attempts.push(
+      await sendOriginAttempt(sdk, pair.request, original, variant, actionId),
+    );
+  }
 
-        const chunkFile = request.getPath().split("/").pop() ?? "Unknown";
+  const crossOrigin = attempts.filter((a) => isCrossOriginVariant(a.variant));
+  const verdict = crossOrigin.some((a) => a.outcome === "accepted")
+    ? "cross-origin-accepted"
+    : crossOrigin.every((a) => a.outcome === "rejected")
+      ? "enforced"
+      : "unclear";
 
-        for (const pattern of patterns) {
-          for (const match of body.matchAll(pattern)) {
-            const actionId = match[1];
-            const functionName = match[2];
-            if (actionId === undefined || actionId === "") continue;
-            if (functionName === undefined || functionName === "") continue;
+  const result: OriginResult = {
+    actionId,
+    functionName: getActionName(actionId) ?? "Unknown",
+    host: pair.request.getHost(),
+    originalRequestId: pair.request.getId(),
+    originalStatusCode: original.statusCode,
+    originalResponseSize: original.size,
+    attempts,
+    verdict,
+    testedAt: nowIso(),
+  };
+  originResultsById[actionId] = result;
+  await saveOriginResult(result);
+  return result;
+};
 
-            if (functionName.startsWith("$") || functionName.startsWith("_"))
-              continue;
+const previewOriginTests = (
+  _sdk: SDK<API, BackendEvents>,
+  actionIds: string[],
+): TestPlan => toTestPlan(planActionTests(actionIds, ORIGIN_VARIANTS.length));
 
-            const existing = discoveredActionsById[actionId];
-            if (existing !== undefined) continue;
+const runOriginTests = async (
+  sdk: SDK<API, BackendEvents>,
+  actionIds: string[],
+): Promise<Result<{ tested: number; accepted: number }>> => {
+  try {
+    const targets = getActionTargets(actionIds);
+    let tested = 0;
+    let accepted = 0;
+
+    sendStatus(sdk, "Testing Origin enforcement...");
+
+    for (const actionId of targets) {
+      const result = await testActionOrigin(sdk, actionId);
+      if (result === undefined) continue;
+
+      tested += 1;
+      if (result.verdict === "cross-origin-accepted") accepted += 1;
+      sendStatus(
+        sdk,
+        `Testing Origin enforcement... ${tested}/${targets.length}`,
+      );
+    }
 
-            const firstSeen = nowIso();
-            discoveredActionsById[actionId] = {
-              actionId,
-              functionName,
-              chunkFile,
-              firstSeen,
-              chunkRequestId: request.getId(),
-            };
+    sendStatus(
+      sdk,
+      `Tested ${tested} actions (${accepted} accept cross-origin calls)`,
+    );
+    sdk.api.send("nextjs-actions.data-changed");
 
-            const existingName = actionNamesById[actionId];
-            if (existingName === undefined) {
-              actionNamesById[actionId] = functionName;
-              ensureActionNotes(actionId);
-            }
-          }
-        }
-      }
+    return { kind: "Ok", value: { tested, accepted } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendStatus(sdk, "Origin testing failed");
+    return { kind: "Error", error: message };
+  }
+};
 
-      sendStatus(sdk, `Scanning chunks... ${chunksFound}`);
-    });
+const getOriginResults = (): OriginResult[] => {
+  return Object.values(originResultsById);
+};
 
-    const executedActionIds = new Set(actions.map((a) => a.actionId));
-    const executedFunctionNames = new Set(
-      [...executedActionIds]
-        .map((id) => actionNamesById[id])
-        .filter((v): v is string => Boolean(v)),
-    );
+const getRaceSettings = (): RaceSettings => {
+  const stored = safeJsonParse(settingsByKey[RACE_SETTINGS_KEY] ?? "");
+  if (stored === null || typeof stored !== "object") {
+    return DEFAULT_RACE_SETTINGS;
+  }
+  return { ...DEFAULT_RACE_SETTINGS, ...(stored as Partial<RaceSettings>) };
+};
 
-    const allRows: DiscoveredAction[] = [];
-    const unusedRows: DiscoveredAction[] = [];
+const setRaceSettings = async (
+  _sdk: SDK<API, BackendEvents>,
+  settings: RaceSettings,
+): Promise<void> => {
+  const value = JSON.stringify(settings);
+  settingsByKey[RACE_SETTINGS_KEY] = value;
+  await saveSetting(RACE_SETTINGS_KEY, value);
+};
 
-    for (const discovered of Object.values(discoveredActionsById)) {
-      const executedCount = actionUsagesById[discovered.actionId]?.length ?? 0;
-      const notes = actionNotesById[discovered.actionId] ?? "";
+const sendRaceCopy = async (
+  sdk: SDK<API, BackendEvents>,
+  request: Request,
+  index: number,
+  startedAt: number,
+): Promise<RaceCopy> => {
+  const copy: RaceCopy = {
+    index,
+    requestId: undefined,
+    statusCode: 0,
+    responseSize: 0,
+    startOffsetMs: Date.now() - startedAt,
+    elapsedMs: 0,
+    returnValue: undefined,
+    error: undefined,
+  };
 
-      let status = "Unused";
-      if (executedActionIds.has(discovered.actionId)) {
-        status = "Executed";
-      } else if (executedFunctionNames.has(discovered.functionName)) {
-        status = "Unused (Function executed with different ID)";
-      } else {
-        status = "Never Executed";
-      }
+  try {
+    const sent = await sdk.requests.send(request.toSpec());
+    const snapshot = snapshotResponse(sent.response);
+    copy.requestId = sent.request.getId();
+    copy.statusCode = snapshot.statusCode;
+    copy.responseSize = snapshot.size;
+    copy.elapsedMs = sent.response.getRoundtripTime();
+    copy.returnValue = snapshot.returnValue;
+    copy.error = snapshot.errors[0];
+  } catch (error) {
+    copy.error = error instanceof Error ? error.message : "Unknown error";
+  }
 
-      const row: DiscoveredAction = {
-        actionId: discovered.actionId,
-        functionName: discovered.functionName,
-        status,
-        chunkFile: discovered.chunkFile,
-        executedCount,
-        notes,
-      };
+  return copy;
+};
 
-      allRows.push(row);
-      if (status === "Never Executed") {
-        unusedRows.push(row);
-      }
+const runRaceTest = async (
+  sdk: SDK<API, BackendEvents>,
+  requestId: string,
+): Promise<Result<RaceResult>> => {
+  try {
+    const pair = await sdk.requests.get(requestId);
+    if (!pair) {
+      return { kind: "Error", error: "Request not found" };
     }
 
-    const unknownRows: DiscoveredAction[] = [];
-    for (const executedId of executedActionIds) {
-      if (discoveredActionsById[executedId]) continue;
-      unknownRows.push({
-        actionId: executedId,
-        functionName: actionNamesById[executedId] ?? "Unknown",
-        status: "Executed (No source found)",
-        chunkFile: "Not found",
-        executedCount: actionUsagesById[executedId]?.length ?? 0,
-        notes: actionNotesById[executedId] ?? "",
-      });
+    const actionId = getActionIdFromRequest(pair.request);
+    if (actionId === undefined) {
+      return { kind: "Error", error: "Request is not a Server Action call" };
     }
 
-    const status = `Found ${allRows.length} actions (${unusedRows.length} unused)`;
-    sendStatus(sdk, status);
+    const count = Math.min(
+      Math.max(Math.round(getRaceSettings().copies), 2),
+      MAX_RACE_COPIES,
+    );
+    sendStatus(sdk, `Racing ${count} parallel copies...`);
 
-    sdk.api.send("nextjs-actions.data-changed");
+    const startedAt = Date.now();
+    const copies = await Promise.all(
+      Array.from({ length: count }, (_, index) =>
+        sendRaceCopy(sdk, pair.request, index + 1, startedAt),
+      ),
+    );
 
-    return {
-      kind: "Ok",
-      value: {
-        status,
-        all: allRows,
-        unused: unusedRows,
-        unknown: unknownRows,
-      },
+    const result: RaceResult = {
+      actionId,
+      functionName: getActionName(actionId) ?? "Unknown",
+      host: pair.request.getHost(),
+      templateRequestId: pair.request.getId(),
+      copies,
+      groups: groupRaceCopies(copies),
+      totalMs: Date.now() - startedAt,
+      testedAt: nowIso(),
     };
+    raceResultsById[actionId] = result;
+    await saveRaceResult(result);
+
+    sendStatus(
+      sdk,
+      `Raced ${count} copies in ${result.totalMs} ms (${result.groups.length} unique responses)`,
+    );
+    sdk.api.send("nextjs-actions.data-changed");
+
+    return { kind: "Ok", value: result };
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
-    sendStatus(sdk, "Discovery failed");
+    sendStatus(sdk, "Race test failed");
     return { kind: "Error", error: message };
   }
 };
 
-const getActions = (): ActionEntry[] => {
-  return actions;
+const getRaceResults = (): RaceResult[] => {
+  return Object.values(raceResultsById);
 };
 
-const getChunkRequestIdForAction = (
-  _sdk: SDK<API, BackendEvents>,
-  actionId: string,
-): Result<{ requestId: ID }> => {
-  const discovered = discoveredActionsById[actionId];
-  if (!discovered) {
-    return { kind: "Error", error: "No chunk request found for action" };
-  }
+const describeActions = (actionIds: string[]) =>
+  actionIds.map((id) => `${getActionName(id) ?? "Unknown"} (${id})`);
 
-  return { kind: "Ok", value: { requestId: discovered.chunkRequestId } };
-};
+const testMiddlewareRoute = async (
+  sdk: SDK<API, BackendEvents>,
+  key: string,
+  kind: "action" | "page",
+  template: Request,
+  actionIds: string[],
+): Promise<MiddlewareRouteResult> => {
+  const host = template.getHost();
+  const path = template.getPath();
+  const prepareSpec = (withCredentials: boolean) => {
+    const spec = template.toSpec();
+    for (const name of CONDITIONAL_HEADERS) spec.removeHeader(name);
+    if (!withCredentials) stripCredentials(spec);
+    return spec;
+  };
 
-const getDiscovery = (): DiscoveryResult => {
-  const executedActionIds = new Set(actions.map((a) => a.actionId));
-  const executedFunctionNames = new Set(
-    [...executedActionIds]
-      .map((id) => actionNamesById[id])
-      .filter((v): v is string => Boolean(v)),
+  const original = await sdk.requests.send(prepareSpec(true));
+  const originalSnapshot = snapshotResponse(original.response);
+  const baseline = await sdk.requests.send(prepareSpec(false));
+  const baselineSnapshot = snapshotResponse(baseline.response);
+  const baselineVerdict = classifyMiddlewareBaseline(
+    originalSnapshot,
+    baselineSnapshot,
   );
 
-  const all: DiscoveredAction[] = [];
-  const unused: DiscoveredAction[] = [];
-  const unknown: DiscoveredAction[] = [];
-
-  for (const discovered of Object.values(discoveredActionsById)) {
-    const executedCount = actionUsagesById[discovered.actionId]?.length ?? 0;
-    const notes = actionNotesById[discovered.actionId] ?? "";
-
-    let status = "Unused";
-    if (executedActionIds.has(discovered.actionId)) {
-      status = "Executed";
-    } else if (executedFunctionNames.has(discovered.functionName)) {
-      status = "Unused (Function executed with different ID)";
-    } else {
-      status = "Never Executed";
-    }
+  const attempts: MiddlewareBypassAttempt[] = [];
+  if (baselineVerdict === "protected") {
+    for (const variant of MIDDLEWARE_BYPASS_VARIANTS) {
+      const spec = prepareSpec(false);
+      if (!applyBypassVariant(spec, variant)) continue;
+
+      const attempt: MiddlewareBypassAttempt = {
+        variant: variant.name,
+        description: variant.description,
+        requestId: undefined,
+        statusCode: 0,
+        responseSize: 0,
+        outcome: "unclear",
+        reason: "",
+      };
 
-    const row: DiscoveredAction = {
-      actionId: discovered.actionId,
-      functionName: discovered.functionName,
-      status,
-      chunkFile: discovered.chunkFile,
-      executedCount,
-      notes,
-    };
+      try {
+        const sent = await sdk.requests.send(spec);
+        const snapshot = snapshotResponse(sent.response);
+        const { outcome, reason } = classifyBypassAttempt(
+          originalSnapshot,
+          snapshot,
+        );
+        attempt.requestId = sent.request.getId();
+        attempt.statusCode = snapshot.statusCode;
+        attempt.responseSize = snapshot.size;
+        attempt.outcome = outcome;
+        attempt.reason = reason;
+
+        if (outcome === "bypassed") {
+          await reportFinding(sdk, {
+            severity: "high",
+            title: `Next.js middleware bypass (${variant.name}) on ${kind} ${path}`,
+            description: [
+              "Severity: high",
+              `Host: ${host}`,
+              `Route: ${path} (${kind})`,
+              `Variant: ${variant.description}`,
+              `Affected actions: ${describeActions(actionIds).join(", ")}`,
+              `Authenticated: ${originalSnapshot.statusCode} (${originalSnapshot.size} bytes)`,
+              `Unauthenticated: ${baselineSnapshot.statusCode} (${baselineSnapshot.size} bytes)`,
+              `Bypass: ${snapshot.statusCode} (${snapshot.size} bytes)`,
+              `Reason: ${reason}`,
+            ].join("\n"),
+            dedupeKey: `middleware-${host}-${kind}-${path}-${variant.name}`,
+            request: sent.request,
+          });
+        }
+      } catch (error) {
+        attempt.reason = `Request failed: ${error instanceof Error ? error.message : "Unknown error"}`;
+      }
 
-    all.push(row);
-    if (status === "Never Executed") {
-      unused.push(row);
+      attempts.push(attempt);
     }
   }
 
-  for (const executedId of executedActionIds) {
-    if (discoveredActionsById[executedId]) continue;
-    unknown.push({
-      actionId: executedId,
-      functionName: actionNamesById[executedId] ?? "Unknown",
-      status: "Executed (No source found)",
-      chunkFile: "Not found",
-      executedCount: actionUsagesById[executedId]?.length ?? 0,
-      notes: actionNotesById[executedId] ?? "",
-    });
-  }
-
-  return {
-    status: "",
-    all,
-    unused,
-    unknown,
+  const result: MiddlewareRouteResult = {
+    key,
+    host,
+    path,
+    kind,
+    actionIds,
+    originalRequestId: original.request.getId(),
+    originalStatusCode: originalSnapshot.statusCode,
+    originalResponseSize: originalSnapshot.size,
+    baselineRequestId: baseline.request.getId(),
+    baselineStatusCode: baselineSnapshot.statusCode,
+    verdict: attempts.some((a) => a.outcome === "bypassed")
+      ? "bypassed"
+      : baselineVerdict,
+    attempts,
+    testedAt: nowIso(),
   };
+  middlewareResultsByKey[key] = result;
+  await saveMiddlewareResult(result);
+  return result;
 };
 
-const clearAll = (sdk: SDK<API, BackendEvents>): void => {
-  actions = [];
-  actionUsagesById = {};
-  seenRequestIds = new Set<string>();
-  sendStatus(sdk, "Cleared");
-  sdk.api.send("nextjs-actions.data-changed");
+type MiddlewareRoute = {
+  host: string;
+  path: string;
+  requestId: ID;
+  actionIds: string[];
 };
 
-const setActionNote = (
-  sdk: SDK<API, BackendEvents>,
-  actionId: string,
-  note: string,
-): void => {
-  actionNotesById[actionId] = note;
+const groupMiddlewareRoutes = (
+  actionIds: string[],
+): Map<string, MiddlewareRoute> => {
+  const routes = new Map<string, MiddlewareRoute>();
 
-  actions = actions.map((a) => {
-    if (a.actionId !== actionId) return a;
-    return { ...a, actionNotes: note };
-  });
+  for (const actionId of getActionTargets(actionIds)) {
+    const usages = getActionUsages(actionId);
+    const usage =
+      usages
+        .slice()
+        .reverse()
+        .find((u) => u.statusCode >= 200 && u.statusCode < 300) ??
+      usages.at(-1);
+    if (usage === undefined) continue;
+
+    const path = getUrlPath(usage.url);
+    const routeKey = `${usage.host}|${path}`;
+    const route = routes.get(routeKey);
+    if (route !== undefined) {
+      route.actionIds.push(actionId);
+      continue;
+    }
+    routes.set(routeKey, {
+      host: usage.host,
+      path,
+      requestId: usage.requestId,
+      actionIds: [actionId],
+    });
+  }
 
-  sdk.api.send("nextjs-actions.data-changed");
+  return routes;
 };
 
-const getRequestResponseRaw = async (
+const findMiddlewarePage = (
   sdk: SDK<API, BackendEvents>,
-  requestId: ID,
-): Promise<Result<{ requestRaw: string; responseRaw: string }>> => {
+  route: MiddlewareRoute,
+): Promise<Request | undefined> =>
+  findLatestRequest(
+    sdk,
+    `req.host.eq:"${escapeHttpqlString(route.host)}" AND req.path.eq:"${escapeHttpqlString(route.path)}" AND req.method.eq:"GET"`,
+  );
+
+const previewMiddlewareBypassTests = async (
+  sdk: SDK<API, BackendEvents>,
+  actionIds: string[],
+): Promise<Result<TestPlan>> => {
   try {
-    const pair = await sdk.requests.get(requestId);
-    if (!pair || !pair.response) {
-      return { kind: "Error", error: "Request/response not found" };
+    // Each template gets an authenticated and an unauthenticated baseline,
+    // then every variant if the baseline shows the route is protected.
+    const perTemplate = 2 + MIDDLEWARE_BYPASS_VARIANTS.length;
+    const targets: PlannedTest[] = [];
+
+    for (const route of groupMiddlewareRoutes(actionIds).values()) {
+      const page = await findMiddlewarePage(sdk, route);
+      targets.push({
+        name: route.path,
+        host: route.host,
+        actionIds: route.actionIds,
+        requestCount: perTemplate * (page !== undefined ? 2 : 1),
+      });
     }
 
-    return {
-      kind: "Ok",
-      value: {
-        requestRaw: pair.request.getRaw().toText(),
-        responseRaw: pair.response.getRaw().toText(),
-      },
-    };
+    return { kind: "Ok", value: toTestPlan(targets) };
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
     return { kind: "Error", error: message };
   }
 };
 
-const analyzeRequestsById = async (
+const runMiddlewareBypassTests = async (
   sdk: SDK<API, BackendEvents>,
-  requestIds: ID[],
-): Promise<Result<{ analyzed: number; found: number }>> => {
+  actionIds: string[],
+): Promise<Result<{ tested: number; bypassed: number }>> => {
   try {
-    let analyzed = 0;
-    let found = 0;
-
-    for (const id of requestIds) {
-      const pair = await sdk.requests.get(id);
-      analyzed += 1;
-      if (!pair || !pair.response) continue;
-
-      const actionId = getNextActionIdFromRequest(pair.request);
-      if (actionId === undefined) continue;
-
-      found += 1;
-      addActionEntry(sdk, pair.request, pair.response, actionId);
+    const routes = groupMiddlewareRoutes(actionIds);
+    let tested = 0;
+    let bypassed = 0;
+
+    sendStatus(sdk, "Probing middleware bypasses...");
+
+    for (const [routeKey, route] of routes) {
+      const templates: ["action" | "page", Request | undefined][] = [
+        ["action", (await sdk.requests.get(route.requestId))?.request],
+        ["page", await findMiddlewarePage(sdk, route)],
+      ];
+
+      for (const [kind, template] of templates) {
+        if (template === undefined) continue;
+
+        const result = await testMiddlewareRoute(
+          sdk,
+          `${kind}|${routeKey}`,
+          kind,
+          template,
+          route.actionIds,
+        );
+        tested += 1;
+        if (result.verdict === "bypassed") bypassed += 1;
+        sendStatus(
+          sdk,
+          `Probing middleware bypasses... ${tested}/${routes.size * 2}`,
+        );
+      }
     }
 
+    sendStatus(sdk, `Probed ${tested} routes (${bypassed} bypassed)`);
     sdk.api.send("nextjs-actions.data-changed");
 
-    return { kind: "Ok", value: { analyzed, found } };
+    return { kind: "Ok", value: { tested, bypassed } };
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
+    sendStatus(sdk, "Middleware bypass probing failed");
     return { kind: "Error", error: message };
   }
 };
 
-const lookupActionForRequest = async (
+const getMiddlewareResults = (): MiddlewareRouteResult[] => {
+  return Object.values(middlewareResultsByKey);
+};
+
+const createProfileId = () =>
+  `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const getSessionProfiles = (): SessionProfile[] => {
+  return Object.values(sessionProfilesById).sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+};
+
+const setSessionProfile = async (
+  sdk: SDK<API, BackendEvents>,
+  profile: SessionProfile,
+): Promise<SessionProfile> => {
+  const saved: SessionProfile = {
+    ...profile,
+    id: profile.id !== "" ? profile.id : createProfileId(),
+    updatedAt: nowIso(),
+  };
+  sessionProfilesById[saved.id] = saved;
+  await saveSessionProfile(saved);
+
+  sdk.api.send("nextjs-actions.data-changed");
+  return saved;
+};
+
+const removeSessionProfile = async (
+  sdk: SDK<API, BackendEvents>,
+  profileId: string,
+): Promise<void> => {
+  sessionProfilesById = Object.fromEntries(
+    Object.entries(sessionProfilesById).filter(([id]) => id !== profileId),
+  );
+  await deleteSessionProfile(profileId);
+
+  sdk.api.send("nextjs-actions.data-changed");
+};
+
+const createProfileFromRequest = async (
   sdk: SDK<API, BackendEvents>,
   requestId: ID,
-): Promise<Result<{ actionId: string; functionName: string }>> => {
+  name: string,
+): Promise<Result<SessionProfile>> => {
   try {
     const pair = await sdk.requests.get(requestId);
     if (!pair) return { kind: "Error", error: "Request not found" };
 
-    const actionId = getNextActionIdFromRequest(pair.request);
-    if (actionId === undefined) {
-      return { kind: "Error", error: "No Next-Action header" };
+    const captured = captureProfileHeaders(pair.request.getHeaders());
+    if (captured.cookies.length === 0 && captured.headers.length === 0) {
+      return {
+        kind: "Error",
+        error: "Request has no cookies or credential headers",
+      };
     }
 
-    const functionName = actionNamesById[actionId] ?? "Unknown";
-    return { kind: "Ok", value: { actionId, functionName } };
+    const profile = await setSessionProfile(sdk, {
+      id: "",
+      name: name.trim() !== "" ? name.trim() : pair.request.getHost(),
+      cookies: captured.cookies,
+      headers: captured.headers,
+      sourceRequestId: requestId,
+      updatedAt: "",
+    });
+    return { kind: "Ok", value: profile };
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
     return { kind: "Error", error: message };
   }
 };
 
-const createReplaySessionFromRequest = async (
+const replayActionAsProfile = async (
   sdk: SDK<API, BackendEvents>,
-  requestId: ID,
-): Promise<Result<{ sessionId: ID }>> => {
+  request: Request,
+  actionId: string,
+  profile: SessionProfile,
+): Promise<ProfileReplayResult> => {
+  const base = {
+    actionId,
+    functionName: getActionName(actionId) ?? "Unknown",
+    profileId: profile.id,
+    profileName: profile.name,
+    sentAt: nowIso(),
+  };
+
+  const spec = request.toSpec();
+  applySessionProfile(spec, profile);
+
   try {
-    const session = await sdk.replay.createSession(requestId);
-    return { kind: "Ok", value: { sessionId: session.getId() } };
+    const sent = await sdk.requests.send(spec);
+    const snapshot = snapshotResponse(sent.response);
+    return {
+      ...base,
+      requestId: sent.request.getId(),
+      statusCode: snapshot.statusCode,
+      responseSize: snapshot.size,
+      returnValue: snapshot.returnValue,
+      error: snapshot.errors[0],
+    };
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
-    return { kind: "Error", error: message };
+    return {
+      ...base,
+      requestId: undefined,
+      statusCode: 0,
+      responseSize: 0,
+      returnValue: undefined,
+      error: message,
+    };
   }
 };
 
-const createTestReplayForAction = async (
+const replayActionsAsProfiles = async (
   sdk: SDK<API, BackendEvents>,
-  actionId: string,
-): Promise<Result<{ sessionId: ID }>> => {
+  actionIds: string[],
+  profileIds: string[],
+): Promise<Result<{ sent: number }>> => {
   try {
-    const lastUsage = actionUsagesById[actionId]?.at(-1) ?? undefined;
-
-    const templateUsage =
-      lastUsage ??
-      actions
-        .slice()
-        .reverse()
-        .map((a) => ({ requestId: a.requestId }))
-        .find((v) => v !== undefined);
-
-    if (!templateUsage) {
-      return { kind: "Error", error: "No template request available" };
-    }
-
-    const pair = await sdk.requests.get(templateUsage.requestId);
-    if (!pair) {
-      return { kind: "Error", error: "Template request not found" };
+    const profiles = profileIds.flatMap((id) => {
+      const profile = sessionProfilesById[id];
+      return profile !== undefined ? [profile] : [];
+    });
+    if (profiles.length === 0) {
+      return { kind: "Error", error: "Select at least one session profile" };
     }
 
-    const spec = pair.request.toSpec();
-    spec.setHeader("Next-Action", actionId);
+    let sent = 0;
+    sendStatus(sdk, "Replaying actions as profiles...");
+
+    for (const actionId of actionIds) {
+      const template = getActionUsages(actionId).at(-1);
+      if (template === undefined) continue;
+
+      const pair = await sdk.requests.get(template.requestId);
+      if (!pair) continue;
+
+      for (const profile of profiles) {
+        const result = await replayActionAsProfile(
+          sdk,
+          pair.request,
+          actionId,
+          profile,
+        );
+        const key = `${actionId}|${profile.id}`;
+        profileReplaysByKey[key] = result;
+        await saveProfileReplay(key, result);
+        sent += 1;
+      }
 
-    const bodyText = getTextBody(spec.getBody());
-    const json = safeJsonParse(bodyText);
-    if (Array.isArray(json) && json.length > 0) {
-      const updated = [...json];
-      updated[0] = actionId;
-      spec.setBody(new Body(JSON.stringify(updated)), {
-        updateContentLength: true,
-      });
+      sendStatus(sdk, `Replaying actions as profiles... ${sent}`);
     }
 
-    const session = await sdk.replay.createSession(spec);
-    return { kind: "Ok", value: { sessionId: session.getId() } };
+    sendStatus(sdk, `Sent ${sent} profile replays`);
+    sdk.api.send("nextjs-actions.data-changed");
+
+    return { kind: "Ok", value: { sent } };
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
+    sendStatus(sdk, "Profile replay failed");
     return { kind: "Error", error: message };
   }
 };
 
+const getProfileReplays = (
+  _sdk: SDK<API, BackendEvents>,
+  actionId: string,
+): ProfileReplayResult[] => {
+  return Object.values(profileReplaysByKey).filter(
+    (r) => r.actionId === actionId,
+  );
+};
+
 const exportAnalysis = (
   sdk: SDK<API, BackendEvents>,
   options: ExportOptions,
@@ -834,67 +4245,203 @@ const exportAnalysis = (
     const exportTime = nowIso();
 
     const executedActionIds = new Set(actions.map((a) => a.actionId));
-    const executedFunctionNames = new Set(
-      [...executedActionIds]
-        .map((id) => actionNamesById[id])
-        .filter((v): v is string => Boolean(v)),
-    );
+    const discoveredActions = Object.values(discoveredActionsByKey);
 
     const unusedActions: Record<string, unknown> = {};
     if (options.includeUnused) {
-      for (const [id, info] of Object.entries(discoveredActionsById)) {
-        if (executedFunctionNames.has(info.functionName)) continue;
-        unusedActions[id] = {
+      const unusedRows = buildDiscoveryRows().unused;
+      for (const row of unusedRows) {
+        if (unusedActions[row.actionId] !== undefined) continue;
+
+        const info =
+          discoveredActionsByKey[
+            getActionKey(row.host, row.buildId, row.actionId)
+          ];
+        if (info === undefined) continue;
+
+        unusedActions[row.actionId] = {
           functionName: info.functionName,
+          hosts: unusedRows
+            .filter((r) => r.actionId === row.actionId)
+            .map((r) => ({ host: r.host, buildId: r.buildId })),
           chunkFile: info.chunkFile,
+          source: info.source,
+          pageUrl: info.pageUrl,
+          sourceLocation: info.sourceLocation,
+          reference:
+            info.sourceLocation !== undefined
+              ? `${info.sourceLocation.file}:${info.functionName}`
+              : undefined,
+          moduleId: info.moduleId,
+          callSiteOffset: info.callSiteOffset,
           discoveryTime: info.firstSeen,
           status: "Never Executed",
+          probe:
+            actionProbesByKey[
+              getActionKey(row.host, row.buildId, row.actionId)
+            ],
         };
       }
     }
 
     const actionSummary: Record<string, unknown> = {};
     if (options.includeExecuted) {
-      for (const [actionId, usages] of Object.entries(actionUsagesById)) {
+      for (const actionId of getExecutedActionIds()) {
+        const usages = getActionUsages(actionId);
         const endpoints = [...new Set(usages.map((u) => u.url))];
         const methods = [...new Set(usages.map((u) => u.method))];
         const statusCodes = [...new Set(usages.map((u) => u.statusCode))];
 
         const paramKeys = new Set<string>();
         for (const usage of usages) {
-          const parsed = safeJsonParse(usage.parameters);
-          if (
-            parsed !== undefined &&
-            parsed !== null &&
-            typeof parsed === "object" &&
-            !Array.isArray(parsed)
-          ) {
-            for (const key of Object.keys(parsed)) {
-              paramKeys.add(key);
+          for (const arg of usage.decodedBody.args) {
+            if (arg.kind !== "object" && arg.kind !== "formData") continue;
+            for (const entry of arg.entries) {
+              paramKeys.add(entry.key);
             }
           }
         }
 
         const summary: Record<string, unknown> = {
-          functionName: actionNamesById[actionId] ?? "Unknown",
+          functionName: getActionName(actionId) ?? "Unknown",
+          sourceLocation: discoveredActions.find(
+            (d) => d.actionId === actionId && d.sourceLocation !== undefined,
+          )?.sourceLocation,
           count: usages.length,
+          hosts: [...new Set(usages.map((u) => u.host))],
+          buildIds: [
+            ...new Set(
+              usages
+                .map((u) => u.buildId)
+                .filter((v): v is string => v !== undefined),
+            ),
+          ],
+          noJsFormPosts: usages.filter((u) => u.noJsForm).length,
           endpoints,
           methods,
           statusCodes,
           parameters: [...paramKeys],
+          argumentSchema: toArgumentsJsonSchema(inferArgumentSchemas(usages)),
           securityNotes: [
             ...new Set(usages.map((u) => u.securityNotes).filter((v) => v)),
           ],
-          userNotes: actionNotesById[actionId] ?? "",
+          userNotes: getActionNotes(actionId) ?? "",
         };
 
+        const authz = authzResultsById[actionId];
+        if (options.includeSecurity && authz !== undefined) {
+          summary.authorization = {
+            verdict: authz.verdict,
+            testedAt: authz.testedAt,
+            attempts: authz.attempts,
+          };
+        }
+
+        const idor = idorResultsById[actionId];
+        if (options.includeSecurity && idor !== undefined) {
+          summary.idor = {
+            verdict: idor.verdict,
+            testedAt: idor.testedAt,
+            arguments: idor.paths,
+            differentData: idor.probes.filter(
+              (p) => p.outcome === "different-data",
+            ),
+          };
+        }
+
+        const origin = originResultsById[actionId];
+        if (options.includeSecurity && origin !== undefined) {
+          summary.origin = {
+            verdict: origin.verdict,
+            testedAt: origin.testedAt,
+            accepted: origin.attempts
+              .filter((a) => a.outcome === "accepted")
+              .map((a) => a.variant),
+          };
+        }
+
+        const middleware = Object.values(middlewareResultsByKey).filter((r) =>
+          r.actionIds.includes(actionId),
+        );
+        if (options.includeSecurity && middleware.length > 0) {
+          summary.middleware = middleware.map((r) => ({
+            route: r.path,
+            kind: r.kind,
+            verdict: r.verdict,
+            testedAt: r.testedAt,
+            bypassedBy: r.attempts
+              .filter((a) => a.outcome === "bypassed")
+              .map((a) => a.variant),
+          }));
+        }
+
+        const race = raceResultsById[actionId];
+        if (options.includeSecurity && race !== undefined) {
+          summary.race = {
+            testedAt: race.testedAt,
+            copies: race.copies.length,
+            totalMs: race.totalMs,
+            responses: race.groups,
+          };
+        }
+
+        const flightChecks = flightChecksById[actionId];
+        if (options.includeSecurity && flightChecks !== undefined) {
+          summary.flightChecks = {
+            verdict: flightChecks.verdict,
+            testedAt: flightChecks.testedAt,
+            suspicious: flightChecks.probes.filter((p) => p.suspicious),
+          };
+        }
+
+        const leaks = collectActionLeaks(
+          actionId,
+          getActionName(actionId) ?? "Unknown",
+          usages,
+        );
+        if (options.includeSecurity && leaks.length > 0) {
+          summary.leaks = leaks.map((l) => ({
+            path: l.path,
+            kind: l.kind,
+            label: l.label,
+            severity: l.severity,
+            responses: l.responses,
+            occurrences: l.occurrences,
+            sample: l.sample,
+            requestIds: l.requestIds,
+            lastSeen: l.lastSeen,
+          }));
+        }
+
+        const replays = Object.values(profileReplaysByKey).filter(
+          (r) => r.actionId === actionId,
+        );
+        if (options.includeSecurity && replays.length > 0) {
+          summary.profileReplays = replays.map((r) => ({
+            profile: r.profileName,
+            statusCode: r.statusCode,
+            responseSize: r.responseSize,
+            returnValue: r.returnValue,
+            error: r.error,
+            sentAt: r.sentAt,
+          }));
+        }
+
         if (options.includeFullDetails) {
           summary.requests = usages.slice(0, 5).map((u) => ({
             timestamp: u.timestamp,
             url: u.url,
+            host: u.host,
+            buildId: u.buildId,
             method: u.method,
             statusCode: u.statusCode,
+            noJsForm: u.noJsForm,
             parameters: u.parameters,
+            arguments: u.decodedBody.args,
+            returnValue:
+              u.returnValue !== undefined
+                ? toPlainValue(u.returnValue)
+                : undefined,
             requestId: u.requestId,
           }));
         }
@@ -909,12 +4456,20 @@ const exportAnalysis = (
         description: "Next.js Server Actions Security Analysis",
         totalRequests: actions.length,
         uniqueActions: executedActionIds.size,
-        totalDiscovered: Object.keys(discoveredActionsById).length,
+        totalDiscovered: new Set(discoveredActions.map((d) => d.actionId)).size,
+        builds: getApplicationBuilds(),
         options,
       },
       actionSummary,
       unusedActions,
-      notesByActionId: actionNotesById,
+      versionFingerprints: options.includeSecurity
+        ? getVersionFingerprints()
+        : undefined,
+      chunkIntelligence: options.includeSecurity
+        ? getChunkIntelligence()
+        : undefined,
+      routeInventory: getRouteInventory(),
+      notesByKey: actionNotesByKey,
     };
 
     const json = JSON.stringify(payload, undefined, 2);
@@ -930,6 +4485,9 @@ const exportAnalysis = (
 export type API = DefineAPI<{
   getActions: typeof getActions;
   getDiscovery: typeof getDiscovery;
+  getApplicationBuilds: typeof getApplicationBuilds;
+  getActionIdHistory: typeof getActionIdHistory;
+  getBuildDiff: typeof getBuildDiff;
   getChunkRequestIdForAction: typeof getChunkRequestIdForAction;
   clearAll: typeof clearAll;
   setActionNote: typeof setActionNote;
@@ -937,16 +4495,70 @@ export type API = DefineAPI<{
   analyzeRequestsById: typeof analyzeRequestsById;
   extractActionNames: typeof extractActionNames;
   findAllActions: typeof findAllActions;
+  resolveSourceMaps: typeof resolveSourceMaps;
   getRequestResponseRaw: typeof getRequestResponseRaw;
+  getRscPayload: typeof getRscPayload;
+  getActionSchema: typeof getActionSchema;
   lookupActionForRequest: typeof lookupActionForRequest;
   createReplaySessionFromRequest: typeof createReplaySessionFromRequest;
   createTestReplayForAction: typeof createTestReplayForAction;
+  getReplayCollectionPlan: typeof getReplayCollectionPlan;
+  getAutomateTemplate: typeof getAutomateTemplate;
+  getAutomatePayloadSets: typeof getAutomatePayloadSets;
+  createActionReplaySession: typeof createActionReplaySession;
   exportAnalysis: typeof exportAnalysis;
+  previewUnusedActionProbes: typeof previewUnusedActionProbes;
+  probeUnusedActions: typeof probeUnusedActions;
+  getActionProbes: typeof getActionProbes;
+  getAuthzSettings: typeof getAuthzSettings;
+  setAuthzSettings: typeof setAuthzSettings;
+  previewAuthzTests: typeof previewAuthzTests;
+  runAuthzTests: typeof runAuthzTests;
+  getAuthzResults: typeof getAuthzResults;
+  getIdorSettings: typeof getIdorSettings;
+  setIdorSettings: typeof setIdorSettings;
+  previewIdorCampaign: typeof previewIdorCampaign;
+  runIdorCampaign: typeof runIdorCampaign;
+  getIdorResults: typeof getIdorResults;
+  previewOriginTests: typeof previewOriginTests;
+  runOriginTests: typeof runOriginTests;
+  getOriginResults: typeof getOriginResults;
+  getSecurityRules: typeof getSecurityRules;
+  getDefaultSecurityRules: typeof getDefaultSecurityRules;
+  setSecurityRules: typeof setSecurityRules;
+  getFindingSettings: typeof getFindingSettings;
+  setFindingSettings: typeof setFindingSettings;
+  promoteToFinding: typeof promoteToFinding;
+  getActionLeaks: typeof getActionLeaks;
+  previewMiddlewareBypassTests: typeof previewMiddlewareBypassTests;
+  runMiddlewareBypassTests: typeof runMiddlewareBypassTests;
+  getMiddlewareResults: typeof getMiddlewareResults;
+  getRaceSettings: typeof getRaceSettings;
+  setRaceSettings: typeof setRaceSettings;
+  runRaceTest: typeof runRaceTest;
+  getRaceResults: typeof getRaceResults;
+  runFlightChecks: typeof runFlightChecks;
+  getFlightCheckResults: typeof getFlightCheckResults;
+  fingerprintVersions: typeof fingerprintVersions;
+  getVersionFingerprints: typeof getVersionFingerprints;
+  scanChunkIntelligence: typeof scanChunkIntelligence;
+  getChunkIntelligence: typeof getChunkIntelligence;
+  buildRouteInventory: typeof buildRouteInventory;
+  getRouteInventory: typeof getRouteInventory;
+  getSessionProfiles: typeof getSessionProfiles;
+  setSessionProfile: typeof setSessionProfile;
+  removeSessionProfile: typeof removeSessionProfile;
+  createProfileFromRequest: typeof createProfileFromRequest;
+  replayActionsAsProfiles: typeof replayActionsAsProfiles;
+  getProfileReplays: typeof getProfileReplays;
 }>;
 
-export function init(sdk: SDK<API, BackendEvents>) {
+export async function init(sdk: SDK<API, BackendEvents>) {
   sdk.api.register("getActions", getActions);
   sdk.api.register("getDiscovery", getDiscovery);
+  sdk.api.register("getApplicationBuilds", getApplicationBuilds);
+  sdk.api.register("getActionIdHistory", getActionIdHistory);
+  sdk.api.register("getBuildDiff", getBuildDiff);
   sdk.api.register("getChunkRequestIdForAction", getChunkRequestIdForAction);
   sdk.api.register("clearAll", clearAll);
   sdk.api.register("setActionNote", setActionNote);
@@ -954,36 +4566,89 @@ export function init(sdk: SDK<API, BackendEvents>) {
   sdk.api.register("analyzeRequestsById", analyzeRequestsById);
   sdk.api.register("extractActionNames", extractActionNames);
   sdk.api.register("findAllActions", findAllActions);
+  sdk.api.register("resolveSourceMaps", resolveSourceMaps);
   sdk.api.register("getRequestResponseRaw", getRequestResponseRaw);
+  sdk.api.register("getRscPayload", getRscPayload);
+  sdk.api.register("getActionSchema", getActionSchema);
   sdk.api.register("lookupActionForRequest", lookupActionForRequest);
   sdk.api.register(
     "createReplaySessionFromRequest",
     createReplaySessionFromRequest,
   );
   sdk.api.register("createTestReplayForAction", createTestReplayForAction);
+  sdk.api.register("getReplayCollectionPlan", getReplayCollectionPlan);
+  sdk.api.register("getAutomateTemplate", getAutomateTemplate);
+  sdk.api.register("getAutomatePayloadSets", getAutomatePayloadSets);
+  sdk.api.register("createActionReplaySession", createActionReplaySession);
   sdk.api.register("exportAnalysis", exportAnalysis);
+  sdk.api.register("previewUnusedActionProbes", previewUnusedActionProbes);
+  sdk.api.register("probeUnusedActions", probeUnusedActions);
+  sdk.api.register("getActionProbes", getActionProbes);
+  sdk.api.register("getAuthzSettings", getAuthzSettings);
+  sdk.api.register("setAuthzSettings", setAuthzSettings);
+  sdk.api.register("previewAuthzTests", previewAuthzTests);
+  sdk.api.register("runAuthzTests", runAuthzTests);
+  sdk.api.register("getAuthzResults", getAuthzResults);
+  sdk.api.register("getIdorSettings", getIdorSettings);
+  sdk.api.register("setIdorSettings", setIdorSettings);
+  sdk.api.register("previewIdorCampaign", previewIdorCampaign);
+  sdk.api.register("runIdorCampaign", runIdorCampaign);
+  sdk.api.register("getIdorResults", getIdorResults);
+  sdk.api.register("previewOriginTests", previewOriginTests);
+  sdk.api.register("runOriginTests", runOriginTests);
+  sdk.api.register("getOriginResults", getOriginResults);
+  sdk.api.register("getSecurityRules", getSecurityRules);
+  sdk.api.register("getDefaultSecurityRules", getDefaultSecurityRules);
+  sdk.api.register("setSecurityRules", setSecurityRules);
+  sdk.api.register("getFindingSettings", getFindingSettings);
+  sdk.api.register("setFindingSettings", setFindingSettings);
+  sdk.api.register("promoteToFinding", promoteToFinding);
+  sdk.api.register("getActionLeaks", getActionLeaks);
+  sdk.api.register(
+    "previewMiddlewareBypassTests",
+    previewMiddlewareBypassTests,
+  );
+  sdk.api.register("runMiddlewareBypassTests", runMiddlewareBypassTests);
+  sdk.api.register("getMiddlewareResults", getMiddlewareResults);
+  sdk.api.register("getRaceSettings", getRaceSettings);
+  sdk.api.register("setRaceSettings", setRaceSettings);
+  sdk.api.register("runRaceTest", runRaceTest);
+  sdk.api.register("getRaceResults", getRaceResults);
+  sdk.api.register("runFlightChecks", runFlightChecks);
+  sdk.api.register("getFlightCheckResults", getFlightCheckResults);
+  sdk.api.register("fingerprintVersions", fingerprintVersions);
+  sdk.api.register("getVersionFingerprints", getVersionFingerprints);
+  sdk.api.register("scanChunkIntelligence", scanChunkIntelligence);
+  sdk.api.register("getChunkIntelligence", getChunkIntelligence);
+  sdk.api.register("buildRouteInventory", buildRouteInventory);
+  sdk.api.register("getRouteInventory", getRouteInventory);
+  sdk.api.register("getSessionProfiles", getSessionProfiles);
+  sdk.api.register("setSessionProfile", setSessionProfile);
+  sdk.api.register("removeSessionProfile", removeSessionProfile);
+  sdk.api.register("createProfileFromRequest", createProfileFromRequest);
+  sdk.api.register("replayActionsAsProfiles", replayActionsAsProfiles);
+  sdk.api.register("getProfileReplays", getProfileReplays);
+
+  await initStorage(sdk);
+  const project = await sdk.projects.getCurrent();
+  await loadCurrentProject(sdk, project?.getId());
+
+  sdk.events.onProjectChange(async (s, project) => {
+    await loadCurrentProject(s, project?.getId());
+  });
 
-  sdk.events.onInterceptResponse((s, request, response) => {
-    processRequestResponse(s, request, response);
-
-    const actionId = getNextActionIdFromRequest(request);
-    if (actionId === undefined) return;
-
-    const securityNotes = analyzeSecurity(
+  sdk.events.onInterceptResponse(async (s, request, response) => {
+    const { observation, matches } = await processRequestResponse(
+      s,
       request,
       response,
-      actionId,
-      getTextBody(request.getBody()),
     );
-    if (!securityNotes.includes("No auth headers")) return;
+    await discoverInterceptedReferences(s, request, response, observation);
 
-    void s.findings.create({
-      title: `Next.js Server Action without auth: ${actionId.slice(0, 8)}`,
-      description: securityNotes,
-      reporter: "Next.js Actions Analyzer",
-      dedupeKey: `${request.getHost()}-${request.getPath()}-${actionId}`,
-      request,
-    });
+    const actionId = getActionIdFromRequest(request);
+    if (actionId === undefined) return;
+
+    await reportRuleFindings(s, request, actionId, matches);
   });
 
   sendStatus(sdk, "Ready");
@@ -0,0 +1,286 @@
+import { toPlainValue } from "./flight/values";
+import type { ActionLeak, ActionUsage, LeakKind, RuleSeverity } from "./types";
+
+type LeakHit = {
+  kind: LeakKind;
+  label: string;
+  severity: RuleSeverity;
+  path: string;
+  sample: string;
+};
+
+type ValuePattern = {
+  kind: LeakKind;
+  label: string;
+  severity: RuleSeverity;
+  pattern: RegExp;
+};
+
+type FieldPattern = {
+  kind: LeakKind;
+  label: string;
+  severity: RuleSeverity;
+  names: string[];
+};
+
+const VALUE_PATTERNS: ValuePattern[] = [
+  {
+    kind: "jwt",
+    label: "JWT",
+    severity: "high",
+    pattern: /\beyJ[\w-]{8,}\.eyJ[\w-]{8,}\.[\w-]{8,}/,
+  },
+  {
+    kind: "api-key",
+    label: "API key",
+    severity: "high",
+    pattern:
+      /\b(?:AKIA[0-9A-Z]{16}|sk_(?:live|test)_[0-9a-zA-Z]{16,}|sk-[\w-]{32,}|gh[pousr]_[A-Za-z0-9]{36}|AIza[\w-]{35}|xox[abprs]-[0-9A-Za-z-]{10,})/,
+  },
+  {
+    kind: "password-hash",
+    label: "password hash",
+    severity: "high",
+    pattern:
+      /^(?:\$2[abxy]?\$\d{2}\$[./A-Za-z0-9]{53}|\$argon2(?:id|i|d)\$\S+|\$[156]\$[^$\s]+\$\S+|pbkdf2[_:$]\S+)$/,
+  },
+  {
+    kind: "internal-ip",
+    label: "internal IP",
+    severity: "medium",
+    pattern:
+      /\b(?:10\.\d{1,3}|127\.\d{1,3}|192\.168|172\.(?:1[6-9]|2\d|3[01]))\.\d{1,3}\.\d{1,3}\b/,
+  },
+  {
+    kind: "email",
+    label: "email address",
+    severity: "low",
+    pattern: /\b[\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[A-Za-z]{2,}\b/,
+  },
+];
+
+const PHONE_PATTERN =
+  /^(?:\+\d{8,15}|(?:\+\d{1,3}[\s.-]?)?\(?\d{2,4}\)?(?:[\s.-]\d{2,4}){2,3})$/;
+
+const FIELD_PATTERNS: FieldPattern[] = [
+  {
+    kind: "sensitive-field",
+    label: "sensitive field",
+    severity: "high",
+    names: [
+      "password",
+      "passwd",
+      "passwordhash",
+      "hashedpassword",
+      "salt",
+      "secret",
+      "clientsecret",
+      "apikey",
+      "accesstoken",
+      "refreshtoken",
+      "privatekey",
+      "ssn",
+      "cardnumber",
+      "creditcard",
+      "cvv",
+    ],
+  },
+  {
+    kind: "privilege-field",
+    label: "privilege field",
+    severity: "medium",
+    names: [
+      "role",
+      "roles",
+      "isadmin",
+      "admin",
+      "issuperuser",
+      "superuser",
+      "isstaff",
+      "permissions",
+    ],
+  },
+];
+
+const LEAK_KINDS = new Set<string>([
+  ...VALUE_PATTERNS.map((p) => p.kind),
+  "phone",
+  ...FIELD_PATTERNS.map((p) => p.kind),
+]);
+
+const MAX_DEPTH = 20;
+
+const MAX_HITS = 200;
+
+const maskSample = (value: string): string =>
+  value.length <= 12
+    ? `${value.slice(0, 2)}***`
+    : `${value.slice(0, 6)}...${value.slice(-4)} (${value.length} chars)`;
+
+const normalizeFieldName = (name: string): string =>
+  name.toLowerCase().replace(/[_-]/g, "");
+
+const formatPath = (path: string, key: string | number): string =>
+  typeof key === "number" || !/^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}[${JSON.stringify(key)}]`
+    : `${path}.${key}`;
+
+const isPhoneNumber = (value: string): boolean => {
+  if (!PHONE_PATTERN.test(value.trim())) return false;
+  const digits = value.replace(/\D/g, "").length;
+  return digits >= 9 && digits <= 15;
+};
+
+const isPresent = (value: unknown): boolean =>
+  value !== null &&
+  value !== undefined &&
+  value !== "" &&
+  !(Array.isArray(value) && value.length === 0);
+
+const scanString = (hits: LeakHit[], path: string, value: string) => {
+  for (const { kind, label, severity, pattern } of VALUE_PATTERNS) {
+    const match = value.match(pattern)?.[0];
+    if (match === undefined) continue;
+    hits.push({ kind, label, severity, path, sample: maskSample(match) });
+  }
+
+  if (isPhoneNumber(value)) {
+    hits.push({
+      kind: "phone",
+      label: "phone number",
+      severity: "low",
+      path,
+      sample: maskSample(value),
+    });
+  }
+};
+
+const scanField = (
+  hits: LeakHit[],
+  path: string,
+  key: string,
+  value: unknown,
+) => {
+  if (!isPresent(value)) return;
+
+  const name = normalizeFieldName(key);
+  for (const { kind, label, severity, names } of FIELD_PATTERNS) {
+    if (!names.includes(name)) continue;
+    hits.push({
+      kind,
+      label: `${label} "${key}"`,
+      severity,
+      path,
+      sample:
+        typeof value === "string"
+          ? maskSample(value)
+          : (JSON.stringify(value) ?? "").slice(0, 40),
+    });
+  }
+};
+
+const walkValue = (
+  hits: LeakHit[],
+  path: string,
+  value: unknown,
+  depth: number,
+) => {
+  if (hits.length >= MAX_HITS || depth > MAX_DEPTH) return;
+
+  if (typeof value === "string") {
+    scanString(hits, path, value);
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item, index) =>
+      walkValue(hits, formatPath(path, index), item, depth + 1),
+    );
+    return;
+  }
+
+  if (value === null || typeof value !== "object") return;
+
+  for (const [key, item] of Object.entries(value)) {
+    const itemPath = formatPath(path, key);
+    scanField(hits, itemPath, key, item);
+    walkValue(hits, itemPath, item, depth + 1);
+  }
+};
+
+const detectLeaks = (value: unknown): LeakHit[] => {
+  const hits: LeakHit[] = [];
+  walkValue(hits, "$", value, 0);
+  return hits.slice(0, MAX_HITS);
+};
+
+const generalizePath = (path: string): string =>
+  path.replace(/\[\d+\]/g, "[*]");
+
+export const isLeakKind = (value: string): value is LeakKind =>
+  LEAK_KINDS.has(value);
+
+/**
+ * Describes each leak of one kind in `value` once per field path, e.g.
+ * `JWT at $.session.token (eyJhbG...Qk1c (143 chars))`.
+ */
+export const findLeaks = (value: unknown, kind: LeakKind): string[] => {
+  const seen = new Set<string>();
+  const found: string[] = [];
+  for (const hit of detectLeaks(value)) {
+    if (hit.kind !== kind) continue;
+
+    const path = generalizePath(hit.path);
+    const description = `${hit.label} at ${path}`;
+    if (seen.has(description)) continue;
+    seen.add(description);
+
+    found.push(`${description} (${hit.sample})`);
+  }
+  return found;
+};
+
+export const collectActionLeaks = (
+  actionId: string,
+  functionName: string,
+  usages: ActionUsage[],
+): ActionLeak[] => {
+  const leaks = new Map<string, ActionLeak>();
+  for (const usage of usages) {
+    if (usage.returnValue === undefined) continue;
+
+    const seen = new Set<string>();
+    for (const hit of detectLeaks(toPlainValue(usage.returnValue))) {
+      const path = generalizePath(hit.path);
+      const key = `${hit.kind}|${hit.label}|${path}`;
+      const existing = leaks.get(key);
+      if (existing === undefined) {
+        seen.add(key);
+        leaks.set(key, {
+          actionId,
+          functionName,
+          path,
+          kind: hit.kind,
+          label: hit.label,
+          severity: hit.severity,
+          responses: 1,
+          occurrences: 1,
+          sample: hit.sample,
+          requestIds: [usage.requestId],
+          lastSeen: usage.timestamp,
+        });
+        continue;
+      }
+
+      existing.occurrences += 1;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      existing.responses += 1;
+      existing.requestIds = [...existing.requestIds, usage.requestId].slice(-5);
+      if (usage.timestamp > existing.lastSeen) {
+        existing.lastSeen = usage.timestamp;
+      }
+    }
+  }
+  return [...leaks.values()];
+};
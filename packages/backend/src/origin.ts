@@ -0,0 +1,81 @@
+import type { RequestSpec } from "caido:utils";
+
+import { classifyAuthzAttempt, type ResponseSnapshot } from "./authz";
+import type { OriginOutcome, OriginVariant } from "./types";
+
+type Classification = {
+  outcome: OriginOutcome;
+  reason: string;
+};
+
+const FOREIGN_HOST = "nextjs-actions-analyzer.invalid";
+
+export const ORIGIN_VARIANTS: OriginVariant[] = [
+  "foreign-origin",
+  "null-origin",
+  "missing-origin",
+  "forwarded-host",
+  "suffixed-origin",
+];
+
+export const isCrossOriginVariant = (variant: OriginVariant) =>
+  variant !== "missing-origin";
+
+export const applyOriginVariant = (
+  spec: RequestSpec,
+  variant: OriginVariant,
+) => {
+  const scheme = spec.getTls() ? "https" : "http";
+  spec.removeHeader("Origin");
+  spec.removeHeader("Referer");
+  spec.removeHeader("X-Forwarded-Host");
+
+  switch (variant) {
+    case "foreign-origin":
+      spec.setHeader("Origin", `${scheme}://${FOREIGN_HOST}`);
+      spec.setHeader("Referer", `${scheme}://${FOREIGN_HOST}/`);
+      break;
+    case "null-origin":
+      spec.setHeader("Origin", "null");
+      break;
+    case "forwarded-host":
+      spec.setHeader("Origin", `${scheme}://${FOREIGN_HOST}`);
+      spec.setHeader("X-Forwarded-Host", FOREIGN_HOST);
+      break;
+    case "suffixed-origin":
+      spec.setHeader("Origin", `${scheme}://${spec.getHost()}.${FOREIGN_HOST}`);
+      break;
+    default:
+      break;
+  }
+};
+
+export const describeOriginVariant = (variant: OriginVariant): string => {
+  switch (variant) {
+    case "foreign-origin":
+      return "Foreign Origin and Referer";
+    case "null-origin":
+      return "Origin: null";
+    case "missing-origin":
+      return "No Origin or Referer";
+    case "forwarded-host":
+      return "Foreign Origin with a matching X-Forwarded-Host";
+    case "suffixed-origin":
+      return "Foreign Origin starting with the target host";
+  }
+};
+
+export const classifyOriginAttempt = (
+  original: ResponseSnapshot,
+  replay: ResponseSnapshot,
+): Classification => {
+  const { verdict, reason } = classifyAuthzAttempt(original, replay);
+  switch (verdict) {
+    case "bypassed":
+      return { outcome: "accepted", reason };
+    case "enforced":
+      return { outcome: "rejected", reason };
+    default:
+      return { outcome: "unclear", reason };
+  }
+};
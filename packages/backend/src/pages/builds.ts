@@ -0,0 +1,56 @@
+import { parseRscPayload } from "../flight/response";
+
+import { extractInlineFlight } from "./references";
+
+const MANIFEST_PATH_PATTERN =
+  /\/_next\/static\/([^/"'?#]+)\/_(?:buildManifest|ssgManifest)\.js/;
+
+const NEXT_DATA_PATTERN =
+  /<script[^>]*\bid=["']__NEXT_DATA__["'][^>]*>([\s\S]*?)<\/script>/i;
+
+const BUILD_ID_PATTERN = /^[\w-]{4,}$/;
+
+const toBuildId = (value: unknown): string | undefined => {
+  if (typeof value !== "string") return undefined;
+  return BUILD_ID_PATTERN.test(value) && value !== "chunks" ? value : undefined;
+};
+
+export const getBuildIdFromPath = (path: string): string | undefined =>
+  toBuildId(path.match(MANIFEST_PATH_PATTERN)?.[1]);
+
+const safeJsonParse = (value: string): unknown => {
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return undefined;
+  }
+};
+
+export const getBuildIdFromFlight = (flight: string): string | undefined => {
+  const payload = parseRscPayload(flight);
+  if (payload.buildId !== undefined) return toBuildId(payload.buildId);
+
+  const root = payload.rows.find((row) => row.id === "0" && row.tag === "");
+  const json = root !== undefined ? safeJsonParse(root.raw) : undefined;
+  return Array.isArray(json) ? toBuildId(json[0]) : undefined;
+};
+
+const getBuildIdFromNextData = (html: string): string | undefined => {
+  const json = html.match(NEXT_DATA_PATTERN)?.[1];
+  if (json === undefined) return undefined;
+
+  const data = safeJsonParse(json);
+  if (data === null || typeof data !== "object") return undefined;
+  return "buildId" in data ? toBuildId(data.buildId) : undefined;
+};
+
+export const getBuildIdFromHtml = (html: string): string | undefined => {
+  const fromManifest = getBuildIdFromPath(html);
+  if (fromManifest !== undefined) return fromManifest;
+
+  const fromNextData = getBuildIdFromNextData(html);
+  if (fromNextData !== undefined) return fromNextData;
+
+  const flight = extractInlineFlight(html);
+  return flight !== "" ? getBuildIdFromFlight(flight) : undefined;
+};
@@ -0,0 +1,144 @@
+import { parseRscPayload } from "../flight/response";
+import type { DiscoverySource } from "../types";
+
+export type PageReference = {
+  actionId: string;
+  source: DiscoverySource;
+};
+
+const ACTION_ID_PATTERN = /^[0-9a-fA-F]{40,}$/;
+
+const FORM_FIELD_PATTERN = /\$ACTION_ID_([0-9a-fA-F]{40,})/g;
+
+const FORM_METADATA_NAME_PATTERN = /^\$ACTION_\d+:\d+$/;
+
+const INPUT_TAG_PATTERN = /<input\b[^>]*>/gi;
+
+const NEXT_F_PUSH_PATTERN =
+  /self\.__next_f\.push\((\[[\s\S]*?\])\)\s*(?:;\s*)?<\/script>/g;
+
+const HTML_ENTITIES: Record<string, string> = {
+  quot: '"',
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  apos: "'",
+};
+
+const decodeHtmlEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-z]+);/g, (match, entity: string) => {
+    if (entity.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return HTML_ENTITIES[entity] ?? match;
+  });
+
+const getAttribute = (tag: string, name: string): string | undefined => {
+  const match = tag.match(
+    new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, "i"),
+  );
+  const value = match?.[1] ?? match?.[2];
+  return value !== undefined ? decodeHtmlEntities(value) : undefined;
+};
+
+const safeJsonParse = (value: string): unknown => {
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return undefined;
+  }
+};
+
+const getServerReferenceId = (value: unknown): string | undefined => {
+  if (value === null || typeof value !== "object") return undefined;
+  if (!("id" in value) || !("bound" in value)) return undefined;
+  if (typeof value.id !== "string") return undefined;
+  return ACTION_ID_PATTERN.test(value.id) ? value.id : undefined;
+};
+
+const collectServerReferenceIds = (json: unknown, ids: Set<string>) => {
+  const pending: unknown[] = [json];
+  while (pending.length > 0) {
+    const value = pending.pop();
+    if (value === null || typeof value !== "object") continue;
+
+    const id = getServerReferenceId(value);
+    if (id !== undefined) ids.add(id);
+
+    pending.push(...Object.values(value));
+  }
+};
+
+const addReference = (
+  references: Map<string, PageReference>,
+  actionId: string,
+  source: DiscoverySource,
+) => {
+  const key = `${actionId}:${source}`;
+  if (!references.has(key)) references.set(key, { actionId, source });
+};
+
+const collectFlightReferences = (
+  references: Map<string, PageReference>,
+  flight: string,
+  source: DiscoverySource,
+) => {
+  const ids = new Set<string>();
+  for (const row of parseRscPayload(flight).rows) {
+    if (row.tag !== "") continue;
+    collectServerReferenceIds(safeJsonParse(row.raw), ids);
+  }
+
+  for (const id of ids) addReference(references, id, source);
+  for (const match of flight.matchAll(FORM_FIELD_PATTERN)) {
+    if (match[1] !== undefined) addReference(references, match[1], "form");
+  }
+};
+
+export const extractInlineFlight = (html: string): string => {
+  const segments: string[] = [];
+  for (const match of html.matchAll(NEXT_F_PUSH_PATTERN)) {
+    const json = safeJsonParse(match[1] ?? "");
+    if (!Array.isArray(json) || json[0] !== 1) continue;
+    if (typeof json[1] === "string") segments.push(json[1]);
+  }
+  return segments.join("");
+};
+
+export const extractRscReferences = (body: string): PageReference[] => {
+  const references = new Map<string, PageReference>();
+  collectFlightReferences(references, body, "rsc");
+  return [...references.values()];
+};
+
+export const extractHtmlReferences = (html: string): PageReference[] => {
+  const references = new Map<string, PageReference>();
+
+  for (const [tag] of html.matchAll(INPUT_TAG_PATTERN)) {
+    const name = getAttribute(tag, "name");
+    if (name === undefined) continue;
+
+    const fieldId = name.match(/^\$ACTION_ID_([0-9a-fA-F]{40,})$/)?.[1];
+    if (fieldId !== undefined) {
+      addReference(references, fieldId, "form");
+      continue;
+    }
+
+    if (FORM_METADATA_NAME_PATTERN.test(name)) {
+      const id = getServerReferenceId(
+        safeJsonParse(getAttribute(tag, "value") ?? ""),
+      );
+      if (id !== undefined) addReference(references, id, "form");
+    }
+  }
+
+  const flight = extractInlineFlight(html);
+  if (flight !== "") {
+    collectFlightReferences(references, flight, "inline-script");
+  }
+
+  return [...references.values()];
+};
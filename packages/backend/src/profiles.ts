@@ -0,0 +1,64 @@
+import type { RequestSpec } from "caido:utils";
+
+import type { HeaderValue, SessionProfile } from "./types";
+
+const CREDENTIAL_HEADERS = ["Cookie", "Authorization"];
+
+const CAPTURED_HEADER_PATTERN = /auth|token|csrf|xsrf|session|api-?key/i;
+
+const parseCookieHeader = (value: string): HeaderValue[] =>
+  value.split(";").flatMap((part) => {
+    const separator = part.indexOf("=");
+    if (separator <= 0) return [];
+
+    const name = part.slice(0, separator).trim();
+    return name !== ""
+      ? [{ name, value: part.slice(separator + 1).trim() }]
+      : [];
+  });
+
+export const captureProfileHeaders = (
+  headers: Record<string, string[]>,
+): { cookies: HeaderValue[]; headers: HeaderValue[] } => {
+  const cookies: HeaderValue[] = [];
+  const captured: HeaderValue[] = [];
+
+  for (const [name, values] of Object.entries(headers)) {
+    if (name.toLowerCase() === "cookie") {
+      for (const value of values) cookies.push(...parseCookieHeader(value));
+      continue;
+    }
+    if (!CAPTURED_HEADER_PATTERN.test(name)) continue;
+
+    const value = values[0];
+    if (value !== undefined) captured.push({ name, value });
+  }
+
+  return { cookies, headers: captured };
+};
+
+export const stripCredentials = (spec: RequestSpec) => {
+  for (const name of CREDENTIAL_HEADERS) {
+    spec.removeHeader(name);
+  }
+};
+
+export const applySessionProfile = (
+  spec: RequestSpec,
+  profile: SessionProfile,
+) => {
+  stripCredentials(spec);
+  for (const header of profile.headers) {
+    spec.removeHeader(header.name);
+  }
+
+  if (profile.cookies.length > 0) {
+    spec.setHeader(
+      "Cookie",
+      profile.cookies.map((c) => `${c.name}=${c.value}`).join("; "),
+    );
+  }
+  for (const header of profile.headers) {
+    spec.setHeader(header.name, header.value);
+  }
+};
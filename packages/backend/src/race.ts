@@ -0,0 +1,31 @@
+import type { RaceCopy, RaceResponseGroup } from "./types";
+
+const getResponseKey = (copy: RaceCopy): string =>
+  [
+    copy.statusCode,
+    copy.error ?? "",
+    copy.returnValue ?? (copy.error === undefined ? copy.responseSize : ""),
+  ].join("|");
+
+export const groupRaceCopies = (copies: RaceCopy[]): RaceResponseGroup[] => {
+  const groups = new Map<string, RaceResponseGroup>();
+  for (const copy of copies) {
+    const key = getResponseKey(copy);
+    const group = groups.get(key);
+    if (group !== undefined) {
+      group.count += 1;
+      group.copies.push(copy.index);
+      continue;
+    }
+
+    groups.set(key, {
+      statusCode: copy.statusCode,
+      responseSize: copy.responseSize,
+      returnValue: copy.returnValue,
+      error: copy.error,
+      count: 1,
+      copies: [copy.index],
+    });
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count);
+};
@@ -0,0 +1,63 @@
+import type { DiscoveredActionInternal } from "./types";
+
+type BuildMatch = {
+  previous: DiscoveredActionInternal;
+  current: DiscoveredActionInternal;
+};
+
+type BuildComparison = {
+  matches: BuildMatch[];
+  added: DiscoveredActionInternal[];
+  removed: DiscoveredActionInternal[];
+};
+
+const isSameFunction = (
+  left: DiscoveredActionInternal,
+  right: DiscoveredActionInternal,
+  strictModule: boolean,
+): boolean => {
+  if (left.functionName === "Unknown") return false;
+  if (left.functionName !== right.functionName) return false;
+  if (left.moduleId === right.moduleId) return true;
+  if (strictModule) return false;
+  return left.moduleId === undefined || right.moduleId === undefined;
+};
+
+export const compareBuildActions = (
+  previous: DiscoveredActionInternal[],
+  current: DiscoveredActionInternal[],
+): BuildComparison => {
+  const matchedPrevious = new Set<DiscoveredActionInternal>();
+  const matchedCurrent = new Set<DiscoveredActionInternal>();
+  const matches: BuildMatch[] = [];
+
+  const predicates = [
+    (p: DiscoveredActionInternal, c: DiscoveredActionInternal) =>
+      p.actionId === c.actionId,
+    (p: DiscoveredActionInternal, c: DiscoveredActionInternal) =>
+      isSameFunction(p, c, true),
+    (p: DiscoveredActionInternal, c: DiscoveredActionInternal) =>
+      isSameFunction(p, c, false),
+  ];
+
+  for (const predicate of predicates) {
+    for (const action of current) {
+      if (matchedCurrent.has(action)) continue;
+
+      const match = previous.find(
+        (p) => !matchedPrevious.has(p) && predicate(p, action),
+      );
+      if (match === undefined) continue;
+
+      matchedPrevious.add(match);
+      matchedCurrent.add(action);
+      matches.push({ previous: match, current: action });
+    }
+  }
+
+  return {
+    matches,
+    added: current.filter((c) => !matchedCurrent.has(c)),
+    removed: previous.filter((p) => !matchedPrevious.has(p)),
+  };
+};
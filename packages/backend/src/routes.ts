@@ -0,0 +1,256 @@
+type ManifestRoute = {
+  route: string;
+  chunks: string[];
+};
+
+type ChunkRoute = {
+  route: string;
+  kind: "page" | "app";
+};
+
+const STRING_LITERAL_PATTERN = /^(?:"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')$/;
+
+const CHUNK_REFERENCE_PATTERN =
+  /(?:\/_next\/)?(static\/chunks\/[^"'`\s\\,)]+?\.js)(?=[?"'`\s\\,)])/g;
+
+const APP_CHUNK_PATTERN =
+  /\/static\/chunks\/app\/(?:(.*)\/)?(?:page|route)(?:-[\w]+)?\.js$/;
+
+const PAGES_CHUNK_PATTERN =
+  /\/static\/chunks\/pages\/(.+?)(?:-[0-9a-f]{8,})?\.js$/;
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const parseLiteral = (token: string): string | undefined => {
+  const trimmed = token.trim();
+  if (!STRING_LITERAL_PATTERN.test(trimmed)) return undefined;
+  try {
+    return JSON.parse(
+      trimmed.startsWith("'")
+        ? `"${trimmed.slice(1, -1).replace(/"/g, '\\"')}"`
+        : trimmed,
+    ) as string;
+  } catch {
+    return undefined;
+  }
+};
+
+const scanTopLevel = (
+  text: string,
+  start: number,
+  onChar: (char: string, index: number, depth: number) => boolean,
+) => {
+  let depth = 0;
+  let quote: string | undefined = undefined;
+  for (let index = start; index < text.length; index += 1) {
+    const char = text[index] ?? "";
+    if (quote !== undefined) {
+      if (char === "\\") index += 1;
+      else if (char === quote) quote = undefined;
+      continue;
+    }
+    if (char === '"' || char === "'") quote = char;
+    else if (char === "[" || char === "{" || char === "(") depth += 1;
+    else if (char === "]" || char === "}" || char === ")") depth -= 1;
+    if (!onChar(char, index, depth)) return;
+  }
+};
+
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let start = 0;
+  scanTopLevel(text, 0, (char, index, depth) => {
+    if (char === "," && depth === 0) {
+      parts.push(text.slice(start, index));
+      start = index + 1;
+    }
+    return true;
+  });
+  parts.push(text.slice(start));
+  return parts.map((part) => part.trim()).filter((part) => part !== "");
+};
+
+const readBracketed = (text: string, open: number): string => {
+  let end = text.length;
+  scanTopLevel(text, open, (_char, index, depth) => {
+    if (depth > 0) return true;
+    end = index;
+    return false;
+  });
+  return text.slice(open + 1, end);
+};
+
+const readListAfter = (source: string, pattern: RegExp): string => {
+  const match = pattern.exec(source);
+  return match !== null
+    ? readBracketed(source, match.index + match[0].length - 1)
+    : "";
+};
+
+const getManifestArguments = (source: string): Record<string, string> => {
+  const params = source
+    .match(/function\s*\(([^)]*)\)\s*\{\s*return\s*\{/)?.[1]
+    ?.split(",")
+    .map((name) => name.trim());
+  if (params === undefined) return {};
+
+  const start = source.lastIndexOf("}(");
+  if (start === -1) return {};
+
+  const values = splitTopLevel(readBracketed(source, start + 1));
+  const args: Record<string, string> = {};
+  params.forEach((name, index) => {
+    const value = parseLiteral(values[index] ?? "");
+    if (value !== undefined) args[name] = value;
+  });
+  return args;
+};
+
+const resolveTokens = (list: string, args: Record<string, string>): string[] =>
+  splitTopLevel(list)
+    .map((token) => parseLiteral(token) ?? args[token])
+    .filter((value): value is string => value !== undefined);
+
+const isInternalRoute = (route: string) =>
+  route.startsWith("/_") && route !== "/_not-found";
+
+export const parseBuildManifest = (source: string): ManifestRoute[] => {
+  const args = getManifestArguments(source);
+  const routes = new Map<string, ManifestRoute>();
+
+  for (const match of source.matchAll(/["'](\/[^"']*)["']\s*:\s*\[/g)) {
+    const route = parseLiteral(`"${match[1] ?? ""}"`) ?? match[1] ?? "";
+    if (isInternalRoute(route)) continue;
+
+    const list = readBracketed(source, match.index + match[0].length - 1);
+    routes.set(route, {
+      route,
+      chunks: resolveTokens(list, args)
+        .filter((chunk) => chunk.endsWith(".js"))
+        .map(safeDecode),
+    });
+  }
+
+  const sorted = readListAfter(source, /sortedPages\s*:\s*\[/);
+  for (const route of resolveTokens(sorted, args)) {
+    if (isInternalRoute(route) || routes.has(route)) continue;
+    routes.set(route, { route, chunks: [] });
+  }
+
+  return [...routes.values()];
+};
+
+export const parseSsgManifest = (source: string): string[] => {
+  return resolveTokens(readListAfter(source, /new\s+Set\s*\(\s*\[/), {});
+};
+
+const normalizeAppRoute = (segmentPath: string): string => {
+  const segments = segmentPath
+    .split("/")
+    .filter(
+      (segment) =>
+        segment !== "" && !/^\(.*\)$/.test(segment) && !segment.startsWith("@"),
+    );
+  return `/${segments.join("/")}`;
+};
+
+export const parseAppBuildManifest = (source: string): ManifestRoute[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(source) as unknown;
+  } catch {
+    return [];
+  }
+  if (json === null || typeof json !== "object" || !("pages" in json)) {
+    return [];
+  }
+
+  const pages = json.pages;
+  if (pages === null || typeof pages !== "object") return [];
+
+  const routes: ManifestRoute[] = [];
+  for (const [key, chunks] of Object.entries(pages)) {
+    const segmentPath = key.match(/^(.*)\/(?:page|route)$/)?.[1];
+    if (segmentPath === undefined) continue;
+    routes.push({
+      route: normalizeAppRoute(segmentPath),
+      chunks: Array.isArray(chunks)
+        ? chunks.filter(
+            (chunk): chunk is string =>
+              typeof chunk === "string" && chunk.endsWith(".js"),
+          )
+        : [],
+    });
+  }
+  return routes;
+};
+
+export const getChunkRoute = (path: string): ChunkRoute | undefined => {
+  const decoded = safeDecode(path);
+
+  const app = decoded.match(APP_CHUNK_PATTERN);
+  if (app !== null) {
+    return { route: normalizeAppRoute(app[1] ?? ""), kind: "app" };
+  }
+
+  const page = decoded.match(PAGES_CHUNK_PATTERN)?.[1];
+  if (page === undefined || page.startsWith("_")) return undefined;
+
+  const route = `/${page}`.replace(/\/index$/, "");
+  return { route: route === "" ? "/" : route, kind: "page" };
+};
+
+export const extractPageChunks = (body: string): string[] => {
+  const chunks = new Set<string>();
+  for (const [, chunk] of body.matchAll(CHUNK_REFERENCE_PATTERN)) {
+    if (chunk !== undefined) chunks.add(safeDecode(chunk));
+  }
+  return [...chunks];
+};
+
+export const getChunkName = (path: string): string =>
+  safeDecode(path.split(/[?#]/)[0]?.split("/").pop() ?? path);
+
+export const isDynamicRoute = (route: string): boolean =>
+  /\[[^\]]+\]/.test(route);
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const getRoutePattern = (route: string): RegExp => {
+  const source = route
+    .split("/")
+    .filter((segment) => segment !== "")
+    .map((segment) => {
+      if (/^\[\[\.\.\..+\]\]$/.test(segment)) return "(?:/.*)?";
+      if (/^\[\.\.\..+\]$/.test(segment)) return "/.+";
+      if (/^\[.+\]$/.test(segment)) return "/[^/]+";
+      return `/${escapeRegex(segment)}`;
+    })
+    .join("");
+  return new RegExp(`^${source}/?$`);
+};
+
+const matchesRoute = (route: string, path: string): boolean => {
+  const normalized = safeDecode(path.split(/[?#]/)[0] ?? "/");
+  if (route === "/") return normalized === "/" || normalized === "";
+  return getRoutePattern(route).test(normalized);
+};
+
+export const findMatchingRoute = (
+  routes: string[],
+  path: string,
+): string | undefined => {
+  const matches = routes.filter((route) => matchesRoute(route, path));
+  return matches.sort(
+    (a, b) =>
+      (a.match(/\[/g)?.length ?? 0) - (b.match(/\[/g)?.length ?? 0) ||
+      b.length - a.length,
+  )[0];
+};
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+
+import type { SecurityRule } from "../types";
+
+import { DEFAULT_SECURITY_RULES, mergeDefaultSecurityRules } from "./defaults";
+import { evaluateSecurityRules } from "./engine";
+
+const findDefault = (id: string): SecurityRule => {
+  const rule = DEFAULT_SECURITY_RULES.find((r) => r.id === id);
+  if (rule === undefined) throw new Error(`Missing default rule ${id}`);
+  return rule;
+};
+
+const sensitive = findDefault("sensitive-parameter");
+const directId = findDefault("direct-id");
+const leakedJwt = findDefault("leak-jwt");
+const devMode = findDefault("dev-mode");
+const oldSensitive = { ...sensitive, pattern: "role|id" };
+const custom: SecurityRule = {
+  ...devMode,
+  id: "custom",
+  name: "Custom",
+  pattern: "secret",
+};
+
+describe("mergeDefaultSecurityRules", () => {
+  it("updates unedited defaults and keeps their enabled flag", () => {
+    const merged = mergeDefaultSecurityRules(
+      [{ ...oldSensitive, enabled: false }],
+      [oldSensitive],
+    );
+    expect(merged).toEqual([
+      { ...sensitive, enabled: false },
+      ...DEFAULT_SECURITY_RULES.filter((r) => r.id !== sensitive.id),
+    ]);
+  });
+
+  it("keeps edited, custom and deleted rules as saved", () => {
+    const edited = { ...devMode, pattern: "debug" };
+    const merged = mergeDefaultSecurityRules(
+      [edited, custom],
+      DEFAULT_SECURITY_RULES,
+    );
+    expect(merged).toEqual([edited, custom]);
+  });
+
+  it("appends missing defaults to rules saved without a default set", () => {
+    const merged = mergeDefaultSecurityRules([custom], undefined);
+    expect(merged).toEqual([custom, ...DEFAULT_SECURITY_RULES]);
+  });
+});
+
+describe("sensitive-parameter", () => {
+  const matchBody = (requestBody: string) =>
+    evaluateSecurityRules([sensitive], {
+      headers: {},
+      requestBody,
+      argumentEntries: [],
+      arguments: [],
+      responseBody: "",
+      returnText: "",
+      returnValue: undefined,
+      facts: {},
+    }).map((match) => match.message);
+
+  it("matches id only as a whole key", () => {
+    expect(matchBody('[{"id":1}]')).toEqual(["Contains: id"]);
+    expect(matchBody('[{"valid":true,"width":2,"hidden":"x"}]')).toEqual([]);
+  });
+});
+
+describe("direct-id", () => {
+  const matchEntries = (argumentEntries: string[]) =>
+    evaluateSecurityRules([directId], {
+      headers: {},
+      requestBody: "",
+      argumentEntries,
+      arguments: [],
+      responseBody: "",
+      returnText: "",
+      returnValue: undefined,
+      facts: {},
+    }).map((match) => match.message);
+
+  it("matches keys whose last word is id", () => {
+    expect(
+      matchEntries(["id=1", "0.user_id=42", "userId=-3", "orgID=7", "0.ID=9"]),
+    ).toEqual([
+      "Direct ID: id=1",
+      "Direct ID: 0.user_id=42",
+      "Direct ID: userId=-3",
+      "Direct ID: orgID=7",
+      "Direct ID: 0.ID=9",
+    ]);
+  });
+
+  it("ignores keys that only contain id", () => {
+    expect(
+      matchEntries(["width=2", "valid=1", "hidden=0", "idle=5", "userId=abc"]),
+    ).toEqual([]);
+  });
+});
+
+describe("leak rules", () => {
+  const token = `eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxMjM0NTY3ODkwIn0.${"a".repeat(43)}`;
+  const matchReturn = (rules: SecurityRule[]) =>
+    evaluateSecurityRules(rules, {
+      headers: {},
+      requestBody: "",
+      argumentEntries: [],
+      arguments: [],
+      responseBody: "",
+      returnText: "",
+      returnValue: { sessions: [{ token }, { token }] },
+      facts: {},
+    }).map(({ message, severity }) => ({ message, severity }));
+
+  it("reports each leaked field path once", () => {
+    expect(matchReturn([leakedJwt])).toEqual([
+      {
+        message: "Leaked JWT at $.sessions[*].token (eyJhbG...aaaa (92 chars))",
+        severity: "high",
+      },
+    ]);
+  });
+
+  it("follows the rule's enabled flag and severity", () => {
+    expect(matchReturn([{ ...leakedJwt, enabled: false }])).toEqual([]);
+    expect(matchReturn([{ ...leakedJwt, severity: "low" }])).toEqual([
+      expect.objectContaining({ severity: "low" }),
+    ]);
+  });
+});
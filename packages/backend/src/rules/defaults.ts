@@ -0,0 +1,263 @@
+import type { SecurityRule } from "../types";
+
+const rule = (
+  fields: Omit<
+    SecurityRule,
+    "enabled" | "selector" | "caseSensitive" | "negate"
+  > &
+    Partial<SecurityRule>,
+): SecurityRule => ({
+  enabled: true,
+  selector: "",
+  caseSensitive: false,
+  negate: false,
+  ...fields,
+});
+
+export const DEFAULT_SECURITY_RULES: SecurityRule[] = [
+  rule({
+    id: "no-auth-headers",
+    name: "Missing auth headers",
+    target: "request-header",
+    matcher: "regex",
+    pattern: "^(authorization|cookie):",
+    negate: true,
+    severity: "low",
+    message: "No auth headers",
+  }),
+  rule({
+    id: "sensitive-parameter",
+    name: "Sensitive parameter names",
+    target: "request-body",
+    matcher: "regex",
+    pattern: "userId|user_id|teamId|role|admin|delete|update|team|\\bid\\b",
+    severity: "info",
+    message: "Contains: {match}",
+  }),
+  rule({
+    id: "direct-id",
+    name: "Direct numeric ID argument",
+    target: "argument",
+    matcher: "regex",
+    // The key's last word is `id`, as in `id`, `user_id` or `userId`.
+    pattern: "^([^=]*(?:(?:^|[_\\-.])(?:id|Id|ID)|[a-z0-9](?:Id|ID))=-?\\d+)$",
+    caseSensitive: true,
+    severity: "low",
+    message: "Direct ID: {match}",
+  }),
+  rule({
+    id: "dev-mode",
+    name: "Development mode indicators",
+    target: "response-body",
+    matcher: "regex",
+    pattern: "development|__NEXT_DATA__",
+    severity: "low",
+    message: "Dev mode indicators",
+  }),
+  rule({
+    id: "error-pattern",
+    name: "Error text in return value",
+    target: "return-value",
+    matcher: "regex",
+    pattern: [
+      '"error"\\s*:\\s*"[^"]+',
+      '"error"\\s*:\\s*\\{',
+      '"error"\\s*:\\s*\\[',
+      "exception",
+      "stack\\s*trace",
+      "stacktrace",
+      "at\\s+\\w+\\.\\w+\\(",
+      'File\\s+"[^"]+",\\s+line\\s+\\d+',
+      "TypeError:|ReferenceError:|SyntaxError:",
+      "undefined method",
+      "Call to undefined function",
+    ].join("|"),
+    severity: "low",
+    message: "Error in response",
+  }),
+  rule({
+    id: "rsc-error-row",
+    name: "Error row in RSC response",
+    target: "action",
+    matcher: "jsonpath",
+    pattern: "$[?(@.rscErrorCount > 0)]",
+    severity: "low",
+    message: "Error in response",
+  }),
+  rule({
+    id: "db-mention",
+    name: "Database names in return value",
+    target: "return-value",
+    matcher: "regex",
+    pattern: "mssql|postgres|mysql|database error",
+    severity: "medium",
+    message: "DB mention",
+  }),
+  rule({
+    id: "origin-host-mismatch",
+    name: "Origin does not match Host",
+    target: "action",
+    matcher: "jsonpath",
+    pattern: "$[?(@.originHost && @.originHost != @.host)]",
+    severity: "medium",
+    message: "Origin/Host mismatch",
+  }),
+  rule({
+    id: "action-reuse",
+    name: "Action called many times",
+    target: "action",
+    matcher: "jsonpath",
+    pattern: "$[?(@.usageCount > 10)].usageCount",
+    severity: "info",
+    message: "Action reused {match}x",
+  }),
+  rule({
+    id: "bound-arguments",
+    name: "Bound arguments",
+    target: "action",
+    matcher: "jsonpath",
+    pattern: "$[?(@.boundArgCount > 0)]",
+    severity: "info",
+    message: "Potential .bind() usage",
+  }),
+  rule({
+    id: "bind-call",
+    name: ".bind( in request body",
+    target: "request-body",
+    matcher: "regex",
+    pattern: "\\.bind\\(",
+    caseSensitive: true,
+    severity: "info",
+    message: "Potential .bind() usage",
+  }),
+  rule({
+    id: "non-post",
+    name: "Non-POST action",
+    target: "action",
+    matcher: "jsonpath",
+    pattern: "$[?(@.method != 'POST')]",
+    severity: "low",
+    message: "Non-POST action",
+  }),
+  rule({
+    id: "no-js-form",
+    name: "No-JS form post",
+    target: "action",
+    matcher: "jsonpath",
+    pattern: "$[?(@.noJsForm == true)]",
+    severity: "info",
+    message: "No-JS form post",
+  }),
+  rule({
+    id: "leak-jwt",
+    name: "Leaked JWT in return value",
+    target: "return-value",
+    matcher: "leak",
+    pattern: "jwt",
+    severity: "high",
+    message: "Leaked {match}",
+  }),
+  rule({
+    id: "leak-api-key",
+    name: "Leaked API key in return value",
+    target: "return-value",
+    matcher: "leak",
+    pattern: "api-key",
+    severity: "high",
+    message: "Leaked {match}",
+  }),
+  rule({
+    id: "leak-password-hash",
+    name: "Leaked password hash in return value",
+    target: "return-value",
+    matcher: "leak",
+    pattern: "password-hash",
+    severity: "high",
+    message: "Leaked {match}",
+  }),
+  rule({
+    id: "leak-sensitive-field",
+    name: "Leaked sensitive field in return value",
+    target: "return-value",
+    matcher: "leak",
+    pattern: "sensitive-field",
+    severity: "high",
+    message: "Leaked {match}",
+  }),
+  rule({
+    id: "leak-privilege-field",
+    name: "Leaked privilege field in return value",
+    target: "return-value",
+    matcher: "leak",
+    pattern: "privilege-field",
+    severity: "medium",
+    message: "Leaked {match}",
+  }),
+  rule({
+    id: "leak-internal-ip",
+    name: "Leaked internal IP in return value",
+    target: "return-value",
+    matcher: "leak",
+    pattern: "internal-ip",
+    severity: "medium",
+    message: "Leaked {match}",
+  }),
+  rule({
+    id: "leak-email",
+    name: "Leaked email address in return value",
+    target: "return-value",
+    matcher: "leak",
+    pattern: "email",
+    severity: "low",
+    message: "Leaked {match}",
+  }),
+  rule({
+    id: "leak-phone",
+    name: "Leaked phone number in return value",
+    target: "return-value",
+    matcher: "leak",
+    pattern: "phone",
+    severity: "low",
+    message: "Leaked {match}",
+  }),
+];
+
+const getRuleDefinition = (rule: SecurityRule): string =>
+  JSON.stringify(
+    Object.entries(rule)
+      .filter(([key]) => key !== "enabled")
+      .sort(([left], [right]) => left.localeCompare(right)),
+  );
+
+/**
+ * Brings saved rules up to date with the shipped defaults. Defaults the user
+ * has not edited take the current definition (keeping their enabled flag),
+ * edited and custom rules are kept as saved, and defaults added since the
+ * rules were saved are appended. `savedDefaults` is the default set at save
+ * time; when unknown, every default the rules lack is treated as new.
+ */
+export const mergeDefaultSecurityRules = (
+  rules: SecurityRule[],
+  savedDefaults: SecurityRule[] | undefined,
+): SecurityRule[] => {
+  const currentById = new Map(DEFAULT_SECURITY_RULES.map((r) => [r.id, r]));
+  const savedById = new Map(
+    (savedDefaults ?? DEFAULT_SECURITY_RULES).map((r) => [r.id, r]),
+  );
+
+  const merged = rules.map((rule) => {
+    const current = currentById.get(rule.id);
+    const saved = savedById.get(rule.id);
+    if (current === undefined || saved === undefined) return rule;
+    return getRuleDefinition(rule) === getRuleDefinition(saved)
+      ? { ...current, enabled: rule.enabled }
+      : rule;
+  });
+
+  const present = new Set(rules.map((r) => r.id));
+  const known = new Set((savedDefaults ?? []).map((r) => r.id));
+  const added = DEFAULT_SECURITY_RULES.filter(
+    (r) => !present.has(r.id) && !known.has(r.id),
+  );
+  return [...merged, ...added];
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_SECURITY_RULES } from "./defaults";
+import { evaluateSecurityRules } from "./engine";
+
+const evaluateFacts = (facts: Record<string, unknown>) =>
+  evaluateSecurityRules(
+    DEFAULT_SECURITY_RULES.filter((rule) => rule.target === "action"),
+    {
+      headers: {},
+      requestBody: "",
+      argumentEntries: [],
+      arguments: [],
+      responseBody: "",
+      returnText: "",
+      returnValue: undefined,
+      facts,
+    },
+  ).map((match) => match.message);
+
+describe("evaluateSecurityRules", () => {
+  it("runs the default action filters against the action facts", () => {
+    expect(
+      evaluateFacts({
+        method: "POST",
+        host: "app.test",
+        originHost: "evil.test",
+        usageCount: 12,
+        boundArgCount: 0,
+        rscErrorCount: 1,
+        noJsForm: false,
+      }),
+    ).toEqual([
+      "Error in response",
+      "Origin/Host mismatch",
+      "Action reused 12x",
+    ]);
+  });
+});
@@ -0,0 +1,207 @@
+import { findLeaks, isLeakKind } from "../leaks";
+import type { Result, SecurityRule, SecurityRuleMatch } from "../types";
+
+import { compileJsonPath, queryJsonPath } from "./jsonpath";
+
+type RuleContext = {
+  headers: Record<string, string[]>;
+  requestBody: string;
+  argumentEntries: string[];
+  arguments: unknown;
+  responseBody: string;
+  returnText: string;
+  returnValue: unknown;
+  facts: Record<string, unknown>;
+};
+
+const MATCH_PLACEHOLDER = "{match}";
+
+const MAX_MATCHES_PER_RULE = 20;
+
+const MAX_EVIDENCE_LENGTH = 200;
+
+const safeJsonParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return undefined;
+  }
+};
+
+const getHeaderValues = (
+  headers: Record<string, string[]>,
+  name: string,
+): string[] =>
+  Object.entries(headers)
+    .filter(([key]) => key.toLowerCase() === name.toLowerCase())
+    .flatMap(([, values]) => values);
+
+const getTargetTexts = (rule: SecurityRule, context: RuleContext) => {
+  switch (rule.target) {
+    case "request-header":
+      return rule.selector.trim() !== ""
+        ? getHeaderValues(context.headers, rule.selector.trim())
+        : Object.entries(context.headers).flatMap(([name, values]) =>
+            values.map((value) => `${name}: ${value}`),
+          );
+    case "request-body":
+      return [context.requestBody];
+    case "argument":
+      return context.argumentEntries;
+    case "response-body":
+      return [context.responseBody];
+    case "return-value":
+      return [context.returnText];
+    case "action":
+      return Object.entries(context.facts).map(
+        ([key, value]) => `${key}=${String(value)}`,
+      );
+  }
+};
+
+const getTargetJson = (rule: SecurityRule, context: RuleContext): unknown => {
+  switch (rule.target) {
+    case "request-header": {
+      if (rule.selector.trim() !== "") {
+        return getHeaderValues(context.headers, rule.selector.trim())[0];
+      }
+      return Object.fromEntries(
+        Object.entries(context.headers).map(([name, values]) => [
+          name.toLowerCase(),
+          values[0],
+        ]),
+      );
+    }
+    case "request-body":
+      return safeJsonParse(context.requestBody);
+    case "argument":
+      return context.arguments;
+    case "response-body":
+      return safeJsonParse(context.responseBody);
+    case "return-value":
+      return context.returnValue;
+    case "action":
+      // Filters test members, so `$[?(...)]` needs the facts one level down.
+      return { action: context.facts };
+  }
+};
+
+const formatMatch = (value: unknown): string =>
+  typeof value === "string" ? value : (JSON.stringify(value) ?? "");
+
+const truncateEvidence = (value: string): string =>
+  value.length > MAX_EVIDENCE_LENGTH
+    ? `${value.slice(0, MAX_EVIDENCE_LENGTH)}...`
+    : value;
+
+const findMatches = (rule: SecurityRule, context: RuleContext): string[] => {
+  switch (rule.matcher) {
+    case "regex": {
+      const regex = new RegExp(rule.pattern, rule.caseSensitive ? "gm" : "gim");
+      return getTargetTexts(rule, context).flatMap((text) =>
+        [...text.matchAll(regex)].map((match) => match[1] ?? match[0]),
+      );
+    }
+    case "equals": {
+      const expected = rule.caseSensitive
+        ? rule.pattern
+        : rule.pattern.toLowerCase();
+      return getTargetTexts(rule, context).filter(
+        (text) => (rule.caseSensitive ? text : text.toLowerCase()) === expected,
+      );
+    }
+    case "jsonpath": {
+      const path = compileJsonPath(rule.pattern);
+      if (path.kind === "Error") return [];
+      return queryJsonPath(path.value, getTargetJson(rule, context))
+        .filter((value) => value !== undefined)
+        .map(formatMatch);
+    }
+    case "leak":
+      return isLeakKind(rule.pattern)
+        ? findLeaks(getTargetJson(rule, context), rule.pattern)
+        : [];
+  }
+};
+
+export const validateSecurityRule = (rule: SecurityRule): Result<void> => {
+  if (rule.name.trim() === "") {
+    return { kind: "Error", error: "Rule name is required" };
+  }
+  if (rule.message.trim() === "") {
+    return { kind: "Error", error: `${rule.name}: message is required` };
+  }
+
+  if (rule.matcher === "regex") {
+    try {
+      new RegExp(rule.pattern);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid regex";
+      return { kind: "Error", error: `${rule.name}: ${message}` };
+    }
+  }
+
+  if (rule.matcher === "jsonpath") {
+    const path = compileJsonPath(rule.pattern);
+    if (path.kind === "Error") {
+      return { kind: "Error", error: `${rule.name}: ${path.error}` };
+    }
+  }
+
+  if (rule.matcher === "leak" && !isLeakKind(rule.pattern)) {
+    return {
+      kind: "Error",
+      error: `${rule.name}: unknown leak kind "${rule.pattern}"`,
+    };
+  }
+
+  return { kind: "Ok", value: undefined };
+};
+
+export const evaluateSecurityRules = (
+  rules: SecurityRule[],
+  context: RuleContext,
+): SecurityRuleMatch[] => {
+  const results: SecurityRuleMatch[] = [];
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    let matches: string[];
+    try {
+      matches = findMatches(rule, context);
+    } catch {
+      continue;
+    }
+
+    const base = {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      severity: rule.severity,
+    };
+
+    if (rule.negate) {
+      if (matches.length === 0) {
+        results.push({ ...base, message: rule.message, evidence: [] });
+      }
+      continue;
+    }
+
+    const unique = [...new Set(matches)].slice(0, MAX_MATCHES_PER_RULE);
+    if (rule.message.includes(MATCH_PLACEHOLDER)) {
+      for (const match of unique) {
+        results.push({
+          ...base,
+          message: rule.message.split(MATCH_PLACEHOLDER).join(match),
+          evidence: [],
+        });
+      }
+    } else if (unique.length > 0) {
+      results.push({
+        ...base,
+        message: rule.message,
+        evidence: unique.map(truncateEvidence),
+      });
+    }
+  }
+  return results;
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import { compileJsonPath, queryJsonPath } from "./jsonpath";
+
+const query = (path: string, value: unknown) => {
+  const compiled = compileJsonPath(path);
+  if (compiled.kind === "Error") throw new Error(compiled.error);
+  return queryJsonPath(compiled.value, value);
+};
+
+describe("queryJsonPath", () => {
+  it("filters array elements and object members, not the node itself", () => {
+    expect(query("$[?(@.id > 1)]", [{ id: 1 }, { id: 2 }])).toEqual([
+      { id: 2 },
+    ]);
+    expect(
+      query("$.user[?(@ == 'admin')]", { user: { role: "admin" } }),
+    ).toEqual(["admin"]);
+    expect(
+      query("$.user[?(@.role == 'admin')]", { user: { role: "admin" } }),
+    ).toEqual([]);
+  });
+
+  it("keeps && and )] inside literals", () => {
+    const items = [{ name: "a && b" }, { name: "x)]y" }, { name: "a" }];
+    expect(query("$[?(@.name == 'a && b')].name", items)).toEqual(["a && b"]);
+    expect(query('$[?(@.name == "x)]y")].name', items)).toEqual(["x)]y"]);
+    expect(query("$[?(@.name =~ /\\)]/)].name", items)).toEqual(["x)]y"]);
+    expect(
+      query("$[?(@.name != 'a && b' && @.name != 'a')].name", items),
+    ).toEqual(["x)]y"]);
+  });
+
+  it("rejects unsupported syntax", () => {
+    for (const path of [
+      "$[?(@.a || @.b)]",
+      "$[0:2]",
+      "$[0,1]",
+      "$[?@.a]",
+      "$[?(@.a == 'open)]",
+      "$[?(@.items[?(@.x)])]",
+    ]) {
+      expect(compileJsonPath(path).kind).toBe("Error");
+    }
+  });
+});
@@ -0,0 +1,291 @@
+import type { Result } from "../types";
+
+type Operand =
+  | { kind: "path"; segments: Segment[] }
+  | { kind: "literal"; value: unknown }
+  | { kind: "regex"; regex: RegExp };
+
+type Condition = {
+  left: Segment[];
+  operator: string | undefined;
+  right: Operand | undefined;
+};
+
+type Segment =
+  | { kind: "child"; name: string }
+  | { kind: "index"; index: number }
+  | { kind: "wildcard" }
+  | { kind: "descendant"; name: string | undefined }
+  | { kind: "filter"; conditions: Condition[] };
+
+type JsonPath = Segment[];
+
+const NAME_PATTERN = /^(\*|[A-Za-z_$][\w$-]*)/;
+
+const BRACKET_PATTERN = /^\[\s*(\*|-?\d+|'[^']*'|"[^"]*")\s*\]/;
+
+const CONDITION_PATTERN =
+  /^@((?:\.[\w$-]+|\[[^\]]*\])*)\s*(?:(==|!=|>=|<=|>|<|=~)\s*(.+))?$/;
+
+const QUOTED_PATTERN = /^(?:'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")$/;
+
+const DELIMITERS = new Set(["'", '"', "/"]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const getChildren = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value as unknown[];
+  return isRecord(value) ? Object.values(value) : [];
+};
+
+// Finds `token` outside string and regex literals, so a literal containing
+// `&&` or `)]` does not end a condition or filter early.
+const findUnquoted = (text: string, token: string, from = 0): number => {
+  let delimiter: string | undefined;
+  for (let index = from; index < text.length; index++) {
+    const char = text[index] ?? "";
+    if (delimiter !== undefined) {
+      if (char === "\\") index += 1;
+      else if (char === delimiter) delimiter = undefined;
+      continue;
+    }
+    if (DELIMITERS.has(char)) {
+      delimiter = char;
+      continue;
+    }
+    if (text.startsWith(token, index)) return index;
+  }
+  return -1;
+};
+
+const splitUnquoted = (text: string, token: string): string[] => {
+  const parts: string[] = [];
+  let start = 0;
+  let end = findUnquoted(text, token);
+  while (end !== -1) {
+    parts.push(text.slice(start, end));
+    start = end + token.length;
+    end = findUnquoted(text, token, start);
+  }
+  parts.push(text.slice(start));
+  return parts;
+};
+
+const getDescendants = (value: unknown): unknown[] => {
+  const descendants: unknown[] = [];
+  const pending = getChildren(value);
+  while (pending.length > 0) {
+    const next = pending.shift();
+    descendants.push(next);
+    pending.push(...getChildren(next));
+  }
+  return descendants;
+};
+
+const parseOperand = (text: string): Operand => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("@")) {
+    return { kind: "path", segments: parseSegments(`$${trimmed.slice(1)}`) };
+  }
+
+  const regex = trimmed.match(/^\/(.*)\/([a-z]*)$/);
+  if (regex !== null) {
+    return { kind: "regex", regex: new RegExp(regex[1] ?? "", regex[2]) };
+  }
+
+  const quoted = trimmed.match(QUOTED_PATTERN);
+  if (quoted !== null) {
+    const value = (quoted[1] ?? quoted[2] ?? "").replace(/\\(.)/g, "$1");
+    return { kind: "literal", value };
+  }
+
+  if (trimmed === "true" || trimmed === "false") {
+    return { kind: "literal", value: trimmed === "true" };
+  }
+  if (trimmed === "null") return { kind: "literal", value: null };
+  if (/^-?\d+(?:\.\d+)?$/.test(trimmed)) {
+    return { kind: "literal", value: Number(trimmed) };
+  }
+
+  throw new Error(`Invalid filter value: ${trimmed}`);
+};
+
+const parseConditions = (expression: string): Condition[] =>
+  splitUnquoted(expression, "&&").map((part) => {
+    const match = part.trim().match(CONDITION_PATTERN);
+    if (match === null) throw new Error(`Invalid filter: ${part.trim()}`);
+
+    return {
+      left: parseSegments(`$${match[1] ?? ""}`),
+      operator: match[2],
+      right: match[3] !== undefined ? parseOperand(match[3]) : undefined,
+    };
+  });
+
+const parseSegments = (path: string): Segment[] => {
+  if (!path.startsWith("$")) throw new Error("JSONPath must start with $");
+
+  const segments: Segment[] = [];
+  let position = 1;
+  while (position < path.length) {
+    const rest = path.slice(position);
+
+    if (rest.startsWith("..")) {
+      const name = rest.slice(2).match(NAME_PATTERN)?.[1];
+      if (name === undefined) {
+        throw new Error(`Invalid descendant segment at ${position}`);
+      }
+      segments.push({
+        kind: "descendant",
+        name: name === "*" ? undefined : name,
+      });
+      position += 2 + name.length;
+      continue;
+    }
+
+    if (rest.startsWith(".")) {
+      const name = rest.slice(1).match(NAME_PATTERN)?.[1];
+      if (name === undefined) {
+        throw new Error(`Invalid child segment at ${position}`);
+      }
+      segments.push(
+        name === "*" ? { kind: "wildcard" } : { kind: "child", name },
+      );
+      position += 1 + name.length;
+      continue;
+    }
+
+    if (rest.startsWith("[?(")) {
+      const end = findUnquoted(rest, ")]", 3);
+      if (end === -1) throw new Error(`Unclosed filter at ${position}`);
+      segments.push({
+        kind: "filter",
+        conditions: parseConditions(rest.slice(3, end)),
+      });
+      position += end + 2;
+      continue;
+    }
+
+    const bracket = rest.match(BRACKET_PATTERN);
+    if (bracket !== null) {
+      const value = bracket[1] ?? "";
+      if (value === "*") {
+        segments.push({ kind: "wildcard" });
+      } else if (/^-?\d+$/.test(value)) {
+        segments.push({ kind: "index", index: Number(value) });
+      } else {
+        segments.push({ kind: "child", name: value.slice(1, -1) });
+      }
+      position += bracket[0].length;
+      continue;
+    }
+
+    throw new Error(`Unexpected '${rest[0] ?? ""}' at ${position}`);
+  }
+  return segments;
+};
+
+const evaluateOperand = (operand: Operand, node: unknown): unknown => {
+  switch (operand.kind) {
+    case "path":
+      return evaluate(operand.segments, node)[0];
+    case "literal":
+      return operand.value;
+    default:
+      return operand.regex;
+  }
+};
+
+const matchesCondition = (condition: Condition, node: unknown): boolean => {
+  const left = evaluate(condition.left, node)[0];
+  if (condition.operator === undefined || condition.right === undefined) {
+    return left !== undefined && left !== null && left !== false;
+  }
+
+  const right = evaluateOperand(condition.right, node);
+  switch (condition.operator) {
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+    case "=~":
+      return right instanceof RegExp && right.test(String(left));
+    default:
+      break;
+  }
+
+  if (typeof left !== "number" || typeof right !== "number") return false;
+  switch (condition.operator) {
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    case "<":
+      return left < right;
+    default:
+      return left <= right;
+  }
+};
+
+const applySegment = (segment: Segment, nodes: unknown[]): unknown[] => {
+  const results: unknown[] = [];
+  for (const node of nodes) {
+    switch (segment.kind) {
+      case "child":
+        if (isRecord(node) && segment.name in node) {
+          results.push(node[segment.name]);
+        }
+        break;
+      case "index":
+        if (Array.isArray(node)) {
+          const items = node as unknown[];
+          const index =
+            segment.index < 0 ? items.length + segment.index : segment.index;
+          if (index >= 0 && index < items.length) results.push(items[index]);
+        }
+        break;
+      case "wildcard":
+        results.push(...getChildren(node));
+        break;
+      case "descendant":
+        if (segment.name === undefined) {
+          results.push(...getDescendants(node));
+          break;
+        }
+        for (const candidate of [node, ...getDescendants(node)]) {
+          if (isRecord(candidate) && segment.name in candidate) {
+            results.push(candidate[segment.name]);
+          }
+        }
+        break;
+      case "filter": {
+        results.push(
+          ...getChildren(node).filter((candidate) =>
+            segment.conditions.every((c) => matchesCondition(c, candidate)),
+          ),
+        );
+        break;
+      }
+    }
+  }
+  return results;
+};
+
+const evaluate = (segments: Segment[], value: unknown): unknown[] =>
+  segments.reduce<unknown[]>(
+    (nodes, segment) => applySegment(segment, nodes),
+    [value],
+  );
+
+export const compileJsonPath = (path: string): Result<JsonPath> => {
+  try {
+    return { kind: "Ok", value: parseSegments(path.trim()) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Invalid JSONPath";
+    return { kind: "Error", error: message };
+  }
+};
+
+export const queryJsonPath = (path: JsonPath, value: unknown): unknown[] =>
+  evaluate(path, value);
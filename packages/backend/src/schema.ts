@@ -0,0 +1,262 @@
+import { toPlainValue } from "./flight/values";
+import type {
+  ActionUsage,
+  FlightEntry,
+  FlightValue,
+  InferredSchema,
+} from "./types";
+
+type SchemaNode = {
+  count: number;
+  types: Set<string>;
+  values: Map<string, number>;
+  objectCount: number;
+  properties: Map<string, SchemaNode>;
+  items: SchemaNode | undefined;
+};
+
+const MAX_EXAMPLES = 5;
+const MAX_ENUM_VALUES = 5;
+const MIN_ENUM_SAMPLES = 3;
+
+const createNode = (): SchemaNode => ({
+  count: 0,
+  types: new Set<string>(),
+  values: new Map<string, number>(),
+  objectCount: 0,
+  properties: new Map<string, SchemaNode>(),
+  items: undefined,
+});
+
+const getValueType = (value: FlightValue): string => {
+  switch (value.kind) {
+    case "number":
+      return Number.isInteger(value.value) ? "integer" : "number";
+    case "special":
+      return "number";
+    case "formData":
+    case "element":
+      return "object";
+    case "set":
+      return "array";
+    case "map":
+      return "object";
+    default:
+      return value.kind;
+  }
+};
+
+const isScalar = (value: FlightValue): boolean => {
+  switch (value.kind) {
+    case "string":
+    case "number":
+    case "boolean":
+    case "bigint":
+    case "date":
+    case "special":
+    case "null":
+    case "undefined":
+      return true;
+    default:
+      return false;
+  }
+};
+
+const getEntries = (value: FlightValue): FlightEntry[] | undefined => {
+  switch (value.kind) {
+    case "object":
+    case "formData":
+      return value.entries;
+    case "element":
+      return value.props;
+    case "map":
+      return value.entries.flatMap((e) =>
+        e.key.kind === "string" ? [{ key: e.key.value, value: e.value }] : [],
+      );
+    default:
+      return undefined;
+  }
+};
+
+const mergeValue = (node: SchemaNode, value: FlightValue) => {
+  if (value.kind === "promise") {
+    mergeValue(node, value.value);
+    return;
+  }
+
+  node.count += 1;
+  node.types.add(getValueType(value));
+
+  if (isScalar(value)) {
+    const key = JSON.stringify(toPlainValue(value));
+    node.values.set(key, (node.values.get(key) ?? 0) + 1);
+    return;
+  }
+
+  const entries = getEntries(value);
+  if (entries !== undefined) {
+    node.objectCount += 1;
+
+    const grouped = new Map<string, FlightValue[]>();
+    for (const entry of entries) {
+      grouped.set(entry.key, [...(grouped.get(entry.key) ?? []), entry.value]);
+    }
+
+    for (const [key, values] of grouped) {
+      const property = node.properties.get(key) ?? createNode();
+      node.properties.set(key, property);
+
+      if (values.length === 1 && values[0] !== undefined) {
+        mergeValue(property, values[0]);
+      } else {
+        mergeValue(property, { kind: "array", items: values });
+      }
+    }
+    return;
+  }
+
+  if (value.kind === "array" || value.kind === "set") {
+    const items = node.items ?? createNode();
+    node.items = items;
+    for (const item of value.items) {
+      mergeValue(items, item);
+    }
+  }
+};
+
+const finalizeNode = (node: SchemaNode, optional: boolean): InferredSchema => {
+  const distinct = [...node.values.entries()];
+  const isEnumLike =
+    distinct.length > 0 &&
+    distinct.length <= MAX_ENUM_VALUES &&
+    node.count >= MIN_ENUM_SAMPLES &&
+    distinct.length < node.count;
+
+  return {
+    types: [...node.types].sort(),
+    optional,
+    samples: node.count,
+    examples: distinct.slice(0, MAX_EXAMPLES).map(([value]) => value),
+    enumValues: isEnumLike ? distinct.map(([value]) => value) : undefined,
+    properties: [...node.properties.entries()].map(([key, property]) => ({
+      key,
+      schema: finalizeNode(property, property.count < node.objectCount),
+    })),
+    items:
+      node.items !== undefined ? finalizeNode(node.items, false) : undefined,
+  };
+};
+
+export const inferArgumentSchemas = (
+  usages: ActionUsage[],
+): InferredSchema[] => {
+  const positions: SchemaNode[] = [];
+
+  for (const usage of usages) {
+    usage.decodedBody.args.forEach((arg, index) => {
+      const node = positions[index] ?? createNode();
+      positions[index] = node;
+      mergeValue(node, arg);
+    });
+  }
+
+  return positions.map((node) =>
+    finalizeNode(node, node.count < usages.length),
+  );
+};
+
+const describeSchema = (schema: InferredSchema, depth: number): string => {
+  if (schema.enumValues !== undefined) return schema.enumValues.join(" | ");
+
+  return schema.types
+    .map((type) => {
+      if (type === "object" && schema.properties.length > 0) {
+        if (depth >= 2) return "{…}";
+        const fields = schema.properties.map(
+          (p) =>
+            `${p.key}${p.schema.optional ? "?" : ""}: ${describeSchema(p.schema, depth + 1)}`,
+        );
+        return `{ ${fields.join(", ")} }`;
+      }
+      if (type === "array" && schema.items !== undefined) {
+        return `${describeSchema(schema.items, depth + 1)}[]`;
+      }
+      return type;
+    })
+    .join(" | ");
+};
+
+export const formatSchemaSignature = (schemas: InferredSchema[]): string => {
+  const args = schemas.map(
+    (schema, index) =>
+      `arg${index}${schema.optional ? "?" : ""}: ${describeSchema(schema, 0)}`,
+  );
+  return `(${args.join(", ")})`;
+};
+
+const JSON_SCHEMA_TYPES: Record<string, Record<string, unknown>> = {
+  string: { type: "string" },
+  integer: { type: "integer" },
+  number: { type: "number" },
+  boolean: { type: "boolean" },
+  null: { type: "null" },
+  undefined: { type: "null" },
+  object: { type: "object" },
+  array: { type: "array" },
+  date: { type: "string", format: "date-time" },
+  bigint: { type: "string", pattern: "^-?\\d+$" },
+  file: { type: "string", contentEncoding: "binary" },
+  binary: { type: "string", contentEncoding: "binary" },
+};
+
+const toJsonSchema = (schema: InferredSchema): Record<string, unknown> => {
+  const variants = schema.types.map((type) => {
+    const base = { ...(JSON_SCHEMA_TYPES[type] ?? {}) };
+
+    if (type === "object" && schema.properties.length > 0) {
+      const properties: Record<string, unknown> = {};
+      for (const property of schema.properties) {
+        Object.defineProperty(properties, property.key, {
+          value: toJsonSchema(property.schema),
+          enumerable: true,
+        });
+      }
+      base.properties = properties;
+      base.required = schema.properties
+        .filter((p) => !p.schema.optional)
+        .map((p) => p.key);
+    }
+
+    if (type === "array" && schema.items !== undefined) {
+      base.items = toJsonSchema(schema.items);
+    }
+
+    return base;
+  });
+
+  const result: Record<string, unknown> =
+    variants.length === 1 ? { ...variants[0] } : { anyOf: variants };
+
+  if (schema.examples.length > 0) {
+    result.examples = schema.examples.map((e) => JSON.parse(e) as unknown);
+  }
+  if (schema.enumValues !== undefined) {
+    result.enum = schema.enumValues.map((e) => JSON.parse(e) as unknown);
+  }
+
+  return result;
+};
+
+export const toArgumentsJsonSchema = (
+  schemas: InferredSchema[],
+): Record<string, unknown> => {
+  const required = schemas.findIndex((schema) => schema.optional);
+
+  return {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    type: "array",
+    prefixItems: schemas.map(toJsonSchema),
+    minItems: required === -1 ? schemas.length : required,
+    items: false,
+  };
+};
@@ -0,0 +1,973 @@
+import type { SDK } from "caido:plugin";
+import type { Database } from "sqlite";
+
+import type {
+  ActionEntry,
+  ActionIdRotation,
+  ActionProbeResult,
+  ActionUsage,
+  AuthzResult,
+  ChunkIntelItem,
+  DecodedActionBody,
+  DiscoveredActionInternal,
+  FlightCheckResult,
+  IdorResult,
+  MiddlewareRouteResult,
+  ObservedBuild,
+  OriginResult,
+  ProfileReplayResult,
+  RaceResult,
+  RouteInventoryEntry,
+  SessionProfile,
+  VersionFingerprint,
+} from "./types";
+
+/**
+ * Rows written before request bodies were decoded have no `decodedBody` or
+ * `returnValue`; callers re-decode them from the stored request and response.
+ */
+export type StoredActionEntry = Omit<ActionEntry, "decodedBody"> & {
+  decodedBody?: DecodedActionBody;
+};
+export type StoredActionUsage = Omit<ActionUsage, "decodedBody"> & {
+  decodedBody?: DecodedActionBody;
+};
+
+type ProjectState = {
+  actions: StoredActionEntry[];
+  actionNotesByKey: Record<string, string>;
+  actionNamesByKey: Record<string, string>;
+  discoveredActionsByKey: Record<string, DiscoveredActionInternal>;
+  actionRotationsByKey: Record<string, ActionIdRotation>;
+  actionUsagesByKey: Record<string, StoredActionUsage[]>;
+  authzResultsById: Record<string, AuthzResult>;
+  idorResultsById: Record<string, IdorResult>;
+  originResultsById: Record<string, OriginResult>;
+  raceResultsById: Record<string, RaceResult>;
+  middlewareResultsByKey: Record<string, MiddlewareRouteResult>;
+  sessionProfilesById: Record<string, SessionProfile>;
+  profileReplaysByKey: Record<string, ProfileReplayResult>;
+  actionProbesByKey: Record<string, ActionProbeResult>;
+  flightChecksById: Record<string, FlightCheckResult>;
+  versionFingerprintsByHost: Record<string, VersionFingerprint>;
+  chunkIntelByKey: Record<string, ChunkIntelItem>;
+  routeInventoryByKey: Record<string, RouteInventoryEntry>;
+  observedBuildsByKey: Record<string, ObservedBuild>;
+  settingsByKey: Record<string, string>;
+  seenRequestIds: Set<string>;
+};
+
+type DataRow = { data: string };
+type DiscoveredActionRow = { action_key: string; data: string };
+type ActionRotationRow = { rotation_key: string; data: string };
+type ActionUsageRow = { action_id: string; data: string };
+type ActionNoteRow = { action_key: string; note: string };
+type ActionNameRow = { action_key: string; function_name: string };
+type SeenRequestRow = { request_id: string };
+type SettingRow = { key: string; value: string };
+type ProfileReplayRow = { replay_key: string; data: string };
+type ActionProbeRow = { probe_key: string; data: string };
+type ChunkIntelRow = { item_key: string; data: string };
+type RouteInventoryRow = { route_key: string; data: string };
+type ObservedBuildRow = { build_key: string; data: string };
+
+let db: Database | undefined = undefined;
+let currentProjectId: string | undefined = undefined;
+
+const emptyProjectState = (): ProjectState => ({
+  actions: [],
+  actionNotesByKey: {},
+  actionNamesByKey: {},
+  discoveredActionsByKey: {},
+  actionRotationsByKey: {},
+  actionUsagesByKey: {},
+  authzResultsById: {},
+  idorResultsById: {},
+  originResultsById: {},
+  raceResultsById: {},
+  middlewareResultsByKey: {},
+  sessionProfilesById: {},
+  profileReplaysByKey: {},
+  actionProbesByKey: {},
+  flightChecksById: {},
+  versionFingerprintsByHost: {},
+  chunkIntelByKey: {},
+  routeInventoryByKey: {},
+  observedBuildsByKey: {},
+  settingsByKey: {},
+  seenRequestIds: new Set<string>(),
+});
+
+type LegacyDiscoveredAction = Partial<DiscoveredActionInternal> &
+  Pick<
+    DiscoveredActionInternal,
+    "actionId" | "functionName" | "chunkFile" | "firstSeen" | "chunkRequestId"
+  >;
+type LegacyDiscoveredRow = { project_id: string; data: string };
+type LegacyActionRow = { project_id: string; action_id: string; value: string };
+type UserVersionRow = { user_version: number };
+
+const getPageHost = (url: string | undefined): string =>
+  url?.match(/^[a-z][a-z0-9+.-]*:\/\/([^/:?#]+)/i)?.[1] ?? "";
+
+// Same key layout as getActionKey in index.ts.
+const getStoredActionKey = (
+  host: string,
+  buildId: string | undefined,
+  actionId: string,
+) => `${host}|${buildId ?? ""}|${actionId}`;
+
+const hasTable = async (database: Database, name: string) => {
+  const rows = await (
+    await database.prepare(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?",
+    )
+  ).all<{ name: string }>(name);
+  return rows.length > 0;
+};
+
+/**
+ * Copies rows of the pre-build `discovered_actions` table (keyed by action ID
+ * only) into `discovered_action_builds`. The old rows carry no build ID, and
+ * only their page URL (if any) tells the host.
+ */
+const migrateDiscoveredActions = async (database: Database) => {
+  if (!(await hasTable(database, "discovered_actions"))) return;
+
+  const rows = await (
+    await database.prepare("SELECT project_id, data FROM discovered_actions")
+  ).all<LegacyDiscoveredRow>();
+  const insert = await database.prepare(
+    "INSERT OR IGNORE INTO discovered_action_builds (project_id, action_key, data) VALUES (?, ?, ?)",
+  );
+  for (const row of rows) {
+    const legacy = JSON.parse(row.data) as LegacyDiscoveredAction;
+    const discovered: DiscoveredActionInternal = {
+      actionId: legacy.actionId,
+      functionName: legacy.functionName,
+      host: legacy.host ?? getPageHost(legacy.pageUrl),
+      buildId: legacy.buildId,
+      source: legacy.source ?? "chunk",
+      pageUrl: legacy.pageUrl,
+      chunkFile: legacy.chunkFile,
+      moduleId: legacy.moduleId,
+      callSiteOffset: legacy.callSiteOffset,
+      sourceLocation: legacy.sourceLocation,
+      firstSeen: legacy.firstSeen,
+      chunkRequestId: legacy.chunkRequestId,
+    };
+    const key = getStoredActionKey(
+      discovered.host,
+      discovered.buildId,
+      discovered.actionId,
+    );
+    await insert.run(row.project_id, key, JSON.stringify(discovered));
+  }
+
+  await database.exec("DROP TABLE discovered_actions");
+};
+
+/**
+ * Copies rows of the pre-build `action_notes` and `action_names` tables (keyed
+ * by action ID only) to every host/build key the action was discovered or
+ * executed under. Rows of actions seen under no key are dropped.
+ */
+const migrateActionNotesAndNames = async (database: Database) => {
+  const keysByAction = new Map<string, Set<string>>();
+  const addKey = (projectId: string, key: string) => {
+    const actionId = key.split("|")[2] ?? "";
+    const scoped = `${projectId}|${actionId}`;
+    const keys = keysByAction.get(scoped) ?? new Set<string>();
+    keys.add(key);
+    keysByAction.set(scoped, keys);
+  };
+
+  const discoveredRows = await (
+    await database.prepare(
+      "SELECT project_id, action_key FROM discovered_action_builds",
+    )
+  ).all<{ project_id: string; action_key: string }>();
+  for (const row of discoveredRows) {
+    addKey(row.project_id, row.action_key);
+  }
+
+  const usageRows = await (
+    await database.prepare(
+      "SELECT project_id, action_id, data FROM action_usages",
+    )
+  ).all<{ project_id: string; action_id: string; data: string }>();
+  for (const row of usageRows) {
+    const usage = JSON.parse(row.data) as StoredActionUsage;
+    addKey(
+      row.project_id,
+      getStoredActionKey(getPageHost(usage.url), usage.buildId, row.action_id),
+    );
+  }
+
+  for (const [legacy, table, column] of [
+    ["action_notes", "action_build_notes", "note"],
+    ["action_names", "action_build_names", "function_name"],
+  ] as const) {
+    if (!(await hasTable(database, legacy))) continue;
+
+    const rows = await (
+      await database.prepare(
+        `SELECT project_id, action_id, ${column} AS value FROM ${legacy}`,
+      )
+    ).all<LegacyActionRow>();
+    const insert = await database.prepare(
+      `INSERT OR IGNORE INTO ${table} (project_id, action_key, ${column}) VALUES (?, ?, ?)`,
+    );
+    for (const row of rows) {
+      const keys = keysByAction.get(`${row.project_id}|${row.action_id}`);
+      for (const key of keys ?? []) {
+        await insert.run(row.project_id, key, row.value);
+      }
+    }
+
+    await database.exec(`DROP TABLE ${legacy}`);
+  }
+};
+
+/**
+ * Schema changes that move existing data, applied once each in order and
+ * tracked through `PRAGMA user_version`.
+ */
+const MIGRATIONS: ((database: Database) => Promise<void>)[] = [
+  migrateDiscoveredActions,
+  migrateActionNotesAndNames,
+];
+
+const runMigrations = async (database: Database) => {
+  const row = await (
+    await database.prepare("PRAGMA user_version")
+  ).get<UserVersionRow>();
+  const applied = row?.user_version ?? 0;
+
+  for (let version = applied; version < MIGRATIONS.length; version += 1) {
+    const migrate = MIGRATIONS[version];
+    if (migrate === undefined) continue;
+    await migrate(database);
+    await database.exec(`PRAGMA user_version = ${version + 1}`);
+  }
+};
+
+export const initStorage = async (sdk: SDK): Promise<void> => {
+  const database = await sdk.meta.db();
+
+  await database.exec(`
+    CREATE TABLE IF NOT EXISTS actions (
+      project_id TEXT NOT NULL,
+      request_id TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, request_id)
+    );
+    CREATE TABLE IF NOT EXISTS action_usages (
+      project_id TEXT NOT NULL,
+      action_id TEXT NOT NULL,
+      request_id TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, action_id, request_id)
+    );
+    CREATE TABLE IF NOT EXISTS action_build_notes (
+      project_id TEXT NOT NULL,
+      action_key TEXT NOT NULL,
+      note TEXT NOT NULL,
+      PRIMARY KEY (project_id, action_key)
+    );
+    CREATE TABLE IF NOT EXISTS action_build_names (
+      project_id TEXT NOT NULL,
+      action_key TEXT NOT NULL,
+      function_name TEXT NOT NULL,
+      PRIMARY KEY (project_id, action_key)
+    );
+    CREATE TABLE IF NOT EXISTS discovered_action_builds (
+      project_id TEXT NOT NULL,
+      action_key TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, action_key)
+    );
+    CREATE TABLE IF NOT EXISTS action_rotations (
+      project_id TEXT NOT NULL,
+      rotation_key TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, rotation_key)
+    );
+    CREATE TABLE IF NOT EXISTS authz_results (
+      project_id TEXT NOT NULL,
+      action_id TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, action_id)
+    );
+    CREATE TABLE IF NOT EXISTS idor_results (
+      project_id TEXT NOT NULL,
+      action_id TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, action_id)
+    );
+    CREATE TABLE IF NOT EXISTS origin_results (
+      project_id TEXT NOT NULL,
+      action_id TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, action_id)
+    );
+    CREATE TABLE IF NOT EXISTS race_results (
+      project_id TEXT NOT NULL,
+      action_id TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, action_id)
+    );
+    CREATE TABLE IF NOT EXISTS middleware_results (
+      project_id TEXT NOT NULL,
+      route_key TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, route_key)
+    );
+    CREATE TABLE IF NOT EXISTS session_profiles (
+      project_id TEXT NOT NULL,
+      profile_id TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, profile_id)
+    );
+    CREATE TABLE IF NOT EXISTS profile_replays (
+      project_id TEXT NOT NULL,
+      replay_key TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, replay_key)
+    );
+    CREATE TABLE IF NOT EXISTS action_probes (
+      project_id TEXT NOT NULL,
+      probe_key TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, probe_key)
+    );
+    CREATE TABLE IF NOT EXISTS flight_checks (
+      project_id TEXT NOT NULL,
+      action_id TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, action_id)
+    );
+    CREATE TABLE IF NOT EXISTS version_fingerprints (
+      project_id TEXT NOT NULL,
+      host TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, host)
+    );
+    CREATE TABLE IF NOT EXISTS chunk_intelligence (
+      project_id TEXT NOT NULL,
+      item_key TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, item_key)
+    );
+    CREATE TABLE IF NOT EXISTS route_inventory (
+      project_id TEXT NOT NULL,
+      route_key TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, route_key)
+    );
+    CREATE TABLE IF NOT EXISTS observed_builds (
+      project_id TEXT NOT NULL,
+      build_key TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (project_id, build_key)
+    );
+    CREATE TABLE IF NOT EXISTS settings (
+      project_id TEXT NOT NULL,
+      key TEXT NOT NULL,
+      value TEXT NOT NULL,
+      PRIMARY KEY (project_id, key)
+    );
+    CREATE TABLE IF NOT EXISTS seen_requests (
+      project_id TEXT NOT NULL,
+      request_id TEXT NOT NULL,
+      PRIMARY KEY (project_id, request_id)
+    );
+  `);
+
+  await runMigrations(database);
+
+  db = database;
+};
+
+export const setStorageProject = (projectId: string | undefined): void => {
+  currentProjectId = projectId;
+};
+
+const getScope = (): { database: Database; projectId: string } | undefined => {
+  if (db === undefined || currentProjectId === undefined) return undefined;
+  return { database: db, projectId: currentProjectId };
+};
+
+export const loadProjectState = async (): Promise<ProjectState> => {
+  const state = emptyProjectState();
+  const scope = getScope();
+  if (scope === undefined) return state;
+
+  const { database, projectId } = scope;
+
+  const actionRows = await (
+    await database.prepare(
+      "SELECT data FROM actions WHERE project_id = ? ORDER BY position",
+    )
+  ).all<DataRow>(projectId);
+  state.actions = actionRows.map(
+    (row) => JSON.parse(row.data) as StoredActionEntry,
+  );
+
+  const usageRows = await (
+    await database.prepare(
+      "SELECT action_id, data FROM action_usages WHERE project_id = ? ORDER BY position",
+    )
+  ).all<ActionUsageRow>(projectId);
+  for (const row of usageRows) {
+    const usage = JSON.parse(row.data) as StoredActionUsage;
+    const key = getStoredActionKey(
+      getPageHost(usage.url),
+      usage.buildId,
+      row.action_id,
+    );
+    const usages = state.actionUsagesByKey[key] ?? [];
+    usages.push(usage);
+    state.actionUsagesByKey[key] = usages;
+  }
+
+  const noteRows = await (
+    await database.prepare(
+      "SELECT action_key, note FROM action_build_notes WHERE project_id = ?",
+    )
+  ).all<ActionNoteRow>(projectId);
+  for (const row of noteRows) {
+    state.actionNotesByKey[row.action_key] = row.note;
+  }
+
+  const nameRows = await (
+    await database.prepare(
+      "SELECT action_key, function_name FROM action_build_names WHERE project_id = ?",
+    )
+  ).all<ActionNameRow>(projectId);
+  for (const row of nameRows) {
+    state.actionNamesByKey[row.action_key] = row.function_name;
+  }
+
+  const discoveredRows = await (
+    await database.prepare(
+      "SELECT action_key, data FROM discovered_action_builds WHERE project_id = ?",
+    )
+  ).all<DiscoveredActionRow>(projectId);
+  for (const row of discoveredRows) {
+    state.discoveredActionsByKey[row.action_key] = JSON.parse(
+      row.data,
+    ) as DiscoveredActionInternal;
+  }
+
+  const rotationRows = await (
+    await database.prepare(
+      "SELECT rotation_key, data FROM action_rotations WHERE project_id = ?",
+    )
+  ).all<ActionRotationRow>(projectId);
+  for (const row of rotationRows) {
+    state.actionRotationsByKey[row.rotation_key] = JSON.parse(
+      row.data,
+    ) as ActionIdRotation;
+  }
+
+  const authzRows = await (
+    await database.prepare(
+      "SELECT data FROM authz_results WHERE project_id = ?",
+    )
+  ).all<DataRow>(projectId);
+  for (const row of authzRows) {
+    const result = JSON.parse(row.data) as AuthzResult;
+    state.authzResultsById[result.actionId] = result;
+  }
+
+  const idorRows = await (
+    await database.prepare("SELECT data FROM idor_results WHERE project_id = ?")
+  ).all<DataRow>(projectId);
+  for (const row of idorRows) {
+    const result = JSON.parse(row.data) as IdorResult;
+    state.idorResultsById[result.actionId] = result;
+  }
+
+  const originRows = await (
+    await database.prepare(
+      "SELECT data FROM origin_results WHERE project_id = ?",
+    )
+  ).all<DataRow>(projectId);
+  for (const row of originRows) {
+    const result = JSON.parse(row.data) as OriginResult;
+    state.originResultsById[result.actionId] = result;
+  }
+
+  const raceRows = await (
+    await database.prepare("SELECT data FROM race_results WHERE project_id = ?")
+  ).all<DataRow>(projectId);
+  for (const row of raceRows) {
+    const result = JSON.parse(row.data) as RaceResult;
+    state.raceResultsById[result.actionId] = result;
+  }
+
+  const middlewareRows = await (
+    await database.prepare(
+      "SELECT data FROM middleware_results WHERE project_id = ?",
+    )
+  ).all<DataRow>(projectId);
+  for (const row of middlewareRows) {
+    const result = JSON.parse(row.data) as MiddlewareRouteResult;
+    state.middlewareResultsByKey[result.key] = result;
+  }
+
+  const profileRows = await (
+    await database.prepare(
+      "SELECT data FROM session_profiles WHERE project_id = ?",
+    )
+  ).all<DataRow>(projectId);
+  for (const row of profileRows) {
+    const profile = JSON.parse(row.data) as SessionProfile;
+    state.sessionProfilesById[profile.id] = profile;
+  }
+
+  const replayRows = await (
+    await database.prepare(
+      "SELECT replay_key, data FROM profile_replays WHERE project_id = ?",
+    )
+  ).all<ProfileReplayRow>(projectId);
+  for (const row of replayRows) {
+    state.profileReplaysByKey[row.replay_key] = JSON.parse(
+      row.data,
+    ) as ProfileReplayResult;
+  }
+
+  const probeRows = await (
+    await database.prepare(
+      "SELECT probe_key, data FROM action_probes WHERE project_id = ?",
+    )
+  ).all<ActionProbeRow>(projectId);
+  for (const row of probeRows) {
+    state.actionProbesByKey[row.probe_key] = JSON.parse(
+      row.data,
+    ) as ActionProbeResult;
+  }
+
+  const flightCheckRows = await (
+    await database.prepare(
+      "SELECT data FROM flight_checks WHERE project_id = ?",
+    )
+  ).all<DataRow>(projectId);
+  for (const row of flightCheckRows) {
+    const result = JSON.parse(row.data) as FlightCheckResult;
+    state.flightChecksById[result.actionId] = result;
+  }
+
+  const fingerprintRows = await (
+    await database.prepare(
+      "SELECT data FROM version_fingerprints WHERE project_id = ?",
+    )
+  ).all<DataRow>(projectId);
+  for (const row of fingerprintRows) {
+    const fingerprint = JSON.parse(row.data) as VersionFingerprint;
+    state.versionFingerprintsByHost[fingerprint.host] = fingerprint;
+  }
+
+  const chunkIntelRows = await (
+    await database.prepare(
+      "SELECT item_key, data FROM chunk_intelligence WHERE project_id = ?",
+    )
+  ).all<ChunkIntelRow>(projectId);
+  for (const row of chunkIntelRows) {
+    state.chunkIntelByKey[row.item_key] = JSON.parse(
+      row.data,
+    ) as ChunkIntelItem;
+  }
+
+  const routeRows = await (
+    await database.prepare(
+      "SELECT route_key, data FROM route_inventory WHERE project_id = ?",
+    )
+  ).all<RouteInventoryRow>(projectId);
+  for (const row of routeRows) {
+    state.routeInventoryByKey[row.route_key] = JSON.parse(
+      row.data,
+    ) as RouteInventoryEntry;
+  }
+
+  const buildRows = await (
+    await database.prepare(
+      "SELECT build_key, data FROM observed_builds WHERE project_id = ?",
+    )
+  ).all<ObservedBuildRow>(projectId);
+  for (const row of buildRows) {
+    state.observedBuildsByKey[row.build_key] = JSON.parse(
+      row.data,
+    ) as ObservedBuild;
+  }
+
+  const settingRows = await (
+    await database.prepare(
+      "SELECT key, value FROM settings WHERE project_id = ?",
+    )
+  ).all<SettingRow>(projectId);
+  for (const row of settingRows) {
+    state.settingsByKey[row.key] = row.value;
+  }
+
+  const seenRows = await (
+    await database.prepare(
+      "SELECT request_id FROM seen_requests WHERE project_id = ?",
+    )
+  ).all<SeenRequestRow>(projectId);
+  state.seenRequestIds = new Set(seenRows.map((row) => row.request_id));
+
+  return state;
+};
+
+export const saveActionEntry = async (
+  entry: ActionEntry,
+  usage: ActionUsage,
+  usagePosition: number,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  const { database, projectId } = scope;
+
+  await (
+    await database.prepare(
+      "INSERT OR REPLACE INTO seen_requests (project_id, request_id) VALUES (?, ?)",
+    )
+  ).run(projectId, entry.requestId);
+
+  await (
+    await database.prepare(
+      "INSERT OR REPLACE INTO actions (project_id, request_id, position, data) VALUES (?, ?, ?, ?)",
+    )
+  ).run(projectId, entry.requestId, entry.id, JSON.stringify(entry));
+
+  await (
+    await database.prepare(
+      "INSERT OR REPLACE INTO action_usages (project_id, action_id, request_id, position, data) VALUES (?, ?, ?, ?, ?)",
+    )
+  ).run(
+    projectId,
+    entry.actionId,
+    usage.requestId,
+    usagePosition,
+    JSON.stringify(usage),
+  );
+};
+
+export const saveActionNote = async (
+  key: string,
+  note: string,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO action_build_notes (project_id, action_key, note) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, key, note);
+};
+
+export const saveActionName = async (
+  key: string,
+  functionName: string,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO action_build_names (project_id, action_key, function_name) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, key, functionName);
+};
+
+export const saveDiscoveredAction = async (
+  key: string,
+  discovered: DiscoveredActionInternal,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO discovered_action_builds (project_id, action_key, data) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, key, JSON.stringify(discovered));
+};
+
+export const saveActionRotation = async (
+  key: string,
+  rotation: ActionIdRotation,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO action_rotations (project_id, rotation_key, data) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, key, JSON.stringify(rotation));
+};
+
+export const saveAuthzResult = async (result: AuthzResult): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO authz_results (project_id, action_id, data) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, result.actionId, JSON.stringify(result));
+};
+
+export const saveIdorResult = async (result: IdorResult): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO idor_results (project_id, action_id, data) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, result.actionId, JSON.stringify(result));
+};
+
+export const saveOriginResult = async (result: OriginResult): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO origin_results (project_id, action_id, data) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, result.actionId, JSON.stringify(result));
+};
+
+export const saveRaceResult = async (result: RaceResult): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO race_results (project_id, action_id, data) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, result.actionId, JSON.stringify(result));
+};
+
+export const saveMiddlewareResult = async (
+  result: MiddlewareRouteResult,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO middleware_results (project_id, route_key, data) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, result.key, JSON.stringify(result));
+};
+
+export const saveSessionProfile = async (
+  profile: SessionProfile,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO session_profiles (project_id, profile_id, data) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, profile.id, JSON.stringify(profile));
+};
+
+export const deleteSessionProfile = async (
+  profileId: string,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "DELETE FROM session_profiles WHERE project_id = ? AND profile_id = ?",
+    )
+  ).run(scope.projectId, profileId);
+};
+
+export const saveProfileReplay = async (
+  key: string,
+  result: ProfileReplayResult,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO profile_replays (project_id, replay_key, data) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, key, JSON.stringify(result));
+};
+
+export const saveActionProbe = async (
+  key: string,
+  result: ActionProbeResult,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO action_probes (project_id, probe_key, data) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, key, JSON.stringify(result));
+};
+
+export const saveFlightCheckResult = async (
+  result: FlightCheckResult,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO flight_checks (project_id, action_id, data) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, result.actionId, JSON.stringify(result));
+};
+
+export const saveVersionFingerprint = async (
+  fingerprint: VersionFingerprint,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO version_fingerprints (project_id, host, data) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, fingerprint.host, JSON.stringify(fingerprint));
+};
+
+export const saveChunkIntelItem = async (
+  key: string,
+  item: ChunkIntelItem,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO chunk_intelligence (project_id, item_key, data) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, key, JSON.stringify(item));
+};
+
+export const saveRouteInventoryEntry = async (
+  key: string,
+  entry: RouteInventoryEntry,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO route_inventory (project_id, route_key, data) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, key, JSON.stringify(entry));
+};
+
+export const saveObservedBuild = async (
+  key: string,
+  build: ObservedBuild,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO observed_builds (project_id, build_key, data) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, key, JSON.stringify(build));
+};
+
+export const saveSetting = async (
+  key: string,
+  value: string,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  await (
+    await scope.database.prepare(
+      "INSERT OR REPLACE INTO settings (project_id, key, value) VALUES (?, ?, ?)",
+    )
+  ).run(scope.projectId, key, value);
+};
+
+/**
+ * Swaps the stored discovery inventory for `discoveredByKey` in one
+ * transaction, so a failed write keeps the previous rows.
+ */
+export const replaceDiscoveredActions = async (
+  discoveredByKey: Record<string, DiscoveredActionInternal>,
+): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  const { database, projectId } = scope;
+  await database.exec("BEGIN");
+  try {
+    await (
+      await database.prepare(
+        "DELETE FROM discovered_action_builds WHERE project_id = ?",
+      )
+    ).run(projectId);
+    const insert = await database.prepare(
+      "INSERT INTO discovered_action_builds (project_id, action_key, data) VALUES (?, ?, ?)",
+    );
+    for (const [key, discovered] of Object.entries(discoveredByKey)) {
+      await insert.run(projectId, key, JSON.stringify(discovered));
+    }
+    await database.exec("COMMIT");
+  } catch (error) {
+    await database.exec("ROLLBACK");
+    throw error;
+  }
+};
+
+/**
+ * Removes everything the analyzer collected or tested for the current
+ * project. Action notes, session profiles and settings are kept.
+ */
+export const clearScanData = async (): Promise<void> => {
+  const scope = getScope();
+  if (scope === undefined) return;
+
+  for (const table of [
+    "actions",
+    "action_usages",
+    "seen_requests",
+    "action_build_names",
+    "discovered_action_builds",
+    "action_rotations",
+    "authz_results",
+    "idor_results",
+    "origin_results",
+    "race_results",
+    "middleware_results",
+    "profile_replays",
+    "action_probes",
+    "flight_checks",
+    "version_fingerprints",
+    "chunk_intelligence",
+    "route_inventory",
+    "observed_builds",
+  ]) {
+    await (
+      await scope.database.prepare(`DELETE FROM ${table} WHERE project_id = ?`)
+    ).run(scope.projectId);
+  }
+};
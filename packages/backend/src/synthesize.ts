@@ -0,0 +1,61 @@
+type ServerReferenceInfo = {
+  type: "server-action" | "use-cache";
+  usedArgs: boolean[];
+  hasRestArgs: boolean;
+};
+
+type ArgumentSkeleton = {
+  body: string;
+  arity: number | undefined;
+};
+
+const INFO_ACTION_ID_PATTERN = /^[0-9a-fA-F]{42}$/;
+
+const MAX_INFO_ARGS = 6;
+
+const getServerReferenceInfo = (
+  actionId: string,
+): ServerReferenceInfo | undefined => {
+  if (!INFO_ACTION_ID_PATTERN.test(actionId)) return undefined;
+
+  const infoByte = parseInt(actionId.slice(0, 2), 16);
+  const argMask = (infoByte >> 1) & 0x3f;
+  const usedArgs: boolean[] = [];
+  for (let index = 0; index < MAX_INFO_ARGS; index += 1) {
+    usedArgs.push(((argMask >> (MAX_INFO_ARGS - 1 - index)) & 1) === 1);
+  }
+
+  return {
+    type: ((infoByte >> 7) & 1) === 1 ? "use-cache" : "server-action",
+    usedArgs,
+    hasRestArgs: (infoByte & 1) === 1,
+  };
+};
+
+export const buildArgumentSkeleton = (actionId: string): ArgumentSkeleton => {
+  const info = getServerReferenceInfo(actionId);
+  if (info === undefined) return { body: "[]", arity: undefined };
+
+  const arity = info.hasRestArgs
+    ? MAX_INFO_ARGS + 1
+    : info.usedArgs.lastIndexOf(true) + 1;
+  const args = Array.from({ length: arity }, (_, index) =>
+    info.usedArgs[index] === false ? "$undefined" : "",
+  );
+  return { body: JSON.stringify(args), arity };
+};
+
+export const buildRouterStateTree = (path: string): string => {
+  const segments = path
+    .split(/[?#]/)[0]
+    ?.split("/")
+    .filter((segment) => segment !== "");
+
+  let tree: unknown[] = ["__PAGE__", {}];
+  for (const segment of (segments ?? []).reverse()) {
+    tree = [segment, { children: tree }];
+  }
+  return encodeURIComponent(
+    JSON.stringify(["", { children: tree }, undefined, undefined, true]),
+  );
+};
@@ -0,0 +1,628 @@
+import type { DefineEvents } from "caido:plugin";
+import type { ID } from "caido:utils";
+
+export type Result<T> =
+  | { kind: "Ok"; value: T }
+  | { kind: "Error"; error: string };
+
+export type ExportOptions = {
+  includeExecuted: boolean;
+  includeUnused: boolean;
+  includeSecurity: boolean;
+  includeFullDetails: boolean;
+};
+
+export type ActionEntry = {
+  id: number;
+  requestId: ID;
+  method: string;
+  url: string;
+  host: string;
+  buildId: string | undefined;
+  actionId: string;
+  noJsForm: boolean;
+  parameters: string;
+  decodedBody: DecodedActionBody;
+  returnValue: FlightValue | undefined;
+  requestSize: number;
+  responseSize: number;
+  statusCode: number;
+  timestamp: string;
+  securityNotes: string;
+  actionNotes: string;
+};
+
+export type DiscoveredAction = {
+  actionId: string;
+  functionName: string;
+  host: string;
+  buildId: string | undefined;
+  status: string;
+  chunkFile: string;
+  executedCount: number;
+  signature: string;
+  source: DiscoverySource | undefined;
+  pageUrl: string;
+  sourceFile: string;
+  sourceLine: number | undefined;
+  notes: string;
+};
+
+export type ApplicationBuild = {
+  host: string;
+  buildId: string | undefined;
+  executedCount: number;
+  discoveredCount: number;
+};
+
+export type ActionIdRotation = {
+  host: string;
+  functionName: string;
+  moduleId: string | undefined;
+  previousActionId: string;
+  previousBuildId: string;
+  actionId: string;
+  buildId: string;
+  detectedAt: string;
+};
+
+export type BuildDiff = {
+  host: string;
+  fromBuildId: string;
+  toBuildId: string;
+  added: DiscoveredAction[];
+  removed: DiscoveredAction[];
+  rotated: ActionIdRotation[];
+  unchanged: number;
+};
+
+export type DiscoveryResult = {
+  status: string;
+  all: DiscoveredAction[];
+  unused: DiscoveredAction[];
+  unknown: DiscoveredAction[];
+};
+
+export type AuthzIdentity = "unauthenticated" | "low-privilege";
+
+export type AuthzVerdict = "enforced" | "bypassed" | "unclear";
+
+export type AuthzAttempt = {
+  identity: AuthzIdentity;
+  profileName: string | undefined;
+  requestId: ID | undefined;
+  statusCode: number;
+  responseSize: number;
+  verdict: AuthzVerdict;
+  reason: string;
+};
+
+export type AuthzResult = {
+  actionId: string;
+  functionName: string;
+  host: string;
+  originalRequestId: ID;
+  originalStatusCode: number;
+  originalResponseSize: number;
+  verdict: AuthzVerdict;
+  attempts: AuthzAttempt[];
+  testedAt: string;
+};
+
+export type AuthzSettings = {
+  lowPrivilegeProfileId: string | undefined;
+};
+
+export type HeaderValue = {
+  name: string;
+  value: string;
+};
+
+export type SessionProfile = {
+  id: string;
+  name: string;
+  cookies: HeaderValue[];
+  headers: HeaderValue[];
+  sourceRequestId: ID | undefined;
+  updatedAt: string;
+};
+
+export type ProfileReplayResult = {
+  actionId: string;
+  functionName: string;
+  profileId: string;
+  profileName: string;
+  requestId: ID | undefined;
+  statusCode: number;
+  responseSize: number;
+  returnValue: string | undefined;
+  error: string | undefined;
+  sentAt: string;
+};
+
+export type AutomatePayloadSet = {
+  name: string;
+  payloads: string[];
+};
+
+export type AutomateTemplate = {
+  raw: string;
+  placeholders: { start: number; end: number }[];
+};
+
+export type ReplayCollectionGroup = "executed" | "unused" | "unknown";
+
+export type ReplayCollectionItem = {
+  actionId: string;
+  functionName: string;
+  group: ReplayCollectionGroup;
+  name: string;
+  sessionId: ID | undefined;
+};
+
+export type ReplayCollectionPlan = {
+  host: string;
+  collectionName: string;
+  items: ReplayCollectionItem[];
+};
+
+export type ActionProbeResult = {
+  actionId: string;
+  functionName: string;
+  host: string;
+  buildId: string | undefined;
+  pageUrl: string;
+  arity: number | undefined;
+  requestId: ID | undefined;
+  statusCode: number;
+  responseSize: number;
+  returnValue: string | undefined;
+  error: string | undefined;
+  probedAt: string;
+};
+
+export type ActionProbePlan = {
+  key: string;
+  actionId: string;
+  functionName: string;
+  host: string;
+  buildId: string | undefined;
+  pageUrl: string;
+  arity: number | undefined;
+};
+
+export type IdorSettings = {
+  adjacentRange: number;
+  maxVariantsPerArgument: number;
+  requestsPerSecond: number;
+  useHistoryIds: boolean;
+  useResponseUuids: boolean;
+};
+
+export type IdorVariantSource = "adjacent" | "history" | "response";
+
+export type IdorOutcome = "different-data" | "same-data" | "rejected" | "error";
+
+export type IdorProbe = {
+  path: string;
+  originalValue: string;
+  variant: string;
+  source: IdorVariantSource;
+  requestId: ID | undefined;
+  statusCode: number;
+  responseSize: number;
+  outcome: IdorOutcome;
+  reason: string;
+};
+
+export type IdorResult = {
+  actionId: string;
+  functionName: string;
+  host: string;
+  originalRequestId: ID;
+  originalStatusCode: number;
+  originalResponseSize: number;
+  paths: string[];
+  probes: IdorProbe[];
+  verdict: "suspicious" | "clean";
+  testedAt: string;
+};
+
+export type IdorPlannedAction = {
+  actionId: string;
+  functionName: string;
+  host: string;
+  paths: string[];
+  requestCount: number;
+};
+
+export type IdorCampaignPlan = {
+  actions: IdorPlannedAction[];
+  requestCount: number;
+};
+
+type SecurityRuleTarget =
+  | "request-header"
+  | "request-body"
+  | "argument"
+  | "response-body"
+  | "return-value"
+  | "action";
+
+type SecurityRuleMatcher = "regex" | "jsonpath" | "equals" | "leak";
+
+export type RuleSeverity = "info" | "low" | "medium" | "high" | "critical";
+
+export type SecurityRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  target: SecurityRuleTarget;
+  selector: string;
+  matcher: SecurityRuleMatcher;
+  pattern: string;
+  caseSensitive: boolean;
+  negate: boolean;
+  severity: RuleSeverity;
+  message: string;
+};
+
+export type SecurityRuleMatch = {
+  ruleId: string;
+  ruleName: string;
+  severity: RuleSeverity;
+  message: string;
+  evidence: string[];
+};
+
+export type LeakKind =
+  | "jwt"
+  | "api-key"
+  | "password-hash"
+  | "email"
+  | "phone"
+  | "internal-ip"
+  | "sensitive-field"
+  | "privilege-field";
+
+export type ActionLeak = {
+  actionId: string;
+  functionName: string;
+  path: string;
+  kind: LeakKind;
+  label: string;
+  severity: RuleSeverity;
+  responses: number;
+  occurrences: number;
+  sample: string;
+  requestIds: ID[];
+  lastSeen: string;
+};
+
+export type ChunkIntelKind =
+  | "public-env"
+  | "secret"
+  | "internal-host"
+  | "api-path"
+  | "fetch-target";
+
+export type ChunkIntelItem = {
+  host: string;
+  kind: ChunkIntelKind;
+  name: string;
+  value: string;
+  severity: RuleSeverity;
+  chunkUrl: string;
+  chunkRequestId: ID;
+  chunkCount: number;
+  firstSeen: string;
+};
+
+export type RouteSource =
+  | "build-manifest"
+  | "ssg-manifest"
+  | "app-build-manifest"
+  | "chunk-path"
+  | "page-payload";
+
+type RouteAction = {
+  actionId: string;
+  functionName: string;
+};
+
+export type RouteInventoryEntry = {
+  host: string;
+  route: string;
+  kind: "page" | "app";
+  dynamic: boolean;
+  ssg: boolean;
+  sources: RouteSource[];
+  chunks: string[];
+  actions: RouteAction[];
+  visitCount: number;
+  lastVisitRequestId: ID | undefined;
+  sourceRequestId: ID;
+  updatedAt: string;
+};
+
+export type FindingSettings = {
+  autoReportSeverities: RuleSeverity[];
+};
+
+export type RaceSettings = {
+  copies: number;
+};
+
+export type RaceCopy = {
+  index: number;
+  requestId: ID | undefined;
+  statusCode: number;
+  responseSize: number;
+  startOffsetMs: number;
+  elapsedMs: number;
+  returnValue: string | undefined;
+  error: string | undefined;
+};
+
+export type RaceResponseGroup = {
+  statusCode: number;
+  responseSize: number;
+  returnValue: string | undefined;
+  error: string | undefined;
+  count: number;
+  copies: number[];
+};
+
+export type RaceResult = {
+  actionId: string;
+  functionName: string;
+  host: string;
+  templateRequestId: ID;
+  copies: RaceCopy[];
+  groups: RaceResponseGroup[];
+  totalMs: number;
+  testedAt: string;
+};
+
+export type OriginVariant =
+  | "foreign-origin"
+  | "null-origin"
+  | "missing-origin"
+  | "forwarded-host"
+  | "suffixed-origin";
+
+export type OriginOutcome = "accepted" | "rejected" | "unclear";
+
+export type OriginAttempt = {
+  variant: OriginVariant;
+  description: string;
+  requestId: ID | undefined;
+  statusCode: number;
+  responseSize: number;
+  outcome: OriginOutcome;
+  reason: string;
+};
+
+export type PlannedTest = {
+  name: string;
+  host: string;
+  actionIds: string[];
+  requestCount: number;
+};
+
+export type TestPlan = {
+  targets: PlannedTest[];
+  requestCount: number;
+};
+
+export type OriginResult = {
+  actionId: string;
+  functionName: string;
+  host: string;
+  originalRequestId: ID;
+  originalStatusCode: number;
+  originalResponseSize: number;
+  attempts: OriginAttempt[];
+  verdict: "cross-origin-accepted" | "enforced" | "unclear";
+  testedAt: string;
+};
+
+export type MiddlewareBypassOutcome = "bypassed" | "blocked" | "unclear";
+
+export type MiddlewareBypassAttempt = {
+  variant: string;
+  description: string;
+  requestId: ID | undefined;
+  statusCode: number;
+  responseSize: number;
+  outcome: MiddlewareBypassOutcome;
+  reason: string;
+};
+
+export type MiddlewareRouteResult = {
+  key: string;
+  host: string;
+  path: string;
+  kind: "action" | "page";
+  actionIds: string[];
+  originalRequestId: ID | undefined;
+  originalStatusCode: number;
+  originalResponseSize: number;
+  baselineRequestId: ID | undefined;
+  baselineStatusCode: number;
+  verdict: "bypassed" | "protected" | "unprotected" | "unclear";
+  attempts: MiddlewareBypassAttempt[];
+  testedAt: string;
+};
+
+export type FlightCheckProbe = {
+  name: string;
+  description: string;
+  requestId: ID | undefined;
+  statusCode: number;
+  elapsedMs: number;
+  responseSize: number;
+  signals: string[];
+  suspicious: boolean;
+};
+
+export type FlightCheckResult = {
+  actionId: string;
+  functionName: string;
+  host: string;
+  baselineRequestId: ID | undefined;
+  baselineStatusCode: number;
+  baselineElapsedMs: number;
+  probes: FlightCheckProbe[];
+  verdict: "suspicious" | "clean";
+  testedAt: string;
+};
+
+export type AdvisorySeverity = "critical" | "high" | "medium" | "low";
+
+export type AdvisoryMatch = {
+  id: string;
+  packageName: "next" | "react";
+  title: string;
+  severity: AdvisorySeverity;
+  fixedIn: string;
+};
+
+export type VersionFingerprint = {
+  host: string;
+  nextVersion: string | undefined;
+  reactVersion: string | undefined;
+  sourceRequestId: ID | undefined;
+  advisories: AdvisoryMatch[];
+  fingerprintedAt: string;
+};
+
+export type BackendEvents = DefineEvents<{
+  "nextjs-actions.status": (status: string) => void;
+  "nextjs-actions.action-added": (entry: ActionEntry) => void;
+  "nextjs-actions.data-changed": () => void;
+}>;
+
+export type SourceLocation = {
+  file: string;
+  line: number;
+  column: number;
+};
+
+export type DiscoverySource = "chunk" | "inline-script" | "rsc" | "form";
+
+export type DiscoveredActionInternal = {
+  actionId: string;
+  functionName: string;
+  host: string;
+  buildId: string | undefined;
+  source: DiscoverySource;
+  pageUrl: string | undefined;
+  chunkFile: string;
+  moduleId: string | undefined;
+  callSiteOffset: number | undefined;
+  sourceLocation: SourceLocation | undefined;
+  firstSeen: string;
+  chunkRequestId: ID;
+};
+
+export type ObservedBuild = {
+  host: string;
+  buildId: string;
+  firstSeen: string;
+  lastSeen: string;
+  chunks: string[];
+  pages: Record<string, string>;
+};
+
+export type ActionUsage = {
+  timestamp: string;
+  url: string;
+  host: string;
+  buildId: string | undefined;
+  method: string;
+  statusCode: number;
+  noJsForm: boolean;
+  parameters: string;
+  decodedBody: DecodedActionBody;
+  returnValue: FlightValue | undefined;
+  securityNotes: string;
+  requestId: ID;
+};
+
+export type FlightEntry = {
+  key: string;
+  value: FlightValue;
+};
+
+export type FlightValue =
+  | { kind: "string"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "boolean"; value: boolean }
+  | { kind: "null" }
+  | { kind: "undefined" }
+  | { kind: "special"; value: "NaN" | "Infinity" | "-Infinity" | "-0" }
+  | { kind: "bigint"; value: string }
+  | { kind: "date"; value: string }
+  | { kind: "array"; items: FlightValue[] }
+  | { kind: "object"; entries: FlightEntry[] }
+  | { kind: "map"; entries: { key: FlightValue; value: FlightValue }[] }
+  | { kind: "set"; items: FlightValue[] }
+  | { kind: "formData"; entries: FlightEntry[] }
+  | {
+      kind: "file";
+      filename: string;
+      contentType: string;
+      size: number;
+    }
+  | { kind: "binary"; type: string; size: number }
+  | { kind: "promise"; value: FlightValue }
+  | { kind: "serverReference"; actionId: string; bound: FlightValue[] }
+  | { kind: "element"; type: string; key: string; props: FlightEntry[] }
+  | { kind: "reference"; ref: string; description: string };
+
+type ActionBodyEncoding =
+  | "empty"
+  | "json"
+  | "multipart"
+  | "urlencoded"
+  | "text";
+
+export type DecodedActionBody = {
+  encoding: ActionBodyEncoding;
+  args: FlightValue[];
+  boundArgs: FlightValue[];
+  errors: string[];
+};
+
+export type RscRow = {
+  id: string;
+  tag: string;
+  raw: string;
+};
+
+export type RscPayload = {
+  rows: RscRow[];
+  returnValue: FlightValue | undefined;
+  tree: FlightValue | undefined;
+  buildId: string | undefined;
+  errors: string[];
+};
+
+export type InferredSchema = {
+  types: string[];
+  optional: boolean;
+  samples: number;
+  examples: string[];
+  enumValues: string[] | undefined;
+  properties: { key: string; schema: InferredSchema }[];
+  items: InferredSchema | undefined;
+};
+
+export type ActionSchema = {
+  actionId: string;
+  functionName: string;
+  usageCount: number;
+  signature: string;
+  arguments: InferredSchema[];
+};
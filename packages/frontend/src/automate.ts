@@ -0,0 +1,90 @@
+import type { FrontendSDK } from "./types";
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+export const sendToAutomate = async (
+  sdk: FrontendSDK,
+  requestId: string,
+  payloadSetName: string | undefined,
+): Promise<void> => {
+  const template = await sdk.backend.getAutomateTemplate(requestId);
+  if (template.kind === "Error") {
+    sdk.window.showToast(template.error, { variant: "error" });
+    return;
+  }
+
+  const payloadSets = await sdk.backend.getAutomatePayloadSets();
+  const list = payloadSets
+    .filter(
+      (set) => payloadSetName === undefined || set.name === payloadSetName,
+    )
+    .flatMap((set) => set.payloads);
+
+  const created = await sdk.graphql.createAutomateSession({
+    input: { requestSource: { id: requestId } },
+  });
+  const session = created.createAutomateSession.session;
+  if (session === undefined || session === null) {
+    sdk.window.showToast("Could not create Automate session", {
+      variant: "error",
+    });
+    return;
+  }
+
+  const { raw, placeholders } = template.value;
+  const encoder = new TextEncoder();
+  const toByteOffset = (offset: number) =>
+    encoder.encode(raw.slice(0, offset)).length;
+  const { settings, connection } = session;
+
+  const updated = await sdk.graphql.updateAutomateSession({
+    id: session.id,
+    input: {
+      connection: {
+        host: connection.host,
+        port: connection.port,
+        isTLS: connection.isTLS,
+        SNI: connection.SNI,
+      },
+      raw: toBase64(encoder.encode(raw)),
+      settings: {
+        closeConnection: settings.closeConnection,
+        updateContentLength: true,
+        strategy: "SEQUENTIAL",
+        concurrency: {
+          delay: settings.concurrency.delay,
+          workers: settings.concurrency.workers,
+        },
+        retryOnFailure: {
+          backoff: settings.retryOnFailure.backoff,
+          maximumRetries: settings.retryOnFailure.maximumRetries,
+        },
+        redirect: {
+          max: settings.redirect.max,
+          strategy: settings.redirect.strategy,
+        },
+        placeholders: placeholders.map((p) => ({
+          start: toByteOffset(p.start),
+          end: toByteOffset(p.end),
+        })),
+        payloads: [{ options: { simpleList: { list } }, preprocessors: [] }],
+      },
+    },
+  });
+  if (updated.updateAutomateSession.error) {
+    sdk.window.showToast("Could not configure Automate session", {
+      variant: "error",
+    });
+    return;
+  }
+
+  sdk.navigation.goTo("/automate");
+  sdk.window.showToast(
+    `Automate session created with ${placeholders.length} placeholders and ${list.length} payloads`,
+    { variant: "success" },
+  );
+};
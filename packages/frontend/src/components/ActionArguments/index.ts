@@ -0,0 +1 @@
+export { default as ActionArguments } from "./Container.vue";
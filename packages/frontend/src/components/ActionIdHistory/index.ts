@@ -0,0 +1 @@
+export { default as ActionIdHistory } from "./Container.vue";
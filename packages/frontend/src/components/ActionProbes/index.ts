@@ -0,0 +1 @@
+export { default as ActionProbes } from "./Container.vue";
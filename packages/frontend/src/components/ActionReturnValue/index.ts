@@ -0,0 +1 @@
+export { default as ActionReturnValue } from "./Container.vue";
@@ -0,0 +1 @@
+export { default as ArgumentSchema } from "./Container.vue";
@@ -0,0 +1 @@
+export { default as AuthzResults } from "./Container.vue";
@@ -0,0 +1 @@
+export { default as BuildDiff } from "./Container.vue";
@@ -0,0 +1 @@
+export { default as ChunkIntelligence } from "./Container.vue";
@@ -0,0 +1 @@
+export { default as FlightChecks } from "./Container.vue";
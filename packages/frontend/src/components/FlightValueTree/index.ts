@@ -0,0 +1 @@
+export { default as FlightValueTree } from "./Container.vue";
@@ -0,0 +1 @@
+export { default as IdorResults } from "./Container.vue";
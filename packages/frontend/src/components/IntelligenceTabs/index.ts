@@ -0,0 +1 @@
+export { default as IntelligenceTabs } from "./Container.vue";
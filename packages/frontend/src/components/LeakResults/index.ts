@@ -0,0 +1 @@
+export { default as LeakResults } from "./Container.vue";
@@ -0,0 +1 @@
+export { default as MiddlewareResults } from "./Container.vue";
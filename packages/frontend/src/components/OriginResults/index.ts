@@ -0,0 +1 @@
+export { default as OriginResults } from "./Container.vue";
@@ -0,0 +1 @@
+export { default as Panel } from "./Container.vue";
@@ -0,0 +1 @@
+export { default as ProfileReplays } from "./Container.vue";
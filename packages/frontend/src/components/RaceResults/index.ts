@@ -0,0 +1 @@
+export { default as RaceResults } from "./Container.vue";
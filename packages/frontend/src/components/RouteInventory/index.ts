@@ -0,0 +1 @@
+export { default as RouteInventory } from "./Container.vue";
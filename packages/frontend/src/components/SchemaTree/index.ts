@@ -0,0 +1 @@
+export { default as SchemaTree } from "./Container.vue";
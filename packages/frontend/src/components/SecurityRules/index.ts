@@ -0,0 +1 @@
+export { default as SecurityRules } from "./Container.vue";
@@ -0,0 +1 @@
+export { default as SessionProfiles } from "./Container.vue";
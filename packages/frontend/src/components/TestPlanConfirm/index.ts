@@ -0,0 +1 @@
+export { default as TestPlanConfirm } from "./Container.vue";
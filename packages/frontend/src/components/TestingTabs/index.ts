@@ -0,0 +1 @@
+export { default as TestingTabs } from "./Container.vue";
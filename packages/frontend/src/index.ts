@@ -2,7 +2,9 @@ import { Classic } from "@caido/primevue";
 import PrimeVue from "primevue/config";
 import { createApp } from "vue";
 
+import { sendToAutomate } from "./automate";
 import { SDKPlugin } from "./plugins/sdk";
+import { syncReplayCollection } from "./replayCollection";
 import "./styles/index.css";
 import type { FrontendSDK } from "./types";
 import App from "./views/App.vue";
@@ -76,6 +78,156 @@ export const init = (sdk: FrontendSDK) => {
     group: "Next.js Actions Analyzer",
   });
 
+  sdk.commands.register("nextjs-actions.resolve-source-maps", {
+    name: "Next.js Actions Analyzer: Resolve Source Maps",
+    run: async () => {
+      const result = await sdk.backend.resolveSourceMaps();
+      if (result.kind === "Error") {
+        sdk.window.showToast(result.error, { variant: "error" });
+        return;
+      }
+      sdk.window.showToast(
+        `Resolved ${result.value.resolved} action locations`,
+        { variant: "success" },
+      );
+    },
+    group: "Next.js Actions Analyzer",
+  });
+
+  sdk.commands.register("nextjs-actions.run-authz-tests", {
+    name: "Next.js Actions Analyzer: Preview Authorization Tests",
+    run: async () => {
+      const plan = await sdk.backend.previewAuthzTests([]);
+      sdk.window.showToast(
+        `Authorization tests would send ${plan.requestCount} requests to ${plan.targets.length} actions. Run them from the Authorization Tests panel.`,
+        { variant: "info" },
+      );
+      sdk.navigation.goTo("/nextjs-actions");
+    },
+    group: "Next.js Actions Analyzer",
+  });
+
+  sdk.commands.register("nextjs-actions.probe-unused-actions", {
+    name: "Next.js Actions Analyzer: Preview Unused Action Probes",
+    run: async () => {
+      const result = await sdk.backend.previewUnusedActionProbes();
+      if (result.kind === "Error") {
+        sdk.window.showToast(result.error, { variant: "error" });
+        return;
+      }
+      sdk.window.showToast(
+        `Probing would call ${result.value.length} unused actions. Run it from the Unused Action Probes panel.`,
+        { variant: "info" },
+      );
+      sdk.navigation.goTo("/nextjs-actions");
+    },
+    group: "Next.js Actions Analyzer",
+  });
+
+  sdk.commands.register("nextjs-actions.run-idor-campaign", {
+    name: "Next.js Actions Analyzer: Preview IDOR Campaign",
+    run: async () => {
+      const result = await sdk.backend.previewIdorCampaign([]);
+      if (result.kind === "Error") {
+        sdk.window.showToast(result.error, { variant: "error" });
+        return;
+      }
+      sdk.window.showToast(
+        `IDOR campaign would send ${result.value.requestCount} requests to ${result.value.actions.length} actions. Run it from the IDOR Campaign panel.`,
+        { variant: "info" },
+      );
+      sdk.navigation.goTo("/nextjs-actions");
+    },
+    group: "Next.js Actions Analyzer",
+  });
+
+  sdk.commands.register("nextjs-actions.run-origin-tests", {
+    name: "Next.js Actions Analyzer: Preview Origin / CSRF Tests",
+    run: async () => {
+      const plan = await sdk.backend.previewOriginTests([]);
+      sdk.window.showToast(
+        `Origin / CSRF tests would send ${plan.requestCount} requests to ${plan.targets.length} actions. Run them from the Origin / CSRF Tests panel.`,
+        { variant: "info" },
+      );
+      sdk.navigation.goTo("/nextjs-actions");
+    },
+    group: "Next.js Actions Analyzer",
+  });
+
+  sdk.commands.register("nextjs-actions.run-middleware-bypass", {
+    name: "Next.js Actions Analyzer: Preview Middleware Bypass Probes",
+    run: async () => {
+      const result = await sdk.backend.previewMiddlewareBypassTests([]);
+      if (result.kind === "Error") {
+        sdk.window.showToast(result.error, { variant: "error" });
+        return;
+      }
+      sdk.window.showToast(
+        `Middleware probing would send up to ${result.value.requestCount} requests to ${result.value.targets.length} routes. Run it from the Middleware Bypass panel.`,
+        { variant: "info" },
+      );
+      sdk.navigation.goTo("/nextjs-actions");
+    },
+    group: "Next.js Actions Analyzer",
+  });
+
+  sdk.commands.register("nextjs-actions.fingerprint-versions", {
+    name: "Next.js Actions Analyzer: Fingerprint Next.js/React Versions",
+    run: async () => {
+      const result = await sdk.backend.fingerprintVersions();
+      if (result.kind === "Error") {
+        sdk.window.showToast(result.error, { variant: "error" });
+        return;
+      }
+      const vulnerable = result.value.filter((f) => f.advisories.length > 0);
+      sdk.window.showToast(
+        `Fingerprinted ${result.value.length} hosts (${vulnerable.length} with known advisories)`,
+        { variant: vulnerable.length > 0 ? "warning" : "success" },
+      );
+    },
+    group: "Next.js Actions Analyzer",
+  });
+
+  sdk.commands.register("nextjs-actions.scan-chunk-intelligence", {
+    name: "Next.js Actions Analyzer: Scan Chunks for Secrets and Endpoints",
+    run: async () => {
+      const result = await sdk.backend.scanChunkIntelligence();
+      if (result.kind === "Error") {
+        sdk.window.showToast(result.error, { variant: "error" });
+        return;
+      }
+      sdk.window.showToast(
+        `Found ${result.value.items} items in ${result.value.scannedChunks} chunks`,
+        { variant: "success" },
+      );
+    },
+    group: "Next.js Actions Analyzer",
+  });
+
+  sdk.commands.register("nextjs-actions.build-route-inventory", {
+    name: "Next.js Actions Analyzer: Build Route Inventory",
+    run: async () => {
+      const result = await sdk.backend.buildRouteInventory();
+      if (result.kind === "Error") {
+        sdk.window.showToast(result.error, { variant: "error" });
+        return;
+      }
+      sdk.window.showToast(
+        `Found ${result.value.routes} routes (${result.value.unvisited} not yet visited)`,
+        { variant: "success" },
+      );
+    },
+    group: "Next.js Actions Analyzer",
+  });
+
+  sdk.commands.register("nextjs-actions.sync-replay-collection", {
+    name: "Next.js Actions Analyzer: Build Replay Collection",
+    run: async () => {
+      await syncReplayCollection(sdk, undefined);
+    },
+    group: "Next.js Actions Analyzer",
+  });
+
   sdk.commands.register("nextjs-actions.export", {
     name: "Next.js Actions Analyzer: Export Analysis",
     run: async () => {
@@ -124,15 +276,107 @@ export const init = (sdk: FrontendSDK) => {
     group: "Next.js Actions Analyzer",
   });
 
+  sdk.commands.register("nextjs-actions.create-profile", {
+    name: "Next.js Actions Analyzer: Create Session Profile from Request",
+    run: async (ctx) => {
+      const request =
+        ctx.type === "RequestRowContext" ? ctx.requests[0] : undefined;
+      if (request === undefined) {
+        sdk.window.showToast("Select a request first", {
+          variant: "warning",
+        });
+        return;
+      }
+
+      const result = await sdk.backend.createProfileFromRequest(request.id, "");
+      if (result.kind === "Error") {
+        sdk.window.showToast(result.error, { variant: "error" });
+        return;
+      }
+
+      sdk.window.showToast(`Profile "${result.value.name}" created`, {
+        variant: "success",
+      });
+    },
+    group: "Next.js Actions Analyzer",
+  });
+
+  sdk.commands.register("nextjs-actions.send-to-automate", {
+    name: "Next.js Actions Analyzer: Send to Automate",
+    run: async (ctx) => {
+      const request =
+        ctx.type === "RequestRowContext" ? ctx.requests[0] : undefined;
+      if (request === undefined) {
+        sdk.window.showToast("Select a request first", {
+          variant: "warning",
+        });
+        return;
+      }
+
+      await sendToAutomate(sdk, request.id, undefined);
+    },
+    group: "Next.js Actions Analyzer",
+  });
+
+  sdk.commands.register("nextjs-actions.promote-to-finding", {
+    name: "Next.js Actions Analyzer: Promote to Finding",
+    run: async (ctx) => {
+      const request =
+        ctx.type === "RequestRowContext" ? ctx.requests[0] : undefined;
+      if (request === undefined) {
+        sdk.window.showToast("Select a request first", {
+          variant: "warning",
+        });
+        return;
+      }
+
+      const result = await sdk.backend.promoteToFinding(request.id, []);
+      if (result.kind === "Error") {
+        sdk.window.showToast(result.error, { variant: "error" });
+        return;
+      }
+      sdk.window.showToast("Finding created", { variant: "success" });
+    },
+    group: "Next.js Actions Analyzer",
+  });
+
   sdk.menu.registerItem({
     type: "RequestRow",
     commandId: "nextjs-actions.analyze-selection",
     leadingIcon: "fas fa-magnifying-glass",
   });
 
+  sdk.menu.registerItem({
+    type: "RequestRow",
+    commandId: "nextjs-actions.create-profile",
+    leadingIcon: "fas fa-user",
+  });
+
+  sdk.menu.registerItem({
+    type: "RequestRow",
+    commandId: "nextjs-actions.send-to-automate",
+    leadingIcon: "fas fa-bolt",
+  });
+
+  sdk.menu.registerItem({
+    type: "RequestRow",
+    commandId: "nextjs-actions.promote-to-finding",
+    leadingIcon: "fas fa-flag",
+  });
+
   sdk.commandPalette.register("nextjs-actions.scan");
   sdk.commandPalette.register("nextjs-actions.extract-names");
   sdk.commandPalette.register("nextjs-actions.find-unused");
+  sdk.commandPalette.register("nextjs-actions.resolve-source-maps");
+  sdk.commandPalette.register("nextjs-actions.run-authz-tests");
+  sdk.commandPalette.register("nextjs-actions.probe-unused-actions");
+  sdk.commandPalette.register("nextjs-actions.run-idor-campaign");
+  sdk.commandPalette.register("nextjs-actions.run-origin-tests");
+  sdk.commandPalette.register("nextjs-actions.run-middleware-bypass");
+  sdk.commandPalette.register("nextjs-actions.fingerprint-versions");
+  sdk.commandPalette.register("nextjs-actions.scan-chunk-intelligence");
+  sdk.commandPalette.register("nextjs-actions.build-route-inventory");
+  sdk.commandPalette.register("nextjs-actions.sync-replay-collection");
   sdk.commandPalette.register("nextjs-actions.export");
   sdk.commandPalette.register("nextjs-actions.analyze-selection");
 };
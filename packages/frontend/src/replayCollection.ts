@@ -0,0 +1,54 @@
+import type { FrontendSDK } from "./types";
+
+export const syncReplayCollection = async (
+  sdk: FrontendSDK,
+  host: string | undefined,
+): Promise<void> => {
+  const plan = await sdk.backend.getReplayCollectionPlan(host);
+  if (plan.kind === "Error") {
+    sdk.window.showToast(plan.error, { variant: "error" });
+    return;
+  }
+
+  const { collectionName, items } = plan.value;
+  const collection =
+    sdk.replay.getCollections().find((c) => c.name === collectionName) ??
+    (await sdk.replay.createCollection(collectionName));
+  const sessions = sdk.replay.getSessions();
+
+  let created = 0;
+  let updated = 0;
+  for (const item of items) {
+    const existing = sessions.find((s) => s.id === item.sessionId);
+    if (existing !== undefined) {
+      if (existing.name !== item.name) {
+        await sdk.replay.renameSession(existing.id, item.name);
+      }
+      if (existing.collectionId !== collection.id) {
+        await sdk.replay.moveSession(existing.id, collection.id);
+      }
+      updated += 1;
+      continue;
+    }
+
+    const result = await sdk.backend.createActionReplaySession(
+      plan.value.host,
+      item.actionId,
+      collection.id,
+    );
+    if (result.kind === "Error") {
+      sdk.window.showToast(`${item.name}: ${result.error}`, {
+        variant: "error",
+      });
+      continue;
+    }
+
+    await sdk.replay.renameSession(result.value.sessionId, item.name);
+    created += 1;
+  }
+
+  sdk.window.showToast(
+    `${collectionName}: ${created} sessions created, ${updated} updated`,
+    { variant: "success" },
+  );
+};